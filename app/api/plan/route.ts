@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse, readJsonObject } from "@/lib/api";
+import {
+  calculateResult,
+  checkSampleRatio,
+  collectPlanErrors,
+  DEFAULT_MDE_DAYS,
+  estimateMdeForDuration,
+  parseFormValues,
+} from "@/lib/planner";
+import {
+  buildReadinessSummary,
+  collectReadinessErrors,
+  DEFAULT_READINESS_CONFIG,
+  parseReadinessConfig,
+} from "@/lib/readiness";
+import { parseLinkedToggles, summarizeToggleLink, syncLinkedToggle, validateLinkedPlan } from "@/lib/toggle-links";
+import { parseTracker } from "@/lib/workspace";
+
+// Accepts the planner form fields (strings or numbers) plus an optional `mdeDays` deadline and
+// `readinessRules` (the rule editor's config) and returns the same plan, readiness score and
+// detectable uplift the page shows for those inputs. A plan with a `linkedToggle` needs the
+// feature toggles as `toggles`, so B's traffic and the clean traffic match the page. Optional
+// `tracker` counts feed the sample ratio check into readiness the way the progress tracker does.
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return errorResponse(400, { error: "invalid_json", message: "Send the planner inputs as a JSON object." });
+  }
+
+  const linked = parseLinkedToggles(parseFormValues(body), body.toggles);
+  if ("error" in linked) {
+    return errorResponse(400, { error: "invalid_toggles", message: linked.error });
+  }
+
+  const tracker = body.tracker === undefined ? null : parseTracker(body.tracker);
+  if (body.tracker !== undefined && !tracker) {
+    return errorResponse(400, {
+      error: "invalid_tracker",
+      message:
+        "Send tracker counts (controlUsers, variantUsers, controlConversions, variantConversions) as whole numbers.",
+    });
+  }
+
+  const values = syncLinkedToggle(parseFormValues(body), linked.toggles);
+  const validation = validateLinkedPlan(values, linked.toggles);
+  const planErrors = collectPlanErrors(validation);
+  if (planErrors) {
+    return errorResponse(400, {
+      error: "validation_failed",
+      message: "Fix the planner inputs and try again.",
+      ...planErrors,
+    });
+  }
+
+  const readinessConfig =
+    body.readinessRules === undefined ? DEFAULT_READINESS_CONFIG : parseReadinessConfig(body.readinessRules);
+  const readinessErrors = readinessConfig
+    ? collectReadinessErrors(readinessConfig)
+    : ["readinessRules must be an object with a rules list."];
+  if (!readinessConfig || readinessErrors.length > 0) {
+    return errorResponse(400, {
+      error: "invalid_readiness_rules",
+      message: "Fix the readiness rules and try again.",
+      readinessErrors,
+    });
+  }
+
+  // Bayesian plans run the same seeded simulation the browser worker runs, so the sample matches.
+  const result = calculateResult(validation.parsed);
+  const toggleLink = summarizeToggleLink(values, linked.toggles);
+  const srm = tracker ? checkSampleRatio(Number(tracker.controlUsers), Number(tracker.variantUsers), result) : null;
+
+  return NextResponse.json({
+    values,
+    result,
+    readiness: buildReadinessSummary(values, result, readinessConfig, {
+      srm,
+      contamination: toggleLink ? toggleLink.contaminatedShare : null,
+    }),
+    srm,
+    mde: estimateMdeForDuration(validation.parsed, Number(body.mdeDays ?? DEFAULT_MDE_DAYS)),
+  });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse, readJsonObject, scenarioStoreErrorResponse } from "@/lib/api";
+import { parseFormValues } from "@/lib/planner";
+import {
+  deleteScenario,
+  getScenario,
+  MAX_SCENARIO_NAME_LENGTH,
+  parseScenarioName,
+  updateScenario,
+  type ScenarioUpdate,
+} from "@/lib/scenario-store";
+
+type ScenarioRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+function notFoundResponse(id: string) {
+  return errorResponse(404, { error: "not_found", message: `No scenario with ID "${id}".` });
+}
+
+export async function GET(_request: Request, { params }: ScenarioRouteContext) {
+  const { id } = await params;
+  try {
+    const scenario = await getScenario(id);
+    return scenario ? NextResponse.json({ scenario }) : notFoundResponse(id);
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
+
+// Body: { name?, values? }. Fields that are left out keep their stored value.
+export async function PATCH(request: Request, { params }: ScenarioRouteContext) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) {
+    return errorResponse(400, { error: "invalid_json", message: "Send the changes as a JSON object." });
+  }
+
+  const update: ScenarioUpdate = {};
+  if (body.name !== undefined) {
+    const name = parseScenarioName(body.name);
+    if (!name) {
+      return errorResponse(400, {
+        error: "invalid_name",
+        message: `Scenario name is required (up to ${MAX_SCENARIO_NAME_LENGTH} characters).`,
+      });
+    }
+    update.name = name;
+  }
+  if (body.values !== undefined) {
+    update.values = parseFormValues(body.values);
+  }
+
+  try {
+    const scenario = await updateScenario(id, update);
+    return scenario ? NextResponse.json({ scenario }) : notFoundResponse(id);
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: ScenarioRouteContext) {
+  const { id } = await params;
+  try {
+    return (await deleteScenario(id)) ? new NextResponse(null, { status: 204 }) : notFoundResponse(id);
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse, readJsonObject, scenarioStoreErrorResponse } from "@/lib/api";
+import { importScenarios, MAX_IMPORTED_SCENARIOS } from "@/lib/scenario-store";
+import { parseScenarioList } from "@/lib/workspace";
+
+// Body: { scenarios: [{ id?, name, values, createdAt }], mode?: "merge" | "replace" }. Used for workspace
+// imports and for moving scenarios out of localStorage. Responds with the library after the import and
+// a report entry per scenario.
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body || !Array.isArray(body.scenarios)) {
+    return errorResponse(400, { error: "invalid_json", message: "Send { scenarios: [...] } as a JSON object." });
+  }
+
+  if (body.scenarios.length > MAX_IMPORTED_SCENARIOS) {
+    return errorResponse(400, {
+      error: "too_many_scenarios",
+      message: `Import up to ${MAX_IMPORTED_SCENARIOS} scenarios at a time.`,
+    });
+  }
+
+  const mode = body.mode === "replace" ? "replace" : "merge";
+  const { items, report: invalid } = parseScenarioList(body.scenarios);
+  try {
+    const { scenarios, report } = await importScenarios(items, mode);
+    return NextResponse.json({ scenarios, report: [...invalid, ...report] });
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
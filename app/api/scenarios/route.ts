@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse, readJsonObject, scenarioStoreErrorResponse } from "@/lib/api";
+import { parseFormValues } from "@/lib/planner";
+import { createScenario, listScenarios, MAX_SCENARIO_NAME_LENGTH, parseScenarioName } from "@/lib/scenario-store";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ scenarios: await listScenarios() });
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
+
+// Body: { name, values } where values holds the planner form fields.
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return errorResponse(400, { error: "invalid_json", message: "Send the scenario as a JSON object." });
+  }
+
+  const name = parseScenarioName(body.name);
+  if (!name) {
+    return errorResponse(400, {
+      error: "invalid_name",
+      message: `Scenario name is required (up to ${MAX_SCENARIO_NAME_LENGTH} characters).`,
+    });
+  }
+
+  try {
+    const scenario = await createScenario(name, parseFormValues(body.values));
+    return NextResponse.json({ scenario }, { status: 201 });
+  } catch (error) {
+    return scenarioStoreErrorResponse(error);
+  }
+}
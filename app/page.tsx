@@ -1,88 +1,250 @@
 "use client";
 
-import { FormEvent, useEffect, useMemo, useState } from "react";
-
-type FormValues = {
-  baselineRate: string;
-  minDetectableUplift: string;
-  significance: string;
-  power: string;
-  dailyVisitors: string;
-  variantTraffic: string;
+import { ChangeEvent, FormEvent, MouseEvent, useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+
+import { comparePosteriors } from "@/lib/bayesian";
+import type { BayesianWorkerRequest, BayesianWorkerResponse } from "@/lib/bayesian.worker";
+import {
+  BUCKETING_ALPHA,
+  BUCKETING_SCHEME_LABELS,
+  generateUserIds,
+  MAX_SIMULATED_USERS,
+  parseUserIds,
+  simulateBucketing,
+  type BucketingScheme,
+  type BucketingSimulation,
+} from "@/lib/bucketing";
+import {
+  BRIEF_FILE_TYPES,
+  BRIEF_FORMAT_LABELS,
+  BRIEF_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  renderBrief,
+  renderBriefPdf,
+  STANDARD_BRIEF_TEMPLATE,
+  type BriefContext,
+  type BriefFormat,
+} from "@/lib/brief";
+import {
+  describeRoundedRollouts,
+  exportFlags,
+  FLAG_FILE_NAMES,
+  FLAG_FORMAT_LABELS,
+  parseFlagFile,
+  type FlagFormat,
+} from "@/lib/flag-formats";
+import {
+  ARM_LABELS,
+  bayesianRequestFor,
+  buildEligibilityFunnel,
+  buildPlanCurves,
+  buildScenarioComparison,
+  calculateResult,
+  checkSampleRatio,
+  CORRECTION_LABELS,
+  daysToCollect,
+  DEFAULT_MDE_DAYS,
+  DEFAULT_VALUES,
+  eligibleDailyUsers,
+  EMPTY_ERRORS,
+  estimateMdeForDuration,
+  exactSearchFellBack,
+  formatAlpha,
+  formatIsoDate,
+  formatLiftPercent,
+  formatLiftPoints,
+  formatLoss,
+  formatMean,
+  formatMetricValue,
+  formatNumber,
+  formatPValue,
+  formatRate,
+  formatShare,
+  isMarginTest,
+  MAX_FUNNEL_STEPS,
+  MAX_GUARDRAILS,
+  MAX_RAMP_STEPS,
+  MAX_VARIANTS,
+  SAMPLE_SIZE_METHOD_LABELS,
+  SPENDING_FUNCTION_LABELS,
+  SRM_ALPHA,
+  valuesFromSearchParams,
+  valuesToQueryString,
+  WEEKDAY_LABELS,
+  type CorrectionMethod,
+  type CurvePoint,
+  type DesignMode,
+  type FormErrors,
+  type FormValues,
+  type Framework,
+  type FunnelStep,
+  type Guardrail,
+  type MdeEstimate,
+  type MetricType,
+  type ParsedValues,
+  type RampStep,
+  type Result,
+  type ScenarioComparison,
+  type SpendingFunction,
+  type TestType,
+  type TrafficPattern,
+  type VariantArm,
+} from "@/lib/planner";
+import {
+  DEFAULT_PORTFOLIO_PLAN,
+  MAX_PORTFOLIO_DAYS,
+  parsePortfolioPlan,
+  schedulePortfolio,
+  suggestPortfolio,
+  validatePortfolio,
+  type PortfolioPlan,
+  type PortfolioTest,
+} from "@/lib/portfolio";
+import {
+  buildReadinessSummary,
+  DEFAULT_READINESS_CONFIG,
+  MAX_READINESS_RULES,
+  parseReadinessConfig,
+  READINESS_COMPARATOR_LABELS,
+  READINESS_METRIC_LABELS,
+  READINESS_SEVERITY_LABELS,
+  readinessConfigFromSearchParams,
+  readinessConfigToQuery,
+  validateReadinessCutoffs,
+  validateReadinessRule,
+  type ReadinessComparator,
+  type ReadinessConfig,
+  type ReadinessMetric,
+  type ReadinessRule,
+  type ReadinessSeverity,
+} from "@/lib/readiness";
+import { EXACT_SEARCH_LIMIT, type SampleSizeMethod } from "@/lib/sample-size";
+import type { StoredScenario } from "@/lib/scenario-store";
+import { inverseNormalCdf, normalCdf } from "@/lib/statistics";
+import { summarizeToggleLink, syncLinkedToggle, validateLinkedPlan } from "@/lib/toggle-links";
+import {
+  buildWorkspaceDocument,
+  migrateWorkspace,
+  parseScenarioList,
+  parseTemplateList,
+  parseToggleList,
+  parseWorkspaceFile,
+  reconcileItems,
+  WORKSPACE_VERSION,
+  type BriefTemplate,
+  type FeatureToggle,
+  type ImportMode,
+  type ImportReportEntry,
+  type TrackerValues,
+  type WorkspaceScenario,
+} from "@/lib/workspace";
+
+type ObservedCounts = {
+  controlUsers: number;
+  controlConversions: number;
+  variantUsers: number;
+  variantConversions: number;
 };
 
-type Result = {
-  sampleSizePerGroup: number;
-  totalSampleSize: number;
-  durationDays: number;
-  expectedVariantRate: number;
+type ObservedVerdictTone = "win" | "loss" | "neutral" | "pending";
+
+type ObservedAnalysis = {
+  controlRate: number;
+  variantRate: number;
+  absoluteLift: number;
+  absoluteLiftInterval: [number, number];
+  relativeLift: number;
+  relativeLiftInterval: [number, number];
+  confidenceLevel: number;
+  zScore: number;
+  pValue: number;
+  probabilityBeatsControl: number | null;
+  sampleReached: boolean;
+  tone: ObservedVerdictTone;
+  badge: string;
+  verdict: string;
 };
 
-type ParsedValues = {
-  baselineRate: number;
-  uplift: number;
-  significance: number;
-  power: number;
-  dailyVisitors: number;
-  variantTraffic: number;
+const VERDICT_BADGES: Record<TestType, Record<ObservedVerdictTone, string>> = {
+  "two-sided": { win: "B wins", loss: "B loses", neutral: "No difference", pending: "Keep running" },
+  "one-sided": { win: "B wins", loss: "B loses", neutral: "No lift shown", pending: "Keep running" },
+  "non-inferiority": { win: "Not worse", loss: "Worse", neutral: "Not shown", pending: "Keep running" },
+  equivalence: { win: "Equivalent", loss: "Not equivalent", neutral: "Not shown", pending: "Keep running" },
 };
 
-type FeatureToggle = {
-  id: string;
-  name: string;
-  enabled: boolean;
-  rollout: number;
-  description: string;
-};
+const SUGGESTED_RAMP_EXPOSURES = ["5", "20", "50"];
 
-type SavedScenario = {
-  id: string;
-  name: string;
-  values: FormValues;
-  createdAt: string;
-};
+const SUGGESTED_FUNNEL_STEPS: FunnelStep[] = [
+  { name: "Reach the cashier", share: "30" },
+  { name: "In the target market", share: "80" },
+];
 
-type TrackerValues = {
-  controlUsers: string;
-  variantUsers: string;
-};
+const SUGGESTED_GUARDRAILS: Guardrail[] = [
+  {
+    name: "Deposit rate",
+    metricType: "conversion",
+    betterWhen: "higher",
+    baseline: "20",
+    standardDeviation: "",
+    margin: "5",
+  },
+  {
+    name: "Churn rate",
+    metricType: "conversion",
+    betterWhen: "lower",
+    baseline: "3",
+    standardDeviation: "",
+    margin: "10",
+  },
+];
 
-type ReadinessCheck = {
-  label: string;
-  passed: boolean;
-};
+const CORRECTION_OPTIONS: { value: CorrectionMethod; label: string }[] = [
+  { value: "bonferroni", label: "Bonferroni (alpha / comparisons)" },
+  { value: "holm", label: "Holm step-down" },
+  { value: "dunnett", label: "Dunnett-style (many-to-one)" },
+];
 
-type ReadinessSummary = {
-  score: number;
-  level: "Ready" | "Needs Review" | "Risky";
-  checks: ReadinessCheck[];
-};
+const DESIGN_MODE_OPTIONS: { value: DesignMode; label: string }[] = [
+  { value: "fixed", label: "Fixed horizon (one final analysis)" },
+  { value: "sequential", label: "Group-sequential (interim looks)" },
+];
 
-type MdeEstimate = {
-  status: "ok" | "input_error" | "days_error" | "not_feasible";
-  message: string;
-  mdePercent?: number;
-  achievableSamplePerGroup?: number;
-};
+const SPENDING_FUNCTION_OPTIONS: { value: SpendingFunction; label: string }[] = [
+  { value: "obrien-fleming", label: "O'Brien-Fleming (strict early, lenient late)" },
+  { value: "pocock", label: "Pocock (same bar at every look)" },
+];
 
-const DEFAULT_VALUES: FormValues = {
-  baselineRate: "8",
-  minDetectableUplift: "10",
-  significance: "5",
-  power: "80",
-  dailyVisitors: "12000",
-  variantTraffic: "50",
-};
+const TEST_TYPE_OPTIONS: { value: TestType; label: string }[] = [
+  { value: "two-sided", label: "Superiority, two-sided (B differs from A)" },
+  { value: "one-sided", label: "Superiority, one-sided (B beats A)" },
+  { value: "non-inferiority", label: "Non-inferiority (B is no worse than A)" },
+  { value: "equivalence", label: "Equivalence via TOST (B matches A)" },
+];
+
+const FRAMEWORK_OPTIONS: { value: Framework; label: string }[] = [
+  { value: "frequentist", label: "Frequentist (p-values)" },
+  { value: "bayesian", label: "Bayesian (probability B beats A)" },
+];
+
+const TRAFFIC_PATTERN_OPTIONS: { value: TrafficPattern; label: string }[] = [
+  { value: "flat", label: "Flat (same users every day)" },
+  { value: "weekly", label: "Day-of-week profile" },
+];
 
-const FORM_VALUE_KEYS: (keyof FormValues)[] = [
-  "baselineRate",
-  "minDetectableUplift",
-  "significance",
-  "power",
-  "dailyVisitors",
-  "variantTraffic",
+const SAMPLE_SIZE_METHOD_OPTIONS: { value: SampleSizeMethod; label: string }[] = [
+  { value: "normal", label: "Normal approximation (default)" },
+  { value: "fleiss", label: "Fleiss continuity correction" },
+  { value: "arcsine", label: "Cohen's h (arcsine)" },
+  { value: "exact", label: "Exact binomial power search" },
 ];
 
+const METRIC_TYPE_OPTIONS: { value: MetricType; label: string }[] = [
+  { value: "conversion", label: "Conversion rate (proportion)" },
+  { value: "continuous", label: "Average value (mean)" },
+];
+
+const MAX_COMPARED_SCENARIOS = 4;
+
 const DEFAULT_TOGGLES: FeatureToggle[] = [
   {
     id: "quick-withdrawal",
@@ -101,151 +263,111 @@ const DEFAULT_TOGGLES: FeatureToggle[] = [
 ];
 
 const TOGGLES_STORAGE_KEY = "ab-test-planner-feature-toggles";
+
+const TEMPLATES_STORAGE_KEY = "ab-test-planner-brief-templates";
+
+const READINESS_STORAGE_KEY = "ab-test-planner-readiness-rules";
+
 const SCENARIOS_STORAGE_KEY = "ab-test-planner-saved-scenarios";
+
+const PORTFOLIO_STORAGE_KEY = "ab-test-planner-portfolio";
+
 const THEME_STORAGE_KEY = "ab-test-planner-theme";
+
 const DEFAULT_TRACKER_VALUES: TrackerValues = {
   controlUsers: "0",
   variantUsers: "0",
+  controlConversions: "0",
+  variantConversions: "0",
 };
 
-function inverseNormalCdf(probability: number): number {
-  if (probability <= 0 || probability >= 1) {
-    throw new Error("Probability must be between 0 and 1.");
-  }
-
-  const a1 = -39.6968302866538;
-  const a2 = 220.946098424521;
-  const a3 = -275.928510446969;
-  const a4 = 138.357751867269;
-  const a5 = -30.6647980661472;
-  const a6 = 2.50662827745924;
-
-  const b1 = -54.4760987982241;
-  const b2 = 161.585836858041;
-  const b3 = -155.698979859887;
-  const b4 = 66.8013118877197;
-  const b5 = -13.2806815528857;
-
-  const c1 = -0.00778489400243029;
-  const c2 = -0.322396458041136;
-  const c3 = -2.40075827716184;
-  const c4 = -2.54973253934373;
-  const c5 = 4.37466414146497;
-  const c6 = 2.93816398269878;
-
-  const d1 = 0.00778469570904146;
-  const d2 = 0.32246712907004;
-  const d3 = 2.445134137143;
-  const d4 = 3.75440866190742;
-
-  const pLow = 0.02425;
-  const pHigh = 1 - pLow;
-
-  if (probability < pLow) {
-    const q = Math.sqrt(-2 * Math.log(probability));
-    return (
-      (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    );
-  }
-
-  if (probability > pHigh) {
-    const q = Math.sqrt(-2 * Math.log(1 - probability));
-    return -(
-      (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    );
+function readInitialValuesFromLocation(): FormValues {
+  if (typeof window === "undefined") {
+    return DEFAULT_VALUES;
   }
 
-  const q = probability - 0.5;
-  const r = q * q;
-  return (
-    (((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q /
-    (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1)
-  );
-}
-
-function formatNumber(value: number): string {
-  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value);
-}
-
-function formatRate(value: number): string {
-  return `${(value * 100).toFixed(2)}%`;
+  const params = new URLSearchParams(window.location.search);
+  return valuesFromSearchParams(params);
 }
 
-function parseValues(values: FormValues): ParsedValues {
-  return {
-    baselineRate: Number(values.baselineRate) / 100,
-    uplift: Number(values.minDetectableUplift) / 100,
-    significance: Number(values.significance) / 100,
-    power: Number(values.power) / 100,
-    dailyVisitors: Number(values.dailyVisitors),
-    variantTraffic: Number(values.variantTraffic) / 100,
-  };
+// A share link's traffic split gives way to the linked toggle's rollout when this browser has that toggle.
+function readInitialValues(): FormValues {
+  return syncLinkedToggle(readInitialValuesFromLocation(), readTogglesFromStorage());
 }
 
-function valuesFromSearchParams(searchParams: { get: (key: string) => string | null }): FormValues {
-  const initialValues: FormValues = { ...DEFAULT_VALUES };
-
-  for (const key of FORM_VALUE_KEYS) {
-    const param = searchParams.get(key);
-    if (param && param.trim() !== "") {
-      initialValues[key] = param;
-    }
+function readTogglesFromStorage(): FeatureToggle[] {
+  if (typeof window === "undefined") {
+    return DEFAULT_TOGGLES;
   }
 
-  return initialValues;
-}
+  const raw = window.localStorage.getItem(TOGGLES_STORAGE_KEY);
+  if (!raw) {
+    return DEFAULT_TOGGLES;
+  }
 
-function valuesToQueryString(values: FormValues): string {
-  const params = new URLSearchParams();
-  for (const key of FORM_VALUE_KEYS) {
-    params.set(key, values[key]);
+  // Older builds stored a bare array; newer ones wrap it as { version, toggles }.
+  try {
+    const parsed = JSON.parse(raw);
+    const stored = migrateWorkspace(Array.isArray(parsed) ? { toggles: parsed } : parsed);
+    return Array.isArray(stored.toggles) ? parseToggleList(stored.toggles).items : DEFAULT_TOGGLES;
+  } catch {
+    return DEFAULT_TOGGLES;
   }
-  return params.toString();
 }
 
-function readInitialValuesFromLocation(): FormValues {
+function readBriefTemplatesFromStorage(): BriefTemplate[] {
   if (typeof window === "undefined") {
-    return DEFAULT_VALUES;
+    return [];
   }
 
-  const params = new URLSearchParams(window.location.search);
-  return valuesFromSearchParams(params);
+  const raw = window.localStorage.getItem(TEMPLATES_STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parseTemplateList(migrateWorkspace(JSON.parse(raw)).templates).items;
+  } catch {
+    return [];
+  }
 }
 
-function readTogglesFromStorage(): FeatureToggle[] {
+// Rules in a share link win over the ones saved in this browser, the same way link inputs win over the
+// form defaults.
+function readReadinessConfig(): ReadinessConfig {
   if (typeof window === "undefined") {
-    return DEFAULT_TOGGLES;
+    return DEFAULT_READINESS_CONFIG;
   }
 
-  const raw = window.localStorage.getItem(TOGGLES_STORAGE_KEY);
-  if (!raw) {
-    return DEFAULT_TOGGLES;
+  const fromLink = readinessConfigFromSearchParams(new URLSearchParams(window.location.search));
+  if (fromLink) {
+    return fromLink;
   }
 
   try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) {
-      return DEFAULT_TOGGLES;
-    }
+    const raw = window.localStorage.getItem(READINESS_STORAGE_KEY);
+    const stored = raw ? migrateWorkspace(JSON.parse(raw)).readiness : null;
+    return parseReadinessConfig(stored) ?? DEFAULT_READINESS_CONFIG;
+  } catch {
+    return DEFAULT_READINESS_CONFIG;
+  }
+}
 
-    return parsed
-      .filter((item) => item && typeof item === "object")
-      .map((item) => ({
-        id: String(item.id ?? ""),
-        name: String(item.name ?? ""),
-        enabled: Boolean(item.enabled),
-        rollout: Math.max(0, Math.min(100, Number(item.rollout) || 0)),
-        description: String(item.description ?? ""),
-      }))
-      .filter((item) => item.id && item.name);
+function readPortfolioFromStorage(): PortfolioPlan {
+  if (typeof window === "undefined") {
+    return DEFAULT_PORTFOLIO_PLAN;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(PORTFOLIO_STORAGE_KEY);
+    return raw ? parsePortfolioPlan(JSON.parse(raw)) : DEFAULT_PORTFOLIO_PLAN;
   } catch {
-    return DEFAULT_TOGGLES;
+    return DEFAULT_PORTFOLIO_PLAN;
   }
 }
 
-function readScenariosFromStorage(): SavedScenario[] {
+// Scenarios saved in this browser before the shared library existed; moved to the server on first load.
+function readScenariosFromStorage(): WorkspaceScenario[] {
   if (typeof window === "undefined") {
     return [];
   }
@@ -261,24 +383,7 @@ function readScenariosFromStorage(): SavedScenario[] {
       return [];
     }
 
-    return parsed
-      .filter((item) => item && typeof item === "object")
-      .map((item) => ({
-        id: String(item.id ?? ""),
-        name: String(item.name ?? ""),
-        values: {
-          baselineRate: String(item.values?.baselineRate ?? DEFAULT_VALUES.baselineRate),
-          minDetectableUplift: String(
-            item.values?.minDetectableUplift ?? DEFAULT_VALUES.minDetectableUplift,
-          ),
-          significance: String(item.values?.significance ?? DEFAULT_VALUES.significance),
-          power: String(item.values?.power ?? DEFAULT_VALUES.power),
-          dailyVisitors: String(item.values?.dailyVisitors ?? DEFAULT_VALUES.dailyVisitors),
-          variantTraffic: String(item.values?.variantTraffic ?? DEFAULT_VALUES.variantTraffic),
-        },
-        createdAt: String(item.createdAt ?? new Date().toISOString()),
-      }))
-      .filter((item) => item.id && item.name);
+    return parseScenarioList(migrateWorkspace({ scenarios: parsed }).scenarios).items;
   } catch {
     return [];
   }
@@ -292,242 +397,303 @@ function readThemeFromStorage(): boolean {
   return window.localStorage.getItem(THEME_STORAGE_KEY) === "dark";
 }
 
-function calculateResult(parsed: ParsedValues): Result {
-  const p1 = parsed.baselineRate;
-  const p2 = p1 * (1 + parsed.uplift);
-  const sampleSizePerGroup = calculateSampleSizePerGroup(p1, p2, parsed.significance, parsed.power);
-
-  const controlShare = 1 - parsed.variantTraffic;
-  const variantShare = parsed.variantTraffic;
-
-  const controlDaily = parsed.dailyVisitors * controlShare;
-  const variantDaily = parsed.dailyVisitors * variantShare;
-
-  const durationDays = Math.ceil(
-    Math.max(sampleSizePerGroup / controlDaily, sampleSizePerGroup / variantDaily),
-  );
-
-  return {
-    sampleSizePerGroup,
-    totalSampleSize: sampleSizePerGroup * 2,
-    durationDays,
-    expectedVariantRate: p2,
-  };
+function downloadFile(content: BlobPart, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
-function calculateSampleSizePerGroup(p1: number, p2: number, alpha: number, power: number): number {
-  const zAlpha = inverseNormalCdf(1 - alpha / 2);
-  const zBeta = inverseNormalCdf(power);
-  const pooled = (p1 + p2) / 2;
-  const diff = Math.abs(p2 - p1);
-
-  const numerator =
-    zAlpha * Math.sqrt(2 * pooled * (1 - pooled)) +
-    zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
-
-  return Math.ceil((numerator * numerator) / (diff * diff));
+// "2 added, 1 invalid" for the status line under an import.
+function summarizeImportReport(report: ImportReportEntry[]): string {
+  const counts = new Map<string, number>();
+  report.forEach((entry) => counts.set(entry.outcome, (counts.get(entry.outcome) ?? 0) + 1));
+  return [...counts].map(([outcome, count]) => `${count} ${outcome}`).join(", ") || "nothing to import";
 }
 
-function estimateMdeForDuration(parsed: ParsedValues, maxDays: number): MdeEstimate {
-  if (!Number.isFinite(maxDays) || maxDays < 1 || !Number.isInteger(maxDays)) {
-    return {
-      status: "days_error",
-      message: "Enter a whole number of days (>= 1).",
-    };
-  }
-
-  const controlDaily = parsed.dailyVisitors * (1 - parsed.variantTraffic);
-  const variantDaily = parsed.dailyVisitors * parsed.variantTraffic;
-  const achievableSamplePerGroup = Math.floor(Math.min(controlDaily, variantDaily) * maxDays);
-
-  if (achievableSamplePerGroup < 1) {
-    return {
-      status: "not_feasible",
-      message: "Not enough traffic for this timeframe. Increase users/day or days.",
-      achievableSamplePerGroup,
-    };
+// Reads the observed A vs B conversions. decisionAlpha is the alpha that applies right now (the
+// corrected alpha for B, or the current look's nominal alpha); null means no analysis is planned yet.
+function analyzeObservedResult(
+  observed: ObservedCounts,
+  result: Result,
+  decisionAlpha: number | null,
+  sampleReached: boolean,
+): ObservedAnalysis | null {
+  const { controlUsers, controlConversions, variantUsers, variantConversions } = observed;
+  const pooled = (controlConversions + variantConversions) / (controlUsers + variantUsers);
+  if (controlUsers <= 0 || variantUsers <= 0 || pooled <= 0 || pooled >= 1) {
+    return null;
   }
 
-  const lowUplift = 0.0001;
-  const highUplift = 5;
-
-  const requiredAtHigh = calculateSampleSizePerGroup(
-    parsed.baselineRate,
-    parsed.baselineRate * (1 + highUplift),
-    parsed.significance,
-    parsed.power,
-  );
-
-  if (requiredAtHigh > achievableSamplePerGroup) {
-    return {
-      status: "not_feasible",
-      message: "Even 500% uplift is not detectable in this duration with current traffic.",
-      achievableSamplePerGroup,
-    };
-  }
+  const controlRate = controlConversions / controlUsers;
+  const variantRate = variantConversions / variantUsers;
+  const absoluteLift = variantRate - controlRate;
+  const intervalAlpha = decisionAlpha ?? result.arms[0].adjustedAlpha;
+  // One-sided tests, and each half of TOST, are read off the two-sided interval at 2 x alpha.
+  const twoSided = result.testType === "two-sided";
+  const zCritical = inverseNormalCdf(1 - (twoSided ? intervalAlpha / 2 : intervalAlpha));
 
-  const requiredAtLow = calculateSampleSizePerGroup(
-    parsed.baselineRate,
-    parsed.baselineRate * (1 + lowUplift),
-    parsed.significance,
-    parsed.power,
+  const unpooledError = Math.sqrt(
+    (controlRate * (1 - controlRate)) / controlUsers + (variantRate * (1 - variantRate)) / variantUsers,
   );
+  const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / controlUsers + 1 / variantUsers));
+  const absoluteLiftInterval: [number, number] = [
+    absoluteLift - zCritical * unpooledError,
+    absoluteLift + zCritical * unpooledError,
+  ];
 
-  if (requiredAtLow <= achievableSamplePerGroup) {
-    return {
-      status: "ok",
-      message: "Very sensitive setup. Detectable uplift is below 0.01%.",
-      mdePercent: 0.01,
-      achievableSamplePerGroup,
-    };
-  }
-
-  let low = lowUplift;
-  let high = highUplift;
-
-  for (let i = 0; i < 60; i += 1) {
-    const mid = (low + high) / 2;
-    const p2 = parsed.baselineRate * (1 + mid);
-    const required = calculateSampleSizePerGroup(parsed.baselineRate, p2, parsed.significance, parsed.power);
-    if (required <= achievableSamplePerGroup) {
-      high = mid;
+  // Margin tests do not assume A and B convert alike, so they use the unpooled error. TOST passes only
+  // when both one-sided tests do, so its p-value is the larger of the two.
+  const margin = result.margin;
+  const zScore =
+    margin === null
+      ? absoluteLift / pooledError
+      : result.testType === "equivalence"
+        ? Math.min(absoluteLift + margin, margin - absoluteLift) / unpooledError
+        : (absoluteLift + margin) / unpooledError;
+  const pValue = twoSided ? 2 * (1 - normalCdf(Math.abs(zScore))) : 1 - normalCdf(zScore);
+
+  // Relative lift interval via the delta method on log(B / A); undefined without conversions in both.
+  const logRatioError =
+    controlConversions > 0 && variantConversions > 0
+      ? Math.sqrt((1 - controlRate) / controlConversions + (1 - variantRate) / variantConversions)
+      : Number.NaN;
+  const relativeLift = controlRate > 0 ? variantRate / controlRate - 1 : Number.NaN;
+
+  const probabilityBeatsControl = result.bayesian
+    ? comparePosteriors(
+        result.bayesian.priorAlpha,
+        result.bayesian.priorBeta,
+        controlUsers,
+        controlConversions,
+        variantUsers,
+        variantConversions,
+      ).probabilityBeatsControl
+    : null;
+
+  let tone: ObservedVerdictTone;
+  let verdict: string;
+  const [lower, upper] = absoluteLiftInterval;
+  const pText = `p = ${formatPValue(pValue)}`;
+  if (result.bayesian && probabilityBeatsControl !== null) {
+    const threshold = result.bayesian.threshold;
+    const probabilityText = `P(B beats A) is ${formatShare(probabilityBeatsControl)}`;
+    if (probabilityBeatsControl >= threshold) {
+      tone = "win";
+      verdict = `B beats A: ${probabilityText}, at or above the ${formatShare(threshold)} decision threshold.`;
+    } else if (1 - probabilityBeatsControl >= threshold) {
+      tone = "loss";
+      verdict = `B is worse than A: ${probabilityText}, so A beats B with at least ${formatShare(threshold)} probability.`;
+    } else {
+      tone = sampleReached ? "neutral" : "pending";
+      verdict = `No decision yet: ${probabilityText}, below the ${formatShare(threshold)} decision threshold.`;
+    }
+  } else if (decisionAlpha === null) {
+    tone = "pending";
+    verdict = "No planned look reached yet. Do not read the result before the first interim look.";
+  } else if (margin !== null && result.testType === "equivalence") {
+    const bounds = `${formatLiftPoints(-margin)} to ${formatLiftPoints(margin)}`;
+    const interval = `${formatLiftPoints(lower)} to ${formatLiftPoints(upper)}`;
+    if (pValue < decisionAlpha) {
+      tone = "win";
+      verdict = `B is equivalent to A: the interval ${interval} stays within ${bounds} (TOST ${pText}).`;
+    } else if (lower > margin || upper < -margin) {
+      tone = "loss";
+      verdict = `B differs from A by more than the margin: the interval ${interval} lies outside ${bounds}.`;
+    } else {
+      tone = sampleReached ? "neutral" : "pending";
+      verdict = `Equivalence not shown: the interval ${interval} reaches past ${bounds} (TOST ${pText}).`;
+    }
+  } else if (margin !== null) {
+    if (pValue < decisionAlpha) {
+      tone = "win";
+      verdict = `B is no worse than A: the lower bound ${formatLiftPoints(lower)} is above the margin of ${formatLiftPoints(-margin)} (${pText}).`;
+    } else if (upper < -margin) {
+      tone = "loss";
+      verdict = `B is worse than A by more than the margin: even the upper bound ${formatLiftPoints(upper)} is below ${formatLiftPoints(-margin)}.`;
+    } else {
+      tone = sampleReached ? "neutral" : "pending";
+      verdict = `Non-inferiority not shown: the lower bound ${formatLiftPoints(lower)} is below the margin of ${formatLiftPoints(-margin)} (${pText}).`;
+    }
+  } else if (result.testType === "one-sided") {
+    if (pValue < decisionAlpha) {
+      tone = "win";
+      verdict = `B beats A: one-sided ${pText} is below the planned alpha of ${formatAlpha(decisionAlpha)}.`;
     } else {
-      low = mid;
+      tone = sampleReached ? "neutral" : "pending";
+      verdict = `B is not shown to beat A: one-sided ${pText} is not below the planned alpha of ${formatAlpha(decisionAlpha)}.`;
     }
+  } else if (pValue < decisionAlpha) {
+    tone = absoluteLift > 0 ? "win" : "loss";
+    verdict = `${absoluteLift > 0 ? "B beats A" : "B is worse than A"}: p = ${formatPValue(pValue)} is below the planned alpha of ${formatAlpha(decisionAlpha)}.`;
+  } else {
+    tone = sampleReached ? "neutral" : "pending";
+    verdict = `No significant difference: p = ${formatPValue(pValue)} is not below the planned alpha of ${formatAlpha(decisionAlpha)}.`;
   }
 
+  const sampleText = sampleReached
+    ? " The planned sample size was reached, so this is the final read."
+    : result.sequential && decisionAlpha !== null && tone !== "win" && tone !== "loss"
+      ? " The planned maximum sample has not been reached, so keep running until the next look."
+      : result.sequential && decisionAlpha !== null
+        ? " The look's stopping boundary was crossed, so the test can stop early."
+        : " The planned sample size has not been reached yet, so treat this as preliminary.";
+
   return {
-    status: "ok",
-    message: "Minimum detectable uplift estimated for selected duration.",
-    mdePercent: Number((high * 100).toFixed(2)),
-    achievableSamplePerGroup,
+    controlRate,
+    variantRate,
+    absoluteLift,
+    absoluteLiftInterval,
+    relativeLift,
+    relativeLiftInterval: [
+      (1 + relativeLift) * Math.exp(-zCritical * logRatioError) - 1,
+      (1 + relativeLift) * Math.exp(zCritical * logRatioError) - 1,
+    ],
+    confidenceLevel: 1 - (twoSided ? intervalAlpha : 2 * intervalAlpha),
+    zScore,
+    pValue,
+    probabilityBeatsControl,
+    sampleReached,
+    tone,
+    badge: VERDICT_BADGES[result.bayesian ? "two-sided" : result.testType][tone],
+    verdict: `${verdict}${sampleText}`,
   };
 }
 
-function buildReadinessSummary(values: FormValues, result: Result): ReadinessSummary {
-  const significance = Number(values.significance);
-  const power = Number(values.power);
-  const expectedUplift = Number(values.minDetectableUplift);
-  const variantTraffic = Number(values.variantTraffic);
-
-  const checks: ReadinessCheck[] = [
-    {
-      label: "Run at least 7 days to cover weekday behavior",
-      passed: result.durationDays >= 7,
-    },
-    {
-      label: "Traffic split stays near balanced (40% to 60% for B)",
-      passed: variantTraffic >= 40 && variantTraffic <= 60,
-    },
-    {
-      label: "Confidence strictness is strong (10% or lower)",
-      passed: significance <= 10,
-    },
-    {
-      label: "Detection chance is solid (80% or higher)",
-      passed: power >= 80,
-    },
-    {
-      label: "Sample size per variant is robust (1,000+)",
-      passed: result.sampleSizePerGroup >= 1000,
-    },
-    {
-      label: "Expected lift target is realistic (30% or lower)",
-      passed: expectedUplift <= 30,
-    },
-  ];
-
-  const penalty = checks.reduce((sum, check) => sum + (check.passed ? 0 : 15), 0);
-  const score = Math.max(0, Math.min(100, 100 - penalty));
-  const level = score >= 85 ? "Ready" : score >= 65 ? "Needs Review" : "Risky";
+// Change against the first compared scenario, e.g. "+1,240 (+12.5%)".
+function formatCountDelta(value: number, base: number): string {
+  const diff = value - base;
+  if (diff === 0) {
+    return "same";
+  }
 
-  return { score, level, checks };
+  const sign = diff > 0 ? "+" : "-";
+  const percent = base > 0 ? ` (${sign}${Number(((Math.abs(diff) / base) * 100).toFixed(1))}%)` : "";
+  return `${sign}${formatNumber(Math.abs(diff))}${percent}`;
 }
 
-function buildExperimentBrief(
-  values: FormValues,
-  result: Result,
-  readiness: ReadinessSummary | null,
-  toggles: FeatureToggle[],
-): string {
-  const activeToggles = toggles.filter((toggle) => toggle.enabled);
-  const checks = readiness
-    ? readiness.checks
-        .map((check) => `- [${check.passed ? "x" : " "}] ${check.label}`)
-        .join("\n")
-    : "- No readiness checks available";
-
-  const activeToggleLines =
-    activeToggles.length > 0
-      ? activeToggles
-          .map((toggle) => `- ${toggle.name} (${toggle.rollout}% rollout)`)
-          .join("\n")
-      : "- None";
-
-  return [
-    "A/B TEST EXPERIMENT BRIEF",
-    `Generated: ${new Date().toLocaleString()}`,
-    "",
-    "Assumptions",
-    `- Current conversion rate: ${values.baselineRate}%`,
-    `- Expected improvement: ${values.minDetectableUplift}%`,
-    `- Confidence strictness: ${values.significance}%`,
-    `- Chance to detect real lift: ${values.power}%`,
-    `- Users per day: ${values.dailyVisitors}`,
-    `- Traffic to version B: ${values.variantTraffic}%`,
-    "",
-    "Estimated Results",
-    `- Sample size per variant: ${formatNumber(result.sampleSizePerGroup)} users`,
-    `- Total sample size: ${formatNumber(result.totalSampleSize)} users`,
-    `- Estimated duration: ${result.durationDays} day(s)`,
-    `- Expected conversion rate (B): ${formatRate(result.expectedVariantRate)}`,
-    "",
-    "Launch Readiness",
-    readiness ? `- Score: ${readiness.score}/100 (${readiness.level})` : "- Score: N/A",
-    checks,
-    "",
-    "Active Feature Toggles",
-    activeToggleLines,
-  ].join("\n");
+function formatPointDelta(value: number, base: number): string {
+  const diff = Number((value - base).toFixed(2));
+  return diff === 0 ? "same" : `${diff > 0 ? "+" : ""}${diff} pts`;
 }
 
 export default function Home() {
   const [isDarkMode, setIsDarkMode] = useState<boolean>(() => readThemeFromStorage());
-  const [values, setValues] = useState<FormValues>(() => readInitialValuesFromLocation());
-  const [errors, setErrors] = useState<Record<keyof FormValues, string>>({
-    baselineRate: "",
-    minDetectableUplift: "",
-    significance: "",
-    power: "",
-    dailyVisitors: "",
-    variantTraffic: "",
-  });
+  const [values, setValues] = useState<FormValues>(() => readInitialValues());
+  const [errors, setErrors] = useState<FormErrors>(EMPTY_ERRORS);
+  const [variantErrors, setVariantErrors] = useState<string[]>([]);
   const [globalError, setGlobalError] = useState("");
   const [shareStatus, setShareStatus] = useState("");
   const [briefStatus, setBriefStatus] = useState("");
+  const [briefFormat, setBriefFormat] = useState<BriefFormat>("text");
+  const [briefTemplates, setBriefTemplates] = useState<BriefTemplate[]>(() => readBriefTemplatesFromStorage());
+  const [briefTemplateId, setBriefTemplateId] = useState(STANDARD_BRIEF_TEMPLATE.id);
+  const [readinessConfig, setReadinessConfig] = useState<ReadinessConfig>(() => readReadinessConfig());
   const [toggles, setToggles] = useState<FeatureToggle[]>(() => readTogglesFromStorage());
-  const [scenarios, setScenarios] = useState<SavedScenario[]>(() => readScenariosFromStorage());
+  const [scenarios, setScenarios] = useState<StoredScenario[]>([]);
   const [scenarioName, setScenarioName] = useState("");
   const [scenarioStatus, setScenarioStatus] = useState("");
-  const [mdeDays, setMdeDays] = useState("14");
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [portfolio, setPortfolio] = useState<PortfolioPlan>(() => readPortfolioFromStorage());
+  const [portfolioStatus, setPortfolioStatus] = useState("");
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [workspaceStatus, setWorkspaceStatus] = useState("");
+  const [importReport, setImportReport] = useState<ImportReportEntry[] | null>(null);
+  const [mdeDays, setMdeDays] = useState(DEFAULT_MDE_DAYS);
   const [trackerValues, setTrackerValues] = useState<TrackerValues>(DEFAULT_TRACKER_VALUES);
   const [trackerError, setTrackerError] = useState("");
   const [newToggleName, setNewToggleName] = useState("");
   const [newToggleDescription, setNewToggleDescription] = useState("");
   const [toggleError, setToggleError] = useState("");
-  const [result, setResult] = useState<Result | null>(() =>
-    calculateResult(parseValues(readInitialValuesFromLocation())),
-  );
-
+  const [flagFormat, setFlagFormat] = useState<FlagFormat>("flagd");
+  const [flagImportMode, setFlagImportMode] = useState<ImportMode>("merge");
+  const [flagStatus, setFlagStatus] = useState("");
+  const [flagReport, setFlagReport] = useState<ImportReportEntry[] | null>(null);
+  const [bucketingToggleId, setBucketingToggleId] = useState("");
+  const [bucketingScheme, setBucketingScheme] = useState<BucketingScheme>("murmur3");
+  const [bucketingSalt, setBucketingSalt] = useState("");
+  const [bucketingSource, setBucketingSource] = useState<"generate" | "paste">("generate");
+  const [generatedUserCount, setGeneratedUserCount] = useState("10000");
+  const [pastedUserIds, setPastedUserIds] = useState("");
+  const [bucketingError, setBucketingError] = useState("");
+  const [bucketingRun, setBucketingRun] = useState<{
+    toggle: FeatureToggle;
+    salt: string;
+    scheme: BucketingScheme;
+    simulation: BucketingSimulation;
+  } | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const simulationIdRef = useRef(0);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const briefTemplate = briefTemplates.find((template) => template.id === briefTemplateId) ?? STANDARD_BRIEF_TEMPLATE;
+  const unknownPlaceholders = useMemo(() => findUnknownPlaceholders(briefTemplate.body), [briefTemplate.body]);
+
+  // Margin tests are sized from the margin, so the expected improvements are not used.
+  const marginTest = values.framework === "frequentist" && isMarginTest(values.testType);
   const hasErrors = useMemo(() => {
-    return Object.values(errors).some(Boolean) || Boolean(globalError);
-  }, [errors, globalError]);
-  const readiness = useMemo(() => {
-    return result ? buildReadinessSummary(values, result) : null;
-  }, [result, values]);
+    return Object.values(errors).some(Boolean) || variantErrors.some(Boolean) || Boolean(globalError);
+  }, [errors, variantErrors, globalError]);
+  const planCurves = useMemo(() => {
+    return result ? buildPlanCurves(validateLinkedPlan(values, toggles).parsed, result) : null;
+  }, [result, values, toggles]);
+  const comparison = useMemo(() => {
+    const compared = comparedIds
+      .map((id) => scenarios.find((scenario) => scenario.id === id))
+      .filter((scenario): scenario is StoredScenario => scenario !== undefined)
+      .map((scenario) => ({ ...scenario, values: syncLinkedToggle(scenario.values, toggles) }));
+    return compared.length >= 2 ? buildScenarioComparison(compared, Number(mdeDays), readinessConfig) : null;
+  }, [comparedIds, scenarios, toggles, mdeDays, readinessConfig]);
+  const portfolioErrors = useMemo(() => validatePortfolio(portfolio), [portfolio]);
+  const portfolioSchedule = useMemo(
+    () => schedulePortfolio(portfolio, scenarios, toggles),
+    [portfolio, scenarios, toggles],
+  );
+  const comparisonMetrics: {
+    label: string;
+    read: (plan: NonNullable<ScenarioComparison["columns"][number]["plan"]>) => number | null;
+    format: (value: number) => string;
+    delta: (value: number, base: number) => string;
+  }[] = [
+    {
+      label: "Sample size per variant",
+      read: (plan) => plan.result.sampleSizePerGroup,
+      format: formatNumber,
+      delta: formatCountDelta,
+    },
+    {
+      label: "Total sample size",
+      read: (plan) => plan.result.totalSampleSize,
+      format: formatNumber,
+      delta: formatCountDelta,
+    },
+    {
+      label: "Duration",
+      read: (plan) => plan.result.durationDays,
+      format: (days) => `${formatNumber(days)} day(s)`,
+      delta: formatCountDelta,
+    },
+    {
+      label: "Readiness score",
+      read: (plan) => plan.readiness.score,
+      format: (score) => `${score}/100`,
+      delta: formatPointDelta,
+    },
+    {
+      label: `Detectable uplift or provable margin in ${mdeDays} day(s)`,
+      read: (plan) => (plan.mde.status === "ok" ? (plan.mde.mdePercent ?? null) : null),
+      format: (uplift) => `${uplift}%+`,
+      delta: formatPointDelta,
+    },
+  ];
   const mdeEstimate = (() => {
-    const { nextErrors, nextGlobalError, parsed } = validate(values);
-    const hasInputErrors = Object.values(nextErrors).some(Boolean) || Boolean(nextGlobalError);
+    const { nextErrors, nextVariantErrors, nextGlobalError, parsed } = validateLinkedPlan(values, toggles);
+    const hasInputErrors =
+      Object.values(nextErrors).some(Boolean) || nextVariantErrors.some(Boolean) || Boolean(nextGlobalError);
 
     if (hasInputErrors) {
       return {
@@ -560,17 +726,59 @@ export default function Home() {
     const controlRemaining = Math.max(0, required - controlUsers);
     const variantRemaining = Math.max(0, required - variantUsers);
 
-    const dailyVisitors = Number(values.dailyVisitors);
-    const variantTrafficShare = Number(values.variantTraffic) / 100;
-    const controlDaily = dailyVisitors * (1 - variantTrafficShare);
-    const variantDaily = dailyVisitors * variantTrafficShare;
+    // Collection is assumed to have followed the plan so far, ramp and weekday pattern included, so
+    // each arm's position on the calendar is the day its planned users reach what it has collected.
+    const parsed = validateLinkedPlan(values, toggles).parsed;
+    const daysLeftFor = (collected: number, share: number) =>
+      share > 0
+        ? daysToCollect(parsed, required, share) - daysToCollect(parsed, collected, share)
+        : Number.POSITIVE_INFINITY;
+    const longestDaysLeft = Math.max(
+      daysLeftFor(controlUsers, result.controlShare),
+      daysLeftFor(variantUsers, parsed.variantTraffic),
+    );
+    const estimatedDaysLeft = Number.isFinite(longestDaysLeft) ? Math.max(0, longestDaysLeft) : null;
+    const isReady = controlRemaining <= 0 && variantRemaining <= 0;
 
-    const controlDaysLeft = controlDaily > 0 ? controlRemaining / controlDaily : Number.POSITIVE_INFINITY;
-    const variantDaysLeft = variantDaily > 0 ? variantRemaining / variantDaily : Number.POSITIVE_INFINITY;
-    const estimatedDaysLeft = Number.isFinite(Math.max(controlDaysLeft, variantDaysLeft))
-      ? Math.ceil(Math.max(controlDaysLeft, variantDaysLeft))
+    // Interim looks are triggered by the arm with the fewest users reaching the look's sample.
+    const collectedPerArm = Math.min(controlUsers, variantUsers);
+    const looks = result.sequential?.looks ?? [];
+    const reachedLooks = looks.filter((look) => collectedPerArm >= look.samplePerGroup).length;
+    const sequentialStatus = result.sequential
+      ? {
+          informationFraction: Math.min(1, collectedPerArm / required),
+          currentLook: reachedLooks > 0 ? looks[reachedLooks - 1] : null,
+          nextLook: looks[reachedLooks] ?? null,
+          totalLooks: looks.length,
+        }
       : null;
-    const isReady = controlRemaining <= 0 && variantRemaining <= 0;
+
+    const controlConversions = Number(trackerValues.controlConversions);
+    const variantConversions = Number(trackerValues.variantConversions);
+    const decisionAlpha = result.sequential
+      ? (sequentialStatus?.currentLook?.nominalAlpha ?? null)
+      : result.arms[0].adjustedAlpha;
+    let analysis: ObservedAnalysis | null = null;
+    let analysisError = "";
+    if (result.metricType === "continuous") {
+      analysisError = "Result analysis reads conversion counts and is available for conversion-rate plans.";
+    } else if (controlConversions > controlUsers || variantConversions > variantUsers) {
+      analysisError = "Conversions cannot exceed the users collected in the same version.";
+    } else if (
+      Number.isFinite(controlConversions) &&
+      Number.isFinite(variantConversions) &&
+      controlConversions >= 0 &&
+      variantConversions >= 0
+    ) {
+      analysis = analyzeObservedResult(
+        { controlUsers, controlConversions, variantUsers, variantConversions },
+        result,
+        decisionAlpha,
+        isReady,
+      );
+    }
+
+    const srm = checkSampleRatio(controlUsers, variantUsers, result);
 
     return {
       required,
@@ -582,15 +790,43 @@ export default function Home() {
       variantRemaining,
       estimatedDaysLeft,
       isReady,
+      sequentialStatus,
+      analysis,
+      analysisError,
+      srm,
+    };
+  }, [result, trackerValues, values, toggles]);
+  const toggleLink = useMemo(() => summarizeToggleLink(values, toggles, scenarios), [values, toggles, scenarios]);
+  const readiness = useMemo(() => {
+    if (!result) {
+      return null;
+    }
+
+    return buildReadinessSummary(values, result, readinessConfig, {
+      srm: trackerSummary?.srm ?? null,
+      contamination: toggleLink ? toggleLink.contaminatedShare : null,
+    });
+  }, [result, values, readinessConfig, trackerSummary, toggleLink]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
     };
-  }, [result, trackerValues, values.dailyVisitors, values.variantTraffic]);
+  }, []);
+
+  // The first plan is calculated after mount, the same way as on submit: share-link inputs are
+  // validated first, and a Bayesian plan simulates in the worker instead of blocking the first render.
+  const calculateInitialPlan = useEffectEvent(() => runCalculation(values));
+  useEffect(() => {
+    calculateInitialPlan();
+  }, []);
 
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
     }
 
-    window.localStorage.setItem(TOGGLES_STORAGE_KEY, JSON.stringify(toggles));
+    window.localStorage.setItem(TOGGLES_STORAGE_KEY, JSON.stringify({ version: WORKSPACE_VERSION, toggles }));
   }, [toggles]);
 
   useEffect(() => {
@@ -598,153 +834,417 @@ export default function Home() {
       return;
     }
 
-    window.localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
-  }, [scenarios]);
+    window.localStorage.setItem(
+      TEMPLATES_STORAGE_KEY,
+      JSON.stringify({ version: WORKSPACE_VERSION, templates: briefTemplates }),
+    );
+  }, [briefTemplates]);
 
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
     }
 
-    document.documentElement.classList.toggle("dark", isDarkMode);
-    window.localStorage.setItem(THEME_STORAGE_KEY, isDarkMode ? "dark" : "light");
-  }, [isDarkMode]);
-
-  function validate(nextValues: FormValues) {
-    const nextErrors: Record<keyof FormValues, string> = {
-      baselineRate: "",
-      minDetectableUplift: "",
-      significance: "",
-      power: "",
-      dailyVisitors: "",
-      variantTraffic: "",
-    };
-
-    const baselineRate = Number(nextValues.baselineRate);
-    const uplift = Number(nextValues.minDetectableUplift);
-    const significance = Number(nextValues.significance);
-    const power = Number(nextValues.power);
-    const dailyVisitors = Number(nextValues.dailyVisitors);
-    const variantTraffic = Number(nextValues.variantTraffic);
-
-    if (!Number.isFinite(baselineRate) || baselineRate <= 0 || baselineRate >= 100) {
-      nextErrors.baselineRate = "Enter a value between 0 and 100 (exclusive).";
-    }
+    window.localStorage.setItem(
+      READINESS_STORAGE_KEY,
+      JSON.stringify({ version: WORKSPACE_VERSION, readiness: readinessConfig }),
+    );
+  }, [readinessConfig]);
 
-    if (!Number.isFinite(uplift) || uplift <= 0 || uplift > 500) {
-      nextErrors.minDetectableUplift = "Enter uplift between 0 and 500%.";
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
     }
 
-    if (!Number.isFinite(significance) || significance <= 0 || significance >= 50) {
-      nextErrors.significance = "Enter significance between 0 and 50 (exclusive).";
-    }
+    window.localStorage.setItem(PORTFOLIO_STORAGE_KEY, JSON.stringify(portfolio));
+  }, [portfolio]);
 
-    if (!Number.isFinite(power) || power <= 50 || power >= 99.9) {
-      nextErrors.power = "Enter power between 50 and 99.9 (exclusive).";
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadScenarioLibrary() {
+      try {
+        const localScenarios = readScenariosFromStorage();
+        if (localScenarios.length > 0) {
+          const migration = await fetch("/api/scenarios/import", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ scenarios: localScenarios, mode: "merge" }),
+          });
+          if (!migration.ok) {
+            throw new Error("Scenario migration failed.");
+          }
+          window.localStorage.removeItem(SCENARIOS_STORAGE_KEY);
+        }
+
+        const response = await fetch("/api/scenarios");
+        if (!response.ok) {
+          throw new Error("Scenario library unavailable.");
+        }
+        const data: { scenarios: StoredScenario[] } = await response.json();
+        if (cancelled) {
+          return;
+        }
+
+        setScenarios(data.scenarios);
+        if (localScenarios.length > 0) {
+          setScenarioStatus(`Moved ${localScenarios.length} scenario(s) from this browser to the shared library.`);
+        }
+      } catch {
+        if (!cancelled) {
+          setScenarioStatus("Could not reach the scenario library. Saved scenarios are unavailable.");
+        }
+      }
     }
 
-    if (!Number.isFinite(dailyVisitors) || dailyVisitors < 1 || !Number.isInteger(dailyVisitors)) {
-      nextErrors.dailyVisitors = "Enter an integer >= 1.";
-    }
+    void loadScenarioLibrary();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-    if (!Number.isFinite(variantTraffic) || variantTraffic <= 0 || variantTraffic >= 100) {
-      nextErrors.variantTraffic = "Enter a value between 0 and 100 (exclusive).";
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
     }
 
-    const expectedVariantRate = (baselineRate / 100) * (1 + uplift / 100);
-    const nextGlobalError =
-      Number.isFinite(expectedVariantRate) && expectedVariantRate >= 1
-        ? "Expected variant conversion rate reaches or exceeds 100%. Lower baseline or uplift."
-        : "";
-
-    return {
-      nextErrors,
-      nextGlobalError,
-      parsed: {
-        baselineRate: baselineRate / 100,
-        uplift: uplift / 100,
-        significance: significance / 100,
-        power: power / 100,
-        dailyVisitors,
-        variantTraffic: variantTraffic / 100,
-      },
-    };
-  }
+    document.documentElement.classList.toggle("dark", isDarkMode);
+    window.localStorage.setItem(THEME_STORAGE_KEY, isDarkMode ? "dark" : "light");
+  }, [isDarkMode]);
 
-  function runCalculation(nextValues: FormValues) {
-    const { nextErrors, nextGlobalError, parsed } = validate(nextValues);
+  function runCalculation(nextValues: FormValues, currentToggles = toggles) {
+    const { nextErrors, nextVariantErrors, nextGlobalError, parsed } = validateLinkedPlan(nextValues, currentToggles);
     setErrors(nextErrors);
+    setVariantErrors(nextVariantErrors);
     setGlobalError(nextGlobalError);
 
-    const hasFieldErrors = Object.values(nextErrors).some(Boolean);
+    // Any newer calculation supersedes a simulation that is still running.
+    simulationIdRef.current += 1;
+    setIsSimulating(false);
+
+    const hasFieldErrors = Object.values(nextErrors).some(Boolean) || nextVariantErrors.some(Boolean);
     if (hasFieldErrors || nextGlobalError) {
       setResult(null);
       return;
     }
 
+    if (parsed.framework === "bayesian" && typeof Worker !== "undefined") {
+      startBayesianSimulation(parsed);
+      return;
+    }
+
     setResult(calculateResult(parsed));
   }
 
+  function startBayesianSimulation(parsed: ParsedValues) {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL("../lib/bayesian.worker.ts", import.meta.url));
+    }
+
+    const id = simulationIdRef.current;
+    workerRef.current.onmessage = (event: MessageEvent<BayesianWorkerResponse>) => {
+      if (event.data.id !== simulationIdRef.current) {
+        return;
+      }
+
+      setIsSimulating(false);
+      setResult(calculateResult(parsed, event.data.outcome));
+    };
+    // A worker that fails to load or crashes (out of memory on a very large search) never answers, so
+    // the result panel would wait forever. It is dropped, and the next calculation starts a new one.
+    workerRef.current.onerror = (event) => {
+      event.preventDefault();
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      if (id !== simulationIdRef.current) {
+        return;
+      }
+
+      setIsSimulating(false);
+      setResult(null);
+      setGlobalError("The Bayesian simulation stopped before it finished. Please calculate again.");
+    };
+
+    const message: BayesianWorkerRequest = { id, request: bayesianRequestFor(parsed) };
+    workerRef.current.postMessage(message);
+    setIsSimulating(true);
+  }
+
   function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     runCalculation(values);
   }
 
-  function updateValue<K extends keyof FormValues>(key: K, value: string) {
-    const nextValues = { ...values, [key]: value };
-    setValues(nextValues);
+  function updateValue<K extends keyof FormValues>(key: K, value: FormValues[K]) {
+    applyValues({ ...values, [key]: value });
+  }
+
+  function applyValues(nextValues: FormValues, currentToggles = toggles) {
+    const linkedValues = syncLinkedToggle(nextValues, currentToggles);
+    setValues(linkedValues);
     setShareStatus("");
     setBriefStatus("");
 
-    if (result || hasErrors) {
-      runCalculation(nextValues);
+    if (result || hasErrors || isSimulating) {
+      runCalculation(linkedValues, currentToggles);
     }
   }
 
-  async function handleShareLink() {
-    const query = valuesToQueryString(values);
-    const pathWithQuery = `${window.location.pathname}?${query}`;
-    window.history.replaceState(null, "", pathWithQuery);
-
-    try {
-      const fullUrl = `${window.location.origin}${pathWithQuery}`;
-      await navigator.clipboard.writeText(fullUrl);
-      setShareStatus("Share link copied.");
-    } catch {
-      setShareStatus("Share link added to URL bar.");
+  function addVariant() {
+    if (values.extraVariants.length >= MAX_VARIANTS - 1) {
+      return;
     }
-  }
 
-  function handleResetDefaults() {
-    const resetValues = { ...DEFAULT_VALUES };
-    setValues(resetValues);
-    setShareStatus("");
-    setBriefStatus("");
-    setScenarioStatus("");
-    setTrackerValues(DEFAULT_TRACKER_VALUES);
-    setTrackerError("");
-    runCalculation(resetValues);
-    window.history.replaceState(null, "", window.location.pathname);
+    // Re-split traffic evenly so the new arm does not push the total past 100%.
+    const armCount = values.extraVariants.length + 3;
+    const evenShare = String(Math.floor(100 / armCount));
+    applyValues({
+      ...values,
+      variantTraffic: evenShare,
+      extraVariants: [
+        ...values.extraVariants.map((arm) => ({ ...arm, traffic: evenShare })),
+        { traffic: evenShare, uplift: values.minDetectableUplift },
+      ],
+    });
   }
 
-  async function handleCopyBrief() {
-    if (!result) {
+  function addRampStep() {
+    if (values.rampSteps.length >= MAX_RAMP_STEPS) {
       return;
     }
 
-    const brief = buildExperimentBrief(values, result, readiness, toggles);
-    try {
-      await navigator.clipboard.writeText(brief);
-      setBriefStatus("Experiment brief copied.");
-    } catch {
-      setBriefStatus("Copy failed. Please try again.");
-    }
+    updateValue("rampSteps", [
+      ...values.rampSteps,
+      { days: "2", exposure: SUGGESTED_RAMP_EXPOSURES[values.rampSteps.length] ?? "50" },
+    ]);
   }
 
-  function addToggle(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    const name = newToggleName.trim();
-    if (!name) {
+  function updateRampStep(index: number, key: keyof RampStep, value: string) {
+    updateValue(
+      "rampSteps",
+      values.rampSteps.map((step, stepIndex) => (stepIndex === index ? { ...step, [key]: value } : step)),
+    );
+  }
+
+  function removeRampStep(index: number) {
+    updateValue(
+      "rampSteps",
+      values.rampSteps.filter((_, stepIndex) => stepIndex !== index),
+    );
+  }
+
+  // The first step starts the funnel from the users per day typed in so far.
+  function addFunnelStep() {
+    if (values.funnelSteps.length >= MAX_FUNNEL_STEPS) {
+      return;
+    }
+
+    applyValues({
+      ...values,
+      funnelTraffic: values.funnelTraffic.trim() || values.dailyVisitors,
+      funnelSteps: [
+        ...values.funnelSteps,
+        SUGGESTED_FUNNEL_STEPS[values.funnelSteps.length] ?? {
+          name: `Step ${values.funnelSteps.length + 1}`,
+          share: "100",
+        },
+      ],
+    });
+  }
+
+  function updateFunnelStep(index: number, key: keyof FunnelStep, value: string) {
+    updateValue(
+      "funnelSteps",
+      values.funnelSteps.map((step, stepIndex) => (stepIndex === index ? { ...step, [key]: value } : step)),
+    );
+  }
+
+  function removeFunnelStep(index: number) {
+    updateValue(
+      "funnelSteps",
+      values.funnelSteps.filter((_, stepIndex) => stepIndex !== index),
+    );
+  }
+
+  function addGuardrail() {
+    if (values.guardrails.length >= MAX_GUARDRAILS) {
+      return;
+    }
+
+    updateValue("guardrails", [
+      ...values.guardrails,
+      SUGGESTED_GUARDRAILS[values.guardrails.length] ?? {
+        name: `Guardrail ${values.guardrails.length + 1}`,
+        metricType: "conversion",
+        betterWhen: "higher",
+        baseline: "",
+        standardDeviation: "",
+        margin: "5",
+      },
+    ]);
+  }
+
+  function updateGuardrail<K extends keyof Guardrail>(index: number, key: K, value: Guardrail[K]) {
+    updateValue(
+      "guardrails",
+      values.guardrails.map((guardrail, guardrailIndex) =>
+        guardrailIndex === index ? { ...guardrail, [key]: value } : guardrail,
+      ),
+    );
+  }
+
+  function removeGuardrail(index: number) {
+    updateValue(
+      "guardrails",
+      values.guardrails.filter((_, guardrailIndex) => guardrailIndex !== index),
+    );
+  }
+
+  function updateWeeklyProfile(index: number, value: string) {
+    updateValue(
+      "weeklyProfile",
+      values.weeklyProfile.map((weight, dayIndex) => (dayIndex === index ? value : weight)),
+    );
+  }
+
+  function updateVariant(index: number, key: keyof VariantArm, value: string) {
+    updateValue(
+      "extraVariants",
+      values.extraVariants.map((arm, armIndex) => (armIndex === index ? { ...arm, [key]: value } : arm)),
+    );
+  }
+
+  function removeVariant(index: number) {
+    updateValue(
+      "extraVariants",
+      values.extraVariants.filter((_, armIndex) => armIndex !== index),
+    );
+  }
+
+  async function handleShareLink() {
+    const query = [valuesToQueryString(values), readinessConfigToQuery(readinessConfig)].filter(Boolean).join("&");
+    const pathWithQuery = `${window.location.pathname}?${query}`;
+    window.history.replaceState(null, "", pathWithQuery);
+
+    try {
+      const fullUrl = `${window.location.origin}${pathWithQuery}`;
+      await navigator.clipboard.writeText(fullUrl);
+      setShareStatus("Share link copied.");
+    } catch {
+      setShareStatus("Share link added to URL bar.");
+    }
+  }
+
+  function handleResetDefaults() {
+    const resetValues = { ...DEFAULT_VALUES };
+    setValues(resetValues);
+    setShareStatus("");
+    setBriefStatus("");
+    setScenarioStatus("");
+    setTrackerValues(DEFAULT_TRACKER_VALUES);
+    setTrackerError("");
+    runCalculation(resetValues);
+    window.history.replaceState(null, "", window.location.pathname);
+  }
+
+  function currentBriefContext(): BriefContext | null {
+    if (!result || !readiness) {
+      return null;
+    }
+
+    return { values, result, readiness, toggles, srm: trackerSummary?.srm ?? null, generatedAt: new Date() };
+  }
+
+  async function handleCopyBrief() {
+    const context = currentBriefContext();
+    if (!context || briefFormat === "pdf") {
+      return;
+    }
+
+    const brief = renderBrief(briefTemplate.body, context, briefFormat);
+    try {
+      await navigator.clipboard.writeText(brief);
+      setBriefStatus(`Experiment brief copied as ${BRIEF_FORMAT_LABELS[briefFormat]}.`);
+    } catch {
+      setBriefStatus("Copy failed. Please try again.");
+    }
+  }
+
+  function handleDownloadBrief() {
+    const context = currentBriefContext();
+    if (!context) {
+      return;
+    }
+
+    const { extension, mimeType } = BRIEF_FILE_TYPES[briefFormat];
+    const content =
+      briefFormat === "pdf"
+        ? renderBriefPdf(briefTemplate.body, context)
+        : renderBrief(briefTemplate.body, context, briefFormat);
+    downloadFile(content, mimeType, `experiment-brief-${context.generatedAt.toISOString().slice(0, 10)}.${extension}`);
+    setBriefStatus(`Experiment brief downloaded as ${BRIEF_FORMAT_LABELS[briefFormat]}.`);
+  }
+
+  // New templates start as a copy of the selected one, which is the standard layout by default.
+  function addBriefTemplate() {
+    const template: BriefTemplate = {
+      id: `template-${Date.now()}`,
+      name: `${briefTemplate.name} (copy)`,
+      body: briefTemplate.body,
+    };
+    setBriefTemplates((current) => [...current, template]);
+    setBriefTemplateId(template.id);
+  }
+
+  function updateBriefTemplate(key: "name" | "body", value: string) {
+    setBriefTemplates((current) =>
+      current.map((template) => (template.id === briefTemplateId ? { ...template, [key]: value } : template)),
+    );
+  }
+
+  function removeBriefTemplate(id: string) {
+    setBriefTemplates((current) => current.filter((template) => template.id !== id));
+    setBriefTemplateId(STANDARD_BRIEF_TEMPLATE.id);
+  }
+
+  function updateReadinessRule<K extends keyof ReadinessRule>(id: string, key: K, value: ReadinessRule[K]) {
+    setReadinessConfig((current) => ({
+      ...current,
+      rules: current.rules.map((rule) => (rule.id === id ? { ...rule, [key]: value } : rule)),
+    }));
+  }
+
+  function addReadinessRule() {
+    if (readinessConfig.rules.length >= MAX_READINESS_RULES) {
+      return;
+    }
+
+    setReadinessConfig((current) => ({
+      ...current,
+      rules: [
+        ...current.rules,
+        {
+          id: `rule-${Date.now()}`,
+          label: "",
+          metric: "duration",
+          comparator: "atLeast",
+          threshold: "14",
+          upperThreshold: "",
+          weight: "15",
+          severity: "minor",
+        },
+      ],
+    }));
+  }
+
+  function removeReadinessRule(id: string) {
+    setReadinessConfig((current) => ({ ...current, rules: current.rules.filter((rule) => rule.id !== id) }));
+  }
+
+  function addToggle(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const name = newToggleName.trim();
+    if (!name) {
       setToggleError("Toggle name is required.");
       return;
     }
@@ -764,42 +1264,355 @@ export default function Home() {
     setToggleError("");
   }
 
+  // Changing the linked toggle's rollout moves B's traffic with it, and any toggle change can move the
+  // clean traffic a linked plan is sized on.
+  function replaceToggles(nextToggles: FeatureToggle[], nextValues = values) {
+    setToggles(nextToggles);
+    if (nextValues !== values || nextValues.linkedToggle) {
+      applyValues(nextValues, nextToggles);
+    }
+  }
+
   function updateToggle<K extends keyof FeatureToggle>(id: string, key: K, value: FeatureToggle[K]) {
-    setToggles((current) => current.map((toggle) => (toggle.id === id ? { ...toggle, [key]: value } : toggle)));
+    replaceToggles(toggles.map((toggle) => (toggle.id === id ? { ...toggle, [key]: value } : toggle)));
   }
 
+  // Removing the linked toggle unlinks the plan, and B's traffic can be edited again.
   function removeToggle(id: string) {
-    setToggles((current) => current.filter((toggle) => toggle.id !== id));
+    replaceToggles(
+      toggles.filter((toggle) => toggle.id !== id),
+      values.linkedToggle === id ? { ...values, linkedToggle: "" } : values,
+    );
+  }
+
+  function exportFlagFile() {
+    downloadFile(exportFlags(toggles, flagFormat), "application/json", FLAG_FILE_NAMES[flagFormat]);
+    setFlagReport(null);
+    const rounded = describeRoundedRollouts(toggles, flagFormat);
+    setFlagStatus(
+      `Exported ${toggles.length} toggle(s) as ${FLAG_FORMAT_LABELS[flagFormat]}.${
+        rounded.length > 0 ? ` Unleash rollouts are whole percentages, so these were rounded: ${rounded.join("; ")}.` : ""
+      }`,
+    );
+  }
+
+  async function importFlagFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const imported = parseFlagFile(await file.text(), flagFormat);
+    if ("error" in imported) {
+      setFlagReport(null);
+      setFlagStatus(imported.error);
+      return;
+    }
+
+    if (
+      flagImportMode === "replace" &&
+      !window.confirm("Replace your feature toggles with the flags in this file? Toggles that are not in it are removed.")
+    ) {
+      return;
+    }
+
+    const next = reconcileItems(toggles, imported.items, flagImportMode, {
+      kind: "toggle",
+      key: (toggle) => toggle.id,
+      label: (toggle) => toggle.name,
+    });
+    const report = [...imported.report, ...next.report];
+    replaceToggles(next.items);
+    setFlagReport(report);
+    setFlagStatus(`Imported ${file.name}: ${summarizeImportReport(report)}.`);
   }
 
-  function saveScenario() {
+  // Runs on demand rather than on every keystroke: hashing tens of thousands of IDs per toggle takes a moment.
+  function runBucketingSimulation() {
+    const toggle = toggles.find((item) => item.id === bucketingToggleId) ?? toggles[0];
+    if (!toggle) {
+      setBucketingError("Add a toggle to simulate first.");
+      return;
+    }
+
+    const count = Number(generatedUserCount);
+    if (bucketingSource === "generate" && (!Number.isInteger(count) || count < 1 || count > MAX_SIMULATED_USERS)) {
+      setBucketingError(`Generate between 1 and ${formatNumber(MAX_SIMULATED_USERS)} user IDs.`);
+      return;
+    }
+
+    const userIds = bucketingSource === "generate" ? generateUserIds(count) : parseUserIds(pastedUserIds);
+    if (userIds.length === 0) {
+      setBucketingError("Paste at least one user ID.");
+      return;
+    }
+
+    const salt = bucketingSalt.trim() || toggle.id;
+    setBucketingError("");
+    setBucketingRun({
+      toggle,
+      salt,
+      scheme: bucketingScheme,
+      simulation: simulateBucketing(toggle, toggles, bucketingScheme, salt, userIds),
+    });
+  }
+
+  async function saveScenario() {
     const name = scenarioName.trim();
     if (!name) {
       setScenarioStatus("Scenario name is required.");
       return;
     }
 
-    const item: SavedScenario = {
-      id: `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${Date.now()}`,
-      name,
-      values: { ...values },
-      createdAt: new Date().toISOString(),
-    };
-
-    setScenarios((current) => [item, ...current].slice(0, 12));
-    setScenarioName("");
-    setScenarioStatus("Scenario saved.");
+    try {
+      const response = await fetch("/api/scenarios", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, values }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setScenarioStatus(data.message ?? "Saving failed. Please try again.");
+        return;
+      }
+
+      setScenarios((current) => [data.scenario, ...current]);
+      setScenarioName("");
+      setScenarioStatus("Scenario saved.");
+    } catch {
+      setScenarioStatus("Saving failed. Please try again.");
+    }
   }
 
-  function loadScenario(scenario: SavedScenario) {
-    setValues(scenario.values);
-    runCalculation(scenario.values);
+  // A linked scenario takes its traffic from the toggle as it is now, not as it was when it was saved.
+  function loadScenario(scenario: StoredScenario) {
+    const linkedValues = syncLinkedToggle(scenario.values, toggles);
+    setValues(linkedValues);
+    setShareStatus("");
+    setBriefStatus("");
+    runCalculation(linkedValues);
     setScenarioStatus(`Loaded "${scenario.name}".`);
   }
 
-  function deleteScenario(id: string) {
-    setScenarios((current) => current.filter((scenario) => scenario.id !== id));
-    setScenarioStatus("Scenario removed.");
+  async function overwriteScenario(scenario: StoredScenario) {
+    try {
+      const response = await fetch(`/api/scenarios/${scenario.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setScenarioStatus(data.message ?? "Update failed. Please try again.");
+        return;
+      }
+
+      setScenarios((current) => current.map((item) => (item.id === scenario.id ? data.scenario : item)));
+      setScenarioStatus(`Updated "${scenario.name}" with the current inputs.`);
+    } catch {
+      setScenarioStatus("Update failed. Please try again.");
+    }
+  }
+
+  async function copyScenarioLink(scenario: StoredScenario) {
+    const link = `${window.location.origin}/s/${scenario.id}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setScenarioStatus(`Link to "${scenario.name}" copied.`);
+    } catch {
+      setScenarioStatus(`Copy failed. The link is ${link}`);
+    }
+  }
+
+  function toggleComparedScenario(id: string) {
+    if (comparedIds.includes(id)) {
+      setComparedIds(comparedIds.filter((comparedId) => comparedId !== id));
+      return;
+    }
+
+    if (comparedIds.length >= MAX_COMPARED_SCENARIOS) {
+      setScenarioStatus(`Compare up to ${MAX_COMPARED_SCENARIOS} scenarios at a time.`);
+      return;
+    }
+    setComparedIds([...comparedIds, id]);
+  }
+
+  function togglePortfolioScenario(id: string) {
+    const booked = portfolio.tests.some((test) => test.scenarioId === id);
+    setPortfolio({
+      ...portfolio,
+      tests: booked
+        ? portfolio.tests.filter((test) => test.scenarioId !== id)
+        : [...portfolio.tests, { scenarioId: id, share: "20", startDate: "" }],
+    });
+    setPortfolioStatus("");
+  }
+
+  function updatePortfolioTest(id: string, key: Exclude<keyof PortfolioTest, "scenarioId">, value: string) {
+    setPortfolio({
+      ...portfolio,
+      tests: portfolio.tests.map((test) => (test.scenarioId === id ? { ...test, [key]: value } : test)),
+    });
+    setPortfolioStatus("");
+  }
+
+  function suggestPortfolioPacking() {
+    const suggested = suggestPortfolio(portfolio, scenarios, toggles);
+    if (!suggested) {
+      setPortfolioStatus(
+        portfolioErrors
+          ? "Fix the portfolio inputs first."
+          : `These tests cannot all finish within ${MAX_PORTFOLIO_DAYS} days on this pool.`,
+      );
+      return;
+    }
+
+    const next = { ...portfolio, tests: suggested };
+    setPortfolio(next);
+    const schedule = schedulePortfolio(next, scenarios, toggles);
+    setPortfolioStatus(schedule ? `Suggested packing finishes on ${formatIsoDate(schedule.finishDate)}.` : "");
+  }
+
+  async function deleteScenario(id: string) {
+    try {
+      const response = await fetch(`/api/scenarios/${id}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        setScenarioStatus("Removing failed. Please try again.");
+        return;
+      }
+
+      setScenarios((current) => current.filter((scenario) => scenario.id !== id));
+      setComparedIds((current) => current.filter((comparedId) => comparedId !== id));
+      setScenarioStatus("Scenario removed.");
+    } catch {
+      setScenarioStatus("Removing failed. Please try again.");
+    }
+  }
+
+  function exportWorkspace() {
+    const workspace = buildWorkspaceDocument({
+      scenarios,
+      toggles,
+      templates: briefTemplates,
+      readiness: readinessConfig,
+      tracker: trackerValues,
+      theme: isDarkMode ? "dark" : "light",
+    });
+    downloadFile(
+      JSON.stringify(workspace, null, 2),
+      "application/json",
+      `ab-test-planner-workspace-${workspace.exportedAt.slice(0, 10)}.json`,
+    );
+    setImportReport(null);
+    setWorkspaceStatus(
+      `Exported ${scenarios.length} scenario(s), ${toggles.length} toggle(s), ${briefTemplates.length} brief template(s) ` +
+        `and ${readinessConfig.rules.length} readiness rule(s).`,
+    );
+  }
+
+  async function importWorkspace(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const imported = parseWorkspaceFile(await file.text());
+    if ("error" in imported) {
+      setImportReport(null);
+      setWorkspaceStatus(imported.error);
+      return;
+    }
+
+    if (
+      importMode === "replace" &&
+      !window.confirm(
+        "Replace the shared scenario library, your toggles, brief templates, readiness rules, tracker counts and theme with this file? Scenarios that are not in the file are deleted for everyone.",
+      )
+    ) {
+      return;
+    }
+
+    const report = [...imported.report];
+    if (imported.scenarios) {
+      try {
+        const response = await fetch("/api/scenarios/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ scenarios: imported.scenarios, mode: importMode }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setWorkspaceStatus(data.message ?? "Import failed. Nothing was changed.");
+          return;
+        }
+
+        const nextScenarios: StoredScenario[] = data.scenarios;
+        setScenarios(nextScenarios);
+        setComparedIds((current) => current.filter((id) => nextScenarios.some((scenario) => scenario.id === id)));
+        report.push(...data.report);
+      } catch {
+        setWorkspaceStatus("Could not reach the scenario library. Nothing was changed.");
+        return;
+      }
+    }
+
+    if (imported.toggles) {
+      const next = reconcileItems(toggles, imported.toggles, importMode, {
+        kind: "toggle",
+        key: (toggle) => toggle.id,
+        label: (toggle) => toggle.name,
+      });
+      replaceToggles(next.items);
+      report.push(...next.report);
+    }
+
+    if (imported.templates) {
+      const next = reconcileItems(briefTemplates, imported.templates, importMode, {
+        kind: "template",
+        key: (template) => template.id,
+        label: (template) => template.name,
+      });
+      setBriefTemplates(next.items);
+      if (!next.items.some((template) => template.id === briefTemplateId)) {
+        setBriefTemplateId(STANDARD_BRIEF_TEMPLATE.id);
+      }
+      report.push(...next.report);
+    }
+
+    if (imported.readiness) {
+      const next = reconcileItems([readinessConfig], [imported.readiness], importMode, {
+        kind: "readiness",
+        key: () => "readiness",
+        label: () => "Readiness rules",
+      });
+      setReadinessConfig(next.items[0]);
+      report.push(...next.report);
+    }
+
+    if (imported.tracker) {
+      const next = reconcileItems([trackerValues], [imported.tracker], importMode, {
+        kind: "tracker",
+        key: () => "tracker",
+        label: () => "Live tracker counts",
+      });
+      setTrackerValues(next.items[0]);
+      report.push(...next.report);
+    }
+
+    if (imported.theme) {
+      const next = reconcileItems([isDarkMode ? "dark" : "light"], [imported.theme], importMode, {
+        kind: "theme",
+        key: () => "theme",
+        label: () => "Theme",
+      });
+      setIsDarkMode(next.items[0] === "dark");
+      report.push(...next.report);
+    }
+
+    setImportReport(report);
+    setWorkspaceStatus(`Imported ${file.name}: ${summarizeImportReport(report)}.`);
   }
 
   function updateTrackerValue<K extends keyof TrackerValues>(key: K, value: string) {
@@ -835,60 +1648,703 @@ export default function Home() {
 
         <div className="grid gap-8 lg:grid-cols-2">
           <form className="space-y-5" onSubmit={handleSubmit} noValidate>
-            <InputField
-              id="baselineRate"
-              label="Current conversion rate (%)"
-              tooltip="How many users convert today before any change (your A version)."
-              value={values.baselineRate}
-              error={errors.baselineRate}
-              onChange={(value) => updateValue("baselineRate", value)}
+            <SelectField
+              id="metricType"
+              label="Primary metric type"
+              tooltip="Conversion rate for yes/no outcomes (deposit made). Average value for amounts or times (deposit size, session length)."
+              value={values.metricType}
+              options={METRIC_TYPE_OPTIONS}
+              onChange={(value) => updateValue("metricType", value)}
             />
 
+            {values.metricType === "continuous" ? (
+              <>
+                <InputField
+                  id="baselineMean"
+                  label="Current average value"
+                  tooltip="Average of the metric per user today (your A version), e.g. average deposit amount."
+                  value={values.baselineMean}
+                  error={errors.baselineMean}
+                  onChange={(value) => updateValue("baselineMean", value)}
+                />
+
+                <InputField
+                  id="standardDeviation"
+                  label="Standard deviation"
+                  tooltip="How spread out the metric is per user. Take it from historical data. Noisier metrics need more users."
+                  value={values.standardDeviation}
+                  error={errors.standardDeviation}
+                  onChange={(value) => updateValue("standardDeviation", value)}
+                />
+              </>
+            ) : (
+              <InputField
+                id="baselineRate"
+                label="Current conversion rate (%)"
+                tooltip="How many users convert today before any change (your A version)."
+                value={values.baselineRate}
+                error={errors.baselineRate}
+                onChange={(value) => updateValue("baselineRate", value)}
+              />
+            )}
+
             <InputField
               id="minDetectableUplift"
               label="Expected improvement (%)"
-              tooltip="Smallest lift you want to be able to catch in B. Smaller lifts need more users."
+              tooltip={
+                marginTest
+                  ? "Not used: non-inferiority and equivalence tests are sized from the margin, assuming B matches A."
+                  : "Smallest lift you want to be able to catch in B. Smaller lifts need more users."
+              }
               value={values.minDetectableUplift}
               error={errors.minDetectableUplift}
+              disabled={marginTest}
               onChange={(value) => updateValue("minDetectableUplift", value)}
             />
 
-            <InputField
-              id="significance"
-              label="Confidence strictness (%)"
-              tooltip="How strict you want to be before calling a winner. More strict means more users."
-              value={values.significance}
-              error={errors.significance}
-              onChange={(value) => updateValue("significance", value)}
+            <SelectField
+              id="framework"
+              label="Analysis approach"
+              tooltip="Frequentist reads the test with p-values. Bayesian reads it as the probability that B beats A, using a prior and a simulation to size the test."
+              value={values.framework}
+              options={FRAMEWORK_OPTIONS}
+              onChange={(value) => updateValue("framework", value)}
             />
 
-            <InputField
-              id="power"
-              label="Chance to detect real lift (%)"
-              tooltip="How likely the test should catch a true improvement. Higher chance means more users."
-              value={values.power}
-              error={errors.power}
-              onChange={(value) => updateValue("power", value)}
-            />
+            {values.framework === "bayesian" ? (
+              <>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <InputField
+                    id="priorAlpha"
+                    label="Prior alpha"
+                    tooltip="Beta prior 'successes' for both versions. Beta(1, 1) is a flat prior. Larger values mean stronger prior beliefs."
+                    value={values.priorAlpha}
+                    error={errors.priorAlpha}
+                    onChange={(value) => updateValue("priorAlpha", value)}
+                  />
+
+                  <InputField
+                    id="priorBeta"
+                    label="Prior beta"
+                    tooltip="Beta prior 'failures' for both versions. Prior mean = alpha / (alpha + beta)."
+                    value={values.priorBeta}
+                    error={errors.priorBeta}
+                    onChange={(value) => updateValue("priorBeta", value)}
+                  />
+                </div>
+
+                <InputField
+                  id="decisionThreshold"
+                  label="Decision threshold: P(B beats A) (%)"
+                  tooltip="Ship B when the posterior probability that B beats A reaches this level."
+                  value={values.decisionThreshold}
+                  error={errors.decisionThreshold}
+                  onChange={(value) => updateValue("decisionThreshold", value)}
+                />
+
+                <InputField
+                  id="power"
+                  label="Chance to reach the threshold (%)"
+                  tooltip="Share of simulated tests, with the expected improvement being real, that should reach the decision threshold. Higher share means more users."
+                  value={values.power}
+                  error={errors.power}
+                  onChange={(value) => updateValue("power", value)}
+                />
+
+                <InputField
+                  id="simulationSeed"
+                  label="Simulation seed"
+                  tooltip="Seed for the Monte Carlo simulation. The same seed and inputs always give the same plan."
+                  value={values.simulationSeed}
+                  error={errors.simulationSeed}
+                  onChange={(value) => updateValue("simulationSeed", value)}
+                />
+              </>
+            ) : (
+              <>
+                <SelectField
+                  id="testType"
+                  label="Test type"
+                  tooltip="Superiority asks whether B is better (one-sided) or different (two-sided). Non-inferiority shows B is no worse than A by more than the margin, and equivalence shows B stays within the margin either way, e.g. when re-platforming the cashier."
+                  value={values.testType}
+                  options={TEST_TYPE_OPTIONS}
+                  onChange={(value) => updateValue("testType", value)}
+                />
+
+                {marginTest ? (
+                  <InputField
+                    id="testMargin"
+                    label={values.testType === "equivalence" ? "Equivalence bound (% of baseline)" : "Margin (% of baseline)"}
+                    tooltip="How far B may fall below A (non-inferiority) or drift from A either way (equivalence) and still count as no worse, as a share of the baseline. Smaller margins need more users."
+                    value={values.testMargin}
+                    error={errors.testMargin}
+                    onChange={(value) => updateValue("testMargin", value)}
+                  />
+                ) : null}
+
+                <InputField
+                  id="significance"
+                  label="Confidence strictness (%)"
+                  tooltip="How strict you want to be before calling a winner. More strict means more users."
+                  value={values.significance}
+                  error={errors.significance}
+                  onChange={(value) => updateValue("significance", value)}
+                />
+
+                <InputField
+                  id="power"
+                  label="Chance to detect real lift (%)"
+                  tooltip="How likely the test should catch a true improvement. Higher chance means more users."
+                  value={values.power}
+                  error={errors.power}
+                  onChange={(value) => updateValue("power", value)}
+                />
+
+                <InputField
+                  id="preCorrelation"
+                  label="Pre-period correlation (CUPED, optional)"
+                  tooltip="Correlation between each user's metric before and during the test. CUPED removes that share of noise: variance drops by correlation squared, and so does the required sample. Leave blank if your analysis does not use CUPED."
+                  value={values.preCorrelation}
+                  error={errors.preCorrelation}
+                  onChange={(value) => updateValue("preCorrelation", value)}
+                />
+
+                {values.metricType === "conversion" && !marginTest ? (
+                  <SelectField
+                    id="sampleSizeMethod"
+                    label="Sample size method"
+                    tooltip="Normal approximation is the quick default. Fleiss adds a continuity correction, Cohen's h uses the arcsine transform, and the exact search sums the binomial distributions. The alternatives differ most for low baselines such as 0.5% deposit conversion."
+                    value={values.sampleSizeMethod}
+                    options={SAMPLE_SIZE_METHOD_OPTIONS}
+                    onChange={(value) => updateValue("sampleSizeMethod", value)}
+                  />
+                ) : null}
+              </>
+            )}
 
             <InputField
               id="dailyVisitors"
               label="Users per day"
-              tooltip="Average number of users per day who can join this test."
-              value={values.dailyVisitors}
+              tooltip={
+                values.funnelSteps.length > 0
+                  ? "Worked out by the eligibility funnel below. Remove its steps to type a number in."
+                  : "Average number of users per day who can join this test."
+              }
+              value={
+                values.funnelSteps.length > 0
+                  ? Number.isFinite(eligibleDailyUsers(values))
+                    ? String(eligibleDailyUsers(values))
+                    : ""
+                  : values.dailyVisitors
+              }
               error={errors.dailyVisitors}
+              disabled={values.funnelSteps.length > 0}
               onChange={(value) => updateValue("dailyVisitors", value)}
             />
 
+            <div className="rounded-xl border border-slate-200 p-3 dark:border-slate-700">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+                  Eligibility Funnel
+                  <TooltipHelp text="Derive users per day from site traffic: each step keeps a share of the users from the step before, e.g. the share reaching the cashier, then the share in the target market. The global holdout removes users kept out of every test." />
+                </p>
+                <button
+                  type="button"
+                  onClick={addFunnelStep}
+                  disabled={values.funnelSteps.length >= MAX_FUNNEL_STEPS}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+                >
+                  Add Step
+                </button>
+              </div>
+
+              {values.funnelSteps.length === 0 ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Users per day is typed in. Add a step to work it out from site traffic instead.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <label className="block text-xs text-slate-600 dark:text-slate-300">
+                    <span>Site traffic per day</span>
+                    <input
+                      value={values.funnelTraffic}
+                      onChange={(event) => updateValue("funnelTraffic", event.target.value)}
+                      inputMode="numeric"
+                      className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                    />
+                  </label>
+                  {errors.funnelTraffic ? (
+                    <p className="text-xs text-rose-700 dark:text-rose-300">{errors.funnelTraffic}</p>
+                  ) : null}
+                  {values.funnelSteps.map((step, index) => {
+                    const users = buildEligibilityFunnel(values)[index + 1].users;
+                    return (
+                      <div key={index} className="flex items-end gap-2">
+                        <label className="w-full text-xs text-slate-600 dark:text-slate-300">
+                          <span>Step</span>
+                          <input
+                            value={step.name}
+                            onChange={(event) => updateFunnelStep(index, "name", event.target.value)}
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <label className="w-28 shrink-0 text-xs text-slate-600 dark:text-slate-300">
+                          <span>Share kept (%)</span>
+                          <input
+                            value={step.share}
+                            onChange={(event) => updateFunnelStep(index, "share", event.target.value)}
+                            inputMode="decimal"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <p className="w-20 shrink-0 pb-2 text-right text-xs text-slate-500 dark:text-slate-400">
+                          {Number.isFinite(users) ? formatNumber(Math.floor(users)) : "-"}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => removeFunnelStep(index)}
+                          className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <label className="block text-xs text-slate-600 dark:text-slate-300">
+                    <span>Global holdout (%)</span>
+                    <input
+                      value={values.funnelHoldout}
+                      onChange={(event) => updateValue("funnelHoldout", event.target.value)}
+                      inputMode="decimal"
+                      placeholder="0"
+                      className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                    />
+                  </label>
+                  {errors.funnelHoldout ? (
+                    <p className="text-xs text-rose-700 dark:text-rose-300">{errors.funnelHoldout}</p>
+                  ) : null}
+                </div>
+              )}
+              {errors.funnelSteps ? <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{errors.funnelSteps}</p> : null}
+            </div>
+
+            <SelectField
+              id="trafficPattern"
+              label="Daily traffic pattern"
+              tooltip="Flat assumes the same users every day. A day-of-week profile lets busy weekends or quiet Mondays change how fast the sample fills up."
+              value={values.trafficPattern}
+              options={TRAFFIC_PATTERN_OPTIONS}
+              onChange={(value) => updateValue("trafficPattern", value)}
+            />
+
+            {values.trafficPattern === "weekly" ? (
+              <div>
+                <div className="mb-1 flex items-center gap-2">
+                  <p className="text-sm font-medium text-slate-700 dark:text-slate-200">Relative traffic by weekday</p>
+                  <TooltipHelp text="Relative users per weekday, e.g. 100 on weekdays and 200 at weekends. Values are rescaled so their average equals users per day." />
+                </div>
+                <div className="grid grid-cols-7 gap-1">
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <label key={label} className="text-center text-xs text-slate-600 dark:text-slate-300">
+                      <span>{label}</span>
+                      <input
+                        value={values.weeklyProfile[index]}
+                        onChange={(event) => updateWeeklyProfile(index, event.target.value)}
+                        inputMode="decimal"
+                        className={`mt-1 w-full rounded-lg border px-1 py-1 text-center text-sm outline-none transition ${
+                          errors.weeklyProfile
+                            ? "border-rose-500 bg-rose-50 dark:border-rose-700 dark:bg-rose-950/40 dark:text-rose-200"
+                            : "border-slate-300 bg-white focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        }`}
+                      />
+                    </label>
+                  ))}
+                </div>
+                {errors.weeklyProfile ? (
+                  <p className="mt-1 text-xs text-rose-700 dark:text-rose-300">{errors.weeklyProfile}</p>
+                ) : null}
+              </div>
+            ) : null}
+
+            <InputField
+              id="startDate"
+              label="Planned start date (optional)"
+              tooltip="First day of the test. Duration is walked over real calendar days from here to give an end date. Leave blank to start today."
+              value={values.startDate}
+              error={errors.startDate}
+              type="date"
+              onChange={(value) => updateValue("startDate", value)}
+            />
+
+            <label className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-700 dark:border-slate-700 dark:text-slate-200">
+              <span className="flex items-center gap-2">
+                Round up to whole weeks
+                <TooltipHelp text="Run for a whole number of weeks so every day of the week is covered equally, even if the sample fills up mid-week." />
+              </span>
+              <input
+                type="checkbox"
+                checked={values.roundToWholeWeeks}
+                onChange={(event) => updateValue("roundToWholeWeeks", event.target.checked)}
+                className="h-4 w-4"
+              />
+            </label>
+
+            <div className="rounded-xl border border-slate-200 p-3 dark:border-slate-700">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+                  Ramp-up Schedule
+                  <TooltipHelp text="Launch at part of the planned allocation first, e.g. 5% then 20% then 50%, before going to full traffic. Users collected during the ramp still count, but the sample fills up more slowly." />
+                </p>
+                <button
+                  type="button"
+                  onClick={addRampStep}
+                  disabled={values.rampSteps.length >= MAX_RAMP_STEPS}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+                >
+                  Add Step
+                </button>
+              </div>
+
+              {values.rampSteps.length === 0 ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Full traffic from day one. Add a step to plan a ramp-up.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {values.rampSteps.map((step, index) => {
+                    const firstDay =
+                      values.rampSteps.slice(0, index).reduce((sum, previous) => sum + (Number(previous.days) || 0), 0) + 1;
+                    const lastDay = firstDay + (Number(step.days) || 1) - 1;
+                    return (
+                      <div key={index} className="flex items-end gap-2">
+                        <p className="w-24 shrink-0 pb-2 text-xs font-semibold text-slate-700 dark:text-slate-200">
+                          {firstDay === lastDay ? `Day ${firstDay}` : `Days ${firstDay}-${lastDay}`}
+                        </p>
+                        <label className="w-full text-xs text-slate-600 dark:text-slate-300">
+                          <span>Days</span>
+                          <input
+                            value={step.days}
+                            onChange={(event) => updateRampStep(index, "days", event.target.value)}
+                            inputMode="numeric"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <label className="w-full text-xs text-slate-600 dark:text-slate-300">
+                          <span>Traffic in test (%)</span>
+                          <input
+                            value={step.exposure}
+                            onChange={(event) => updateRampStep(index, "exposure", event.target.value)}
+                            inputMode="decimal"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => removeRampStep(index)}
+                          className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Full planned traffic from day{" "}
+                    {values.rampSteps.reduce((sum, step) => sum + (Number(step.days) || 0), 0) + 1} onwards.
+                  </p>
+                </div>
+              )}
+              {errors.rampSteps ? <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{errors.rampSteps}</p> : null}
+            </div>
+
+            <SelectField
+              id="linkedToggle"
+              label="Linked feature toggle"
+              tooltip="Run the test behind a feature toggle. Users the toggle reaches see B, so its rollout sets B's traffic."
+              value={values.linkedToggle}
+              options={[
+                { value: "", label: "None" },
+                ...toggles.map((toggle) => ({ value: toggle.id, label: `${toggle.name} (${toggle.rollout}%)` })),
+                ...(values.linkedToggle && !toggleLink?.toggle
+                  ? [{ value: values.linkedToggle, label: `${values.linkedToggle} (not in this browser)` }]
+                  : []),
+              ]}
+              onChange={(value) => updateValue("linkedToggle", value)}
+            />
+
             <InputField
               id="variantTraffic"
               label="Traffic to version B (%)"
-              tooltip="How much traffic goes to B. A very uneven split can make the test take longer."
+              tooltip={
+                toggleLink?.toggle && toggleLink.variantTraffic !== null
+                  ? `Set by the rollout of ${toggleLink.toggle.name}. Change it in Feature Toggle Management.`
+                  : "How much traffic goes to B. A very uneven split can make the test take longer."
+              }
               value={values.variantTraffic}
               error={errors.variantTraffic}
+              disabled={toggleLink?.variantTraffic != null}
               onChange={(value) => updateValue("variantTraffic", value)}
             />
 
+            {toggleLink ? (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs dark:border-slate-700 dark:bg-slate-800/50">
+                {!toggleLink.toggle ? (
+                  <p className="text-amber-700 dark:text-amber-300">
+                    Toggle &quot;{values.linkedToggle}&quot; is not in this browser, so B&apos;s traffic stays as entered.
+                    Import it or pick another toggle.
+                  </p>
+                ) : !toggleLink.toggle.enabled || toggleLink.toggle.rollout <= 0 ? (
+                  <p className="text-amber-700 dark:text-amber-300">
+                    {toggleLink.toggle.name} is {toggleLink.toggle.enabled ? "at 0%" : "off"}, so nobody sees B yet and
+                    B&apos;s traffic stays as entered. Roll it out when the test starts.
+                  </p>
+                ) : toggleLink.trafficCapped ? (
+                  <p className="text-amber-700 dark:text-amber-300">
+                    {toggleLink.toggle.name} is at {toggleLink.toggle.rollout}%, but the other variants leave room for
+                    only {toggleLink.variantTraffic}% so A keeps traffic. Lower the rollout or the other variants.
+                  </p>
+                ) : toggleLink.variantTraffic === null ? (
+                  <p className="text-amber-700 dark:text-amber-300">
+                    The other variants leave no traffic for {toggleLink.toggle.name}, so B&apos;s traffic stays as entered.
+                  </p>
+                ) : null}
+                {toggleLink.conflicts.length === 0 ? (
+                  <p className="text-slate-600 dark:text-slate-300">No other toggle is splitting this test&apos;s users.</p>
+                ) : (
+                  <>
+                    <p className="font-semibold text-slate-700 dark:text-slate-200">Concurrent toggles</p>
+                    <ul className="space-y-1">
+                      {toggleLink.conflicts.map((conflict) => (
+                        <li key={conflict.toggle.id} className="text-slate-600 dark:text-slate-300">
+                          {conflict.toggle.name} reaches about {Number((conflict.sharedShare * 100).toFixed(1))}% of
+                          this test&apos;s users in both arms
+                          {conflict.experiments.length > 0
+                            ? `, and is linked to ${conflict.experiments.join(", ")}`
+                            : ""}
+                          .
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-amber-700 dark:text-amber-300">
+                      {Number((toggleLink.contaminatedShare * 100).toFixed(1))}% of users also get another toggle&apos;s
+                      change. The plan is sized on the clean eligible traffic: {formatNumber(toggleLink.cleanDailyUsers)}{" "}
+                      users/day.
+                    </p>
+                  </>
+                )}
+              </div>
+            ) : null}
+
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-800/50">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                  Additional Variants
+                  <TooltipHelp text="Add arms C, D, ... for A/B/n tests. Each arm gets its own traffic and expected improvement and is compared against control A." />
+                </p>
+                <button
+                  type="button"
+                  onClick={addVariant}
+                  disabled={values.extraVariants.length >= MAX_VARIANTS - 1}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+                >
+                  Add Variant
+                </button>
+              </div>
+
+              {values.extraVariants.length === 0 ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Classic A/B test. Add a variant to plan an A/B/n test.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {values.extraVariants.map((arm, index) => (
+                    <div key={ARM_LABELS[index + 1]}>
+                      <div className="flex items-end gap-2">
+                        <p className="pb-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                          {ARM_LABELS[index + 1]}
+                        </p>
+                        <label className="w-full text-xs text-slate-600 dark:text-slate-300">
+                          <span>Traffic (%)</span>
+                          <input
+                            value={arm.traffic}
+                            onChange={(event) => updateVariant(index, "traffic", event.target.value)}
+                            inputMode="decimal"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <label className="w-full text-xs text-slate-600 dark:text-slate-300">
+                          <span>Expected improvement (%)</span>
+                          <input
+                            value={arm.uplift}
+                            onChange={(event) => updateVariant(index, "uplift", event.target.value)}
+                            disabled={marginTest}
+                            inputMode="decimal"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(index)}
+                          className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {variantErrors[index] ? (
+                        <p className="mt-1 text-xs text-rose-700 dark:text-rose-300">{variantErrors[index]}</p>
+                      ) : null}
+                    </div>
+                  ))}
+
+                  <SelectField
+                    id="correction"
+                    label="Multiple-comparison correction"
+                    tooltip="Testing several arms against A raises the chance of a false winner. The correction lowers the alpha used for each comparison, which needs more users per arm."
+                    value={values.correction}
+                    options={CORRECTION_OPTIONS}
+                    onChange={(value) => updateValue("correction", value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-800/50">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-300">
+                  Guardrail Metrics
+                  <TooltipHelp text="Metrics a winner must not hurt, such as deposits or churn. Each one gets a non-inferiority test: the variant passes if the metric is no worse than the tolerable degradation. The plan runs until the metric that needs the most users has them." />
+                </p>
+                <button
+                  type="button"
+                  onClick={addGuardrail}
+                  disabled={values.guardrails.length >= MAX_GUARDRAILS}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+                >
+                  Add Guardrail
+                </button>
+              </div>
+
+              {values.guardrails.length === 0 ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  No guardrails. Add one to make sure a winner does not hurt another metric.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {values.guardrails.map((guardrail, index) => (
+                    <div
+                      key={index}
+                      className="grid gap-2 border-t border-slate-200 pt-3 text-xs text-slate-600 first:border-t-0 first:pt-0 dark:border-slate-700 dark:text-slate-300 sm:grid-cols-6"
+                    >
+                      <label className="sm:col-span-2">
+                        <span>Metric name</span>
+                        <input
+                          value={guardrail.name}
+                          onChange={(event) => updateGuardrail(index, "name", event.target.value)}
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        />
+                      </label>
+                      <label className="sm:col-span-2">
+                        <span>Type</span>
+                        <select
+                          value={guardrail.metricType}
+                          onChange={(event) => updateGuardrail(index, "metricType", event.target.value as MetricType)}
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        >
+                          <option value="conversion">Conversion rate</option>
+                          <option value="continuous">Average value</option>
+                        </select>
+                      </label>
+                      <label className="sm:col-span-2">
+                        <span>Better when</span>
+                        <select
+                          value={guardrail.betterWhen}
+                          onChange={(event) =>
+                            updateGuardrail(index, "betterWhen", event.target.value as Guardrail["betterWhen"])
+                          }
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        >
+                          <option value="higher">Higher (e.g. deposits)</option>
+                          <option value="lower">Lower (e.g. churn)</option>
+                        </select>
+                      </label>
+                      <label className="sm:col-span-2">
+                        <span>{guardrail.metricType === "conversion" ? "Baseline rate (%)" : "Baseline average"}</span>
+                        <input
+                          value={guardrail.baseline}
+                          onChange={(event) => updateGuardrail(index, "baseline", event.target.value)}
+                          inputMode="decimal"
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        />
+                      </label>
+                      {guardrail.metricType === "continuous" ? (
+                        <label className="sm:col-span-2">
+                          <span>Standard deviation</span>
+                          <input
+                            value={guardrail.standardDeviation}
+                            onChange={(event) => updateGuardrail(index, "standardDeviation", event.target.value)}
+                            inputMode="decimal"
+                            className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                      ) : null}
+                      <label className={guardrail.metricType === "continuous" ? "sm:col-span-1" : "sm:col-span-3"}>
+                        <span>Max degradation (%)</span>
+                        <input
+                          value={guardrail.margin}
+                          onChange={(event) => updateGuardrail(index, "margin", event.target.value)}
+                          inputMode="decimal"
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        />
+                      </label>
+                      <div className="flex items-end">
+                        <button
+                          type="button"
+                          onClick={() => removeGuardrail(index)}
+                          className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {errors.guardrails ? <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{errors.guardrails}</p> : null}
+            </div>
+
+            {values.framework === "frequentist" ? (
+              <SelectField
+                id="designMode"
+                label="Analysis design"
+                tooltip="Fixed horizon: analyze once at the end. Group-sequential: plan interim looks where you may stop early for a clear winner without inflating false positives."
+                value={values.designMode}
+                options={DESIGN_MODE_OPTIONS}
+                onChange={(value) => updateValue("designMode", value)}
+              />
+            ) : null}
+
+            {values.framework === "frequentist" && values.designMode === "sequential" ? (
+              <>
+                <InputField
+                  id="interimLooks"
+                  label="Interim looks (before final)"
+                  tooltip="How many times you will check results before the planned end. Looks are spread evenly over the maximum sample."
+                  value={values.interimLooks}
+                  error={errors.interimLooks}
+                  onChange={(value) => updateValue("interimLooks", value)}
+                />
+
+                <SelectField
+                  id="spendingFunction"
+                  label="Alpha spending function"
+                  tooltip="How the false-positive budget is spread across looks. O'Brien-Fleming keeps early looks very strict so the final look stays close to a fixed test. Pocock uses the same bar every time but needs more users overall."
+                  value={values.spendingFunction}
+                  options={SPENDING_FUNCTION_OPTIONS}
+                  onChange={(value) => updateValue("spendingFunction", value)}
+                />
+              </>
+            ) : null}
+
             {globalError ? (
               <p className="rounded-lg border border-rose-300 bg-rose-50 p-3 text-sm text-rose-700 dark:border-rose-700 dark:bg-rose-950/40 dark:text-rose-300">
                 {globalError}
@@ -954,6 +2410,11 @@ export default function Home() {
               Results
               <TooltipHelp text="We estimate required users for A and B, then convert that into days using your daily traffic and split." />
             </h2>
+            {isSimulating ? (
+              <p className="mt-4 rounded-lg border border-sky-200 bg-sky-50 p-3 text-xs text-sky-700 dark:border-sky-800 dark:bg-sky-950/40 dark:text-sky-300">
+                Running Bayesian simulation...
+              </p>
+            ) : null}
             {!result ? (
               <p className="mt-4 text-sm text-slate-600 dark:text-slate-300">
                 Enter your assumptions and calculate to see required sample size and estimated run time.
@@ -961,25 +2422,292 @@ export default function Home() {
             ) : (
               <div className="mt-5 space-y-4">
                 <ResultCard
-                  label="Sample size per variant"
+                  label={result.sequential ? "Maximum sample size per variant" : "Sample size per variant"}
                   value={`${formatNumber(result.sampleSizePerGroup)} users`}
-                  tooltip="Calculated with a two-group conversion formula using your current rate, expected improvement, confidence strictness, and detection chance. Output is users needed in each group."
+                  tooltip={
+                    result.bayesian
+                      ? "Smallest users per group where the simulated share of tests reaching your decision threshold meets your target."
+                      : result.metricType === "continuous"
+                        ? "Calculated with a two-group mean formula: 2 x (z-alpha + z-power)^2 x standard deviation^2 / (expected change)^2. Output is users needed in each group."
+                        : "Calculated with a two-group conversion formula using your current rate, expected improvement, confidence strictness, and detection chance. Output is users needed in each group."
+                  }
                 />
+                {result.sampleSizeMethod && result.metricType === "conversion" ? (
+                  <ResultCard
+                    label="Sample size method"
+                    value={
+                      exactSearchFellBack(values, result)
+                        ? "Normal approximation (exact search limit reached)"
+                        : SAMPLE_SIZE_METHOD_LABELS[result.sampleSizeMethod]
+                    }
+                    tooltip={
+                      exactSearchFellBack(values, result)
+                        ? `The exact search stops at ${formatNumber(EXACT_SEARCH_LIMIT)} users per variant, where the binomial is as good as normal, so this plan uses the normal approximation.`
+                        : "Formula used for the sample size, duration, curves and detectable uplift. Change it under Sample size method."
+                    }
+                  />
+                ) : null}
                 <ResultCard
                   label="Total sample size"
                   value={`${formatNumber(result.totalSampleSize)} users`}
-                  tooltip="Total sample = sample per variant x 2 (A + B)."
+                  tooltip={
+                    result.arms.length > 1
+                      ? `Total sample = sample per variant x ${result.arms.length + 1} (A + ${result.arms.length} variants).`
+                      : "Total sample = sample per variant x 2 (A + B)."
+                  }
                 />
                 <ResultCard
                   label="Estimated duration"
                   value={`${result.durationDays} day(s)`}
-                  tooltip="Control daily users = users per day x (1 - B traffic). B daily users = users per day x B traffic. Days = larger of (sample per variant / control daily) and (sample per variant / B daily), rounded up."
+                  tooltip={
+                    result.arms.length > 1
+                      ? "Each arm gets users per day x its traffic share. Days = sample per variant / daily users of the smallest arm, rounded up."
+                      : "Control daily users = users per day x (1 - B traffic). B daily users = users per day x B traffic. Days = larger of (sample per variant / control daily) and (sample per variant / B daily), rounded up."
+                  }
                 />
                 <ResultCard
-                  label="Expected conversion rate (variant B)"
-                  value={formatRate(result.expectedVariantRate)}
-                  tooltip="Expected B rate = current conversion rate x (1 + expected improvement)."
+                  label="Planned run dates"
+                  value={`${formatIsoDate(result.startDate)} to ${formatIsoDate(result.endDate)}`}
+                  tooltip={
+                    result.durationDays > result.collectionDays
+                      ? `The sample is reached after ${result.collectionDays} day(s); the run is rounded up to ${result.durationDays / 7} whole week(s) so every day of the week is covered equally.`
+                      : "Walks real calendar days from the start date, using the day-of-week profile when one is set, until the smallest arm reaches its sample."
+                  }
                 />
+                {result.ramp ? (
+                  <ResultCard
+                    label="Ramp-up delay"
+                    value={`+${result.ramp.delayDays} day(s)`}
+                    tooltip={`The ${result.ramp.rampDays}-day ramp runs below full traffic, so the decision lands ${result.ramp.delayDays} day(s) later than at full allocation from day one. Each variant still collects ${formatNumber(result.ramp.usersPerVariantDuringRamp)} users during the ramp, and they count toward the sample.`}
+                  />
+                ) : null}
+                {result.guardrails.length > 0 ? (
+                  <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Bottleneck: {result.bottleneck ? `${result.bottleneck} (guardrail)` : "Primary metric"}
+                      </p>
+                      <TooltipHelp text="Each guardrail is checked with a one-sided non-inferiority test, assuming the variant does not really change it. The plan's sample and duration come from the metric that needs the most users." />
+                    </div>
+                    <table className="mt-2 w-full text-left text-xs text-slate-600 dark:text-slate-300">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="py-1 font-medium">Metric</th>
+                          <th className="py-1 font-medium">Max degradation</th>
+                          <th className="py-1 font-medium">Users per variant</th>
+                          <th className="py-1 font-medium">Duration</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr
+                          className={`border-t border-slate-100 dark:border-slate-800 ${
+                            result.bottleneck ? "" : "font-semibold text-slate-900 dark:text-slate-100"
+                          }`}
+                        >
+                          <td className="py-1">Primary metric</td>
+                          <td className="py-1">n/a</td>
+                          <td className="py-1">{formatNumber(result.primarySampleSizePerGroup)}</td>
+                          <td className="py-1">{result.primaryDurationDays} day(s)</td>
+                        </tr>
+                        {result.guardrails.map((guardrail, index) => (
+                          <tr
+                            key={index}
+                            className={`border-t border-slate-100 dark:border-slate-800 ${
+                              guardrail.name === result.bottleneck ? "font-semibold text-slate-900 dark:text-slate-100" : ""
+                            }`}
+                          >
+                            <td className="py-1">{guardrail.name}</td>
+                            <td className="py-1">
+                              {guardrail.betterWhen === "lower" ? "+" : "-"}
+                              {formatShare(guardrail.margin)} of {formatMetricValue(guardrail.baseline, guardrail.metricType)}
+                            </td>
+                            <td className="py-1">{formatNumber(guardrail.sampleSizePerGroup)}</td>
+                            <td className="py-1">{guardrail.durationDays} day(s)</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {result.cuped ? (
+                  <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        CUPED adjustment ({formatShare(result.cuped.varianceReduction)} less variance)
+                      </p>
+                      <TooltipHelp text="Adjusted figures assume your analysis uses CUPED with the pre-period correlation you entered. Unadjusted figures are what a plain comparison would need." />
+                    </div>
+                    {result.bottleneck ? (
+                      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        Primary metric only: {result.bottleneck} still sets the plan at{" "}
+                        {formatNumber(result.sampleSizePerGroup)} users per variant.
+                      </p>
+                    ) : null}
+                    <table className="mt-2 w-full text-left text-xs text-slate-600 dark:text-slate-300">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="py-1 font-medium" />
+                          <th className="py-1 font-medium">Unadjusted</th>
+                          <th className="py-1 font-medium">With CUPED</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="border-t border-slate-100 dark:border-slate-800">
+                          <td className="py-1">Users per variant</td>
+                          <td className="py-1">{formatNumber(result.cuped.unadjustedSampleSizePerGroup)}</td>
+                          <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">
+                            {formatNumber(result.primarySampleSizePerGroup)}
+                          </td>
+                        </tr>
+                        <tr className="border-t border-slate-100 dark:border-slate-800">
+                          <td className="py-1">Total users</td>
+                          <td className="py-1">{formatNumber(result.cuped.unadjustedTotalSampleSize)}</td>
+                          <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">
+                            {formatNumber(result.primarySampleSizePerGroup * (result.arms.length + 1))}
+                          </td>
+                        </tr>
+                        <tr className="border-t border-slate-100 dark:border-slate-800">
+                          <td className="py-1">Duration</td>
+                          <td className="py-1">{result.cuped.unadjustedDurationDays} day(s)</td>
+                          <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">
+                            {result.primaryDurationDays} day(s)
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {result.arms.length > 1 ? (
+                  <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Per-arm breakdown ({CORRECTION_LABELS[result.correction]})
+                      </p>
+                      <TooltipHelp text="Each variant is compared with A at its corrected alpha. The per-variant sample size above is the largest of these, so every arm is covered." />
+                    </div>
+                    <table className="mt-2 w-full text-left text-xs text-slate-600 dark:text-slate-300">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="py-1 font-medium">Arm</th>
+                          <th className="py-1 font-medium">Traffic</th>
+                          <th className="py-1 font-medium">Alpha</th>
+                          <th className="py-1 font-medium">Users needed</th>
+                          <th className="py-1 font-medium">Expected</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="border-t border-slate-100 dark:border-slate-800">
+                          <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">A</td>
+                          <td className="py-1">{formatShare(result.controlShare)}</td>
+                          <td className="py-1">-</td>
+                          <td className="py-1">{formatNumber(result.sampleSizePerGroup)}</td>
+                          <td className="py-1">Baseline</td>
+                        </tr>
+                        {result.arms.map((arm) => (
+                          <tr key={arm.label} className="border-t border-slate-100 dark:border-slate-800">
+                            <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">{arm.label}</td>
+                            <td className="py-1">{formatShare(arm.trafficShare)}</td>
+                            <td className="py-1">{formatAlpha(arm.adjustedAlpha)}</td>
+                            <td className="py-1">{formatNumber(arm.sampleSizePerGroup)}</td>
+                            <td className="py-1">{formatMetricValue(arm.expectedValue, result.metricType)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {result.bayesian ? (
+                  <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Bayesian simulation
+                      </p>
+                      <TooltipHelp text="Each run simulates a full test with your expected improvement, updates Beta priors with the simulated conversions, and checks P(B beats A) against the threshold. Sample size is the smallest per-variant count that reaches it in your target share of runs." />
+                    </div>
+                    <p
+                      className={`mt-1 text-sm font-semibold ${
+                        result.bayesian.reachedTarget
+                          ? "text-slate-900 dark:text-slate-100"
+                          : "text-rose-700 dark:text-rose-300"
+                      }`}
+                    >
+                      {formatShare(result.bayesian.assurance)} of runs reach P(B beats A) &gt;={" "}
+                      {formatShare(result.bayesian.threshold)}
+                      {result.bayesian.reachedTarget ? "" : " (target share not reached within the simulation limit)"}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                      Average P(B beats A): {formatShare(result.bayesian.meanProbabilityBeatsControl)} | Average
+                      expected loss of shipping B: {formatLoss(result.bayesian.meanExpectedLoss)}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      Prior Beta({result.bayesian.priorAlpha}, {result.bayesian.priorBeta}) |{" "}
+                      {formatNumber(result.bayesian.simulations)} runs | seed {result.bayesian.seed}
+                    </p>
+                  </div>
+                ) : null}
+                {result.sequential ? (
+                  <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Sequential plan ({SPENDING_FUNCTION_LABELS[result.sequential.spendingFunction]})
+                      </p>
+                      <TooltipHelp text="Lan-DeMets alpha spending with evenly spaced looks. Stop at a look only if |z| reaches its boundary. Inflation compares the sequential sample with the fixed-horizon sample." />
+                    </div>
+                    <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                      Fixed horizon: {formatNumber(result.sequential.fixedSampleSizePerGroup)} users per variant. Max
+                      inflation x{result.sequential.maxInflation.toFixed(3)}, expected x
+                      {result.sequential.expectedInflation.toFixed(3)} (
+                      {formatNumber(result.sequential.expectedSampleSizePerGroup)} users per variant if the uplift is
+                      real).
+                    </p>
+                    {result.bottleneck ? (
+                      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        Looks are spread over the {formatNumber(result.sampleSizePerGroup)} users per variant{" "}
+                        {result.bottleneck} needs, so each comes later than the primary metric alone would need.
+                      </p>
+                    ) : null}
+                    <table className="mt-2 w-full text-left text-xs text-slate-600 dark:text-slate-300">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="py-1 font-medium">Look</th>
+                          <th className="py-1 font-medium">Day</th>
+                          <th className="py-1 font-medium">Users / variant</th>
+                          <th className="py-1 font-medium">Total users</th>
+                          <th className="py-1 font-medium">|z| boundary</th>
+                          <th className="py-1 font-medium">p below</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.sequential.looks.map((look) => (
+                          <tr key={look.look} className="border-t border-slate-100 dark:border-slate-800">
+                            <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">{look.look}</td>
+                            <td className="py-1">
+                              {look.day}
+                              <span className="block text-slate-400 dark:text-slate-500">{look.date}</span>
+                            </td>
+                            <td className="py-1">{formatNumber(look.samplePerGroup)}</td>
+                            <td className="py-1">{formatNumber(look.totalSample)}</td>
+                            <td className="py-1">{look.zBoundary.toFixed(3)}</td>
+                            <td className="py-1">{formatAlpha(look.nominalAlpha)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {result.metricType === "continuous" ? (
+                  <ResultCard
+                    label="Expected average (variant B)"
+                    value={formatMean(result.expectedVariantValue)}
+                    tooltip="Expected B average = current average x (1 + expected improvement)."
+                  />
+                ) : (
+                  <ResultCard
+                    label="Expected conversion rate (variant B)"
+                    value={formatRate(result.expectedVariantValue)}
+                    tooltip="Expected B rate = current conversion rate x (1 + expected improvement)."
+                  />
+                )}
                 {readiness ? (
                   <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
                     <div className="flex items-center justify-between gap-3">
@@ -1011,11 +2739,16 @@ export default function Home() {
                     </div>
                     <div className="mt-3 space-y-1">
                       {readiness.checks.map((check) => (
-                        <p key={check.label} className="text-xs text-slate-600 dark:text-slate-300">
-                          <span className={check.passed ? "text-emerald-600" : "text-rose-600"}>
-                            {check.passed ? "PASS" : "CHECK"}
+                        <p key={check.id} className="text-xs text-slate-600 dark:text-slate-300">
+                          <span
+                            className={
+                              !check.evaluated ? "text-slate-400" : check.passed ? "text-emerald-600" : "text-rose-600"
+                            }
+                          >
+                            {!check.evaluated ? "N/A" : check.passed ? "PASS" : "CHECK"}
                           </span>{" "}
                           {check.label}
+                          {!check.passed && check.severity !== "minor" ? ` [${check.severity}]` : ""}
                         </p>
                       ))}
                     </div>
@@ -1024,23 +2757,105 @@ export default function Home() {
                 <p className="pt-3 text-xs text-slate-500 dark:text-slate-400">
                   Estimate only. Use it as planning guidance before running the live test.
                 </p>
-                <button
-                  type="button"
-                  onClick={handleCopyBrief}
-                  className="w-full rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-700"
-                >
-                  Copy Experiment Brief
-                </button>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <select
+                    aria-label="Brief format"
+                    value={briefFormat}
+                    onChange={(event) => {
+                      setBriefFormat(event.target.value as BriefFormat);
+                      setBriefStatus("");
+                    }}
+                    className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                  >
+                    {(Object.keys(BRIEF_FORMAT_LABELS) as BriefFormat[]).map((format) => (
+                      <option key={format} value={format}>
+                        {BRIEF_FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Brief template"
+                    value={briefTemplate.id}
+                    onChange={(event) => {
+                      setBriefTemplateId(event.target.value);
+                      setBriefStatus("");
+                    }}
+                    className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                  >
+                    {[STANDARD_BRIEF_TEMPLATE, ...briefTemplates].map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  {briefFormat !== "pdf" ? (
+                    <button
+                      type="button"
+                      onClick={handleCopyBrief}
+                      className="w-full rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-700"
+                    >
+                      Copy Experiment Brief
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={handleDownloadBrief}
+                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-700"
+                  >
+                    {briefFormat === "pdf" ? "Download PDF Brief" : "Download"}
+                  </button>
+                </div>
               </div>
             )}
           </section>
         </div>
 
+        {result ? (
+          <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
+            <h2 className="text-xl font-semibold">Power and Duration Trade-offs</h2>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+              See what a bigger sample or a longer run buys. Hover a curve for exact values; the dot marks the
+              current plan.
+            </p>
+            {planCurves ? (
+              <div className="mt-5 grid gap-4 lg:grid-cols-2">
+                <CurveChart
+                  title="Chance to detect real lift vs. users per variant"
+                  tooltip="Power for the current uplift, corrected alpha and design at each sample size per variant."
+                  points={planCurves.power}
+                  marker={planCurves.powerMarker}
+                  yMax={1}
+                  formatX={(value) => `${formatNumber(value)} users`}
+                  formatY={(value) => formatShare(value)}
+                />
+                <CurveChart
+                  title={marginTest ? "Provable margin vs. run length" : "Detectable uplift vs. run length"}
+                  tooltip={
+                    marginTest
+                      ? "Smallest margin (% of the baseline) the plan can prove if it runs for that many days with current traffic and split."
+                      : "Smallest uplift the plan can detect if it runs for that many days with current traffic and split."
+                  }
+                  points={planCurves.mde}
+                  marker={planCurves.mdeMarker}
+                  formatX={(value) => `${formatNumber(value)} day(s)`}
+                  formatY={(value) => `${value}%`}
+                />
+              </div>
+            ) : (
+              <p className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-300">
+                Trade-off curves use the frequentist formulas. Switch the analysis approach to frequentist to see them.
+              </p>
+            )}
+          </section>
+        ) : null}
+
         <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
           <h2 className="text-xl font-semibold">Live Experiment Progress Tracker</h2>
           <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
-            Enter users already collected in A and B to see progress toward required sample size and expected
-            days left.
+            Enter users and conversions already collected in A and B to see progress toward required sample size,
+            expected days left, and what the result says so far.
           </p>
 
           <div className="mt-5 grid gap-3 md:grid-cols-2">
@@ -1059,8 +2874,28 @@ export default function Home() {
               <input
                 type="number"
                 min={0}
-                value={trackerValues.variantUsers}
-                onChange={(event) => updateTrackerValue("variantUsers", event.target.value)}
+                value={trackerValues.variantUsers}
+                onChange={(event) => updateTrackerValue("variantUsers", event.target.value)}
+                className="mt-1 w-full rounded-lg border border-slate-300 px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            </label>
+            <label className="rounded-lg border border-slate-200 px-3 py-2 text-sm dark:border-slate-700 dark:text-slate-200">
+              <span>Conversions in A (Control)</span>
+              <input
+                type="number"
+                min={0}
+                value={trackerValues.controlConversions}
+                onChange={(event) => updateTrackerValue("controlConversions", event.target.value)}
+                className="mt-1 w-full rounded-lg border border-slate-300 px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            </label>
+            <label className="rounded-lg border border-slate-200 px-3 py-2 text-sm dark:border-slate-700 dark:text-slate-200">
+              <span>Conversions in B (Variant)</span>
+              <input
+                type="number"
+                min={0}
+                value={trackerValues.variantConversions}
+                onChange={(event) => updateTrackerValue("variantConversions", event.target.value)}
                 className="mt-1 w-full rounded-lg border border-slate-300 px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
               />
             </label>
@@ -1117,6 +2952,107 @@ export default function Home() {
                       : "Unable to estimate days left with current traffic setup."}
                 </p>
               </div>
+
+              {trackerSummary.sequentialStatus ? (
+                <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                  <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                    Sequential Analysis
+                  </p>
+                  <p className="mt-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    {trackerSummary.sequentialStatus.currentLook
+                      ? `Look ${trackerSummary.sequentialStatus.currentLook.look} of ${trackerSummary.sequentialStatus.totalLooks} reached (${formatShare(trackerSummary.sequentialStatus.informationFraction)} of maximum sample).`
+                      : `Before the first look (${formatShare(trackerSummary.sequentialStatus.informationFraction)} of maximum sample).`}
+                  </p>
+                  {trackerSummary.sequentialStatus.currentLook ? (
+                    <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                      Analyze now: stop for a winner only if |z| &gt;={" "}
+                      {trackerSummary.sequentialStatus.currentLook.zBoundary.toFixed(3)} (p &lt;{" "}
+                      {formatAlpha(trackerSummary.sequentialStatus.currentLook.nominalAlpha)}).
+                      {trackerSummary.sequentialStatus.nextLook ? " Otherwise keep running." : " This is the final analysis."}
+                    </p>
+                  ) : null}
+                  {trackerSummary.sequentialStatus.nextLook ? (
+                    <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                      Next: look {trackerSummary.sequentialStatus.nextLook.look} at{" "}
+                      {formatNumber(trackerSummary.sequentialStatus.nextLook.samplePerGroup)} users per variant (planned
+                      day {trackerSummary.sequentialStatus.nextLook.day}), boundary |z| &gt;={" "}
+                      {trackerSummary.sequentialStatus.nextLook.zBoundary.toFixed(3)}.
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {trackerSummary.srm.status === "mismatch" ? (
+                <div className="rounded-xl border border-rose-300 bg-rose-50 p-4 dark:border-rose-700 dark:bg-rose-950/40">
+                  <p className="text-sm font-semibold text-rose-700 dark:text-rose-300">
+                    Sample ratio mismatch detected. Do not read results until bucketing is fixed.
+                  </p>
+                  <p className="mt-1 text-xs text-rose-700 dark:text-rose-300">
+                    A has {formatShare(trackerSummary.srm.observedControlShare)} of tracked users but the plan expects{" "}
+                    {formatShare(trackerSummary.srm.expectedControlShare)} (chi-square{" "}
+                    {trackerSummary.srm.chiSquare.toFixed(2)}, p = {formatPValue(trackerSummary.srm.pValue)}, threshold{" "}
+                    {SRM_ALPHA}).
+                  </p>
+                </div>
+              ) : trackerSummary.srm.status === "ok" ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Sample ratio check passed (p = {formatPValue(trackerSummary.srm.pValue)}): the observed split matches
+                  the plan.
+                </p>
+              ) : null}
+
+              {trackerSummary.analysisError ? (
+                <p className="text-xs text-amber-700 dark:text-amber-300">{trackerSummary.analysisError}</p>
+              ) : null}
+
+              {trackerSummary.analysis && trackerSummary.srm.status !== "mismatch" ? (
+                <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Result Analysis</p>
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                        trackerSummary.analysis.tone === "win"
+                          ? "bg-emerald-100 text-emerald-700"
+                          : trackerSummary.analysis.tone === "loss"
+                            ? "bg-rose-100 text-rose-700"
+                            : trackerSummary.analysis.tone === "neutral"
+                              ? "bg-slate-200 text-slate-700"
+                              : "bg-amber-100 text-amber-700"
+                      }`}
+                    >
+                      {trackerSummary.analysis.badge}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    {trackerSummary.analysis.verdict}
+                  </p>
+                  <div className="mt-3 grid gap-2 text-xs text-slate-600 dark:text-slate-300 md:grid-cols-2">
+                    <p>
+                      Observed rates: A {formatRate(trackerSummary.analysis.controlRate)} | B{" "}
+                      {formatRate(trackerSummary.analysis.variantRate)}
+                    </p>
+                    <p>
+                      z = {trackerSummary.analysis.zScore.toFixed(3)} | p ={" "}
+                      {formatPValue(trackerSummary.analysis.pValue)}
+                      {trackerSummary.analysis.probabilityBeatsControl !== null
+                        ? ` | P(B beats A) = ${formatShare(trackerSummary.analysis.probabilityBeatsControl)}`
+                        : ""}
+                    </p>
+                    <p>
+                      Absolute lift: {formatLiftPoints(trackerSummary.analysis.absoluteLift)} (
+                      {formatShare(trackerSummary.analysis.confidenceLevel)} CI{" "}
+                      {formatLiftPoints(trackerSummary.analysis.absoluteLiftInterval[0])} to{" "}
+                      {formatLiftPoints(trackerSummary.analysis.absoluteLiftInterval[1])})
+                    </p>
+                    <p>
+                      Relative lift: {formatLiftPercent(trackerSummary.analysis.relativeLift)} (
+                      {formatShare(trackerSummary.analysis.confidenceLevel)} CI{" "}
+                      {formatLiftPercent(trackerSummary.analysis.relativeLiftInterval[0])} to{" "}
+                      {formatLiftPercent(trackerSummary.analysis.relativeLiftInterval[1])})
+                    </p>
+                  </div>
+                </div>
+              ) : null}
             </div>
           ) : null}
         </section>
@@ -1125,7 +3061,8 @@ export default function Home() {
           <h2 className="text-xl font-semibold">Detectable Uplift by Deadline</h2>
           <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
             Reverse planner: pick a maximum test duration and see the minimum uplift you can realistically
-            detect with your current assumptions.
+            detect with your current assumptions, or the smallest margin a non-inferiority or equivalence test
+            can prove.
           </p>
 
           <div className="mt-5 max-w-sm">
@@ -1145,7 +3082,7 @@ export default function Home() {
             {mdeEstimate.status === "ok" ? (
               <>
                 <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                  Estimated Minimum Detectable Uplift
+                  {marginTest ? "Smallest Provable Margin (% of baseline)" : "Estimated Minimum Detectable Uplift"}
                 </p>
                 <p className="mt-1 text-2xl font-bold text-slate-900 dark:text-slate-100">
                   {mdeEstimate.mdePercent}%+
@@ -1154,12 +3091,20 @@ export default function Home() {
                   Achievable sample per variant in {mdeDays} day(s):{" "}
                   {formatNumber(mdeEstimate.achievableSamplePerGroup ?? 0)} users
                 </p>
+                {values.preCorrelation.trim() !== "" && Number(values.preCorrelation) !== 0 ? (
+                  <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                    Without CUPED:{" "}
+                    {mdeEstimate.unadjustedMdePercent !== undefined
+                      ? `${mdeEstimate.unadjustedMdePercent}%+`
+                      : "not detectable in this duration"}
+                  </p>
+                ) : null}
                 <p className="mt-2 text-xs text-emerald-700 dark:text-emerald-300">{mdeEstimate.message}</p>
               </>
             ) : (
               <p
                 className={`text-sm ${
-                  mdeEstimate.status === "input_error"
+                  mdeEstimate.status === "input_error" || mdeEstimate.status === "unsupported"
                     ? "text-amber-700 dark:text-amber-300"
                     : "text-rose-700 dark:text-rose-300"
                 }`}
@@ -1170,10 +3115,178 @@ export default function Home() {
           </div>
         </section>
 
+        <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
+          <h2 className="text-xl font-semibold">Readiness Rules</h2>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Set the launch standards the readiness score checks. Each failed rule costs its weight in points; a
+            failed major rule caps the plan at Needs Review and a failed critical rule makes it Risky. Rules are
+            saved in this browser and travel with share links.
+          </p>
+
+          <div className="mt-5 space-y-3">
+            {readinessConfig.rules.map((rule) => {
+              const ruleError = validateReadinessRule(rule);
+              return (
+                <div
+                  key={rule.id}
+                  className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900"
+                >
+                  <div className="grid gap-3 text-xs text-slate-600 dark:text-slate-300 md:grid-cols-6">
+                    <label className="md:col-span-2">
+                      Metric
+                      <select
+                        value={rule.metric}
+                        onChange={(event) => updateReadinessRule(rule.id, "metric", event.target.value as ReadinessMetric)}
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      >
+                        {(Object.keys(READINESS_METRIC_LABELS) as ReadinessMetric[]).map((metric) => (
+                          <option key={metric} value={metric}>
+                            {READINESS_METRIC_LABELS[metric]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      Must be
+                      <select
+                        value={rule.comparator}
+                        onChange={(event) =>
+                          updateReadinessRule(rule.id, "comparator", event.target.value as ReadinessComparator)
+                        }
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      >
+                        {(Object.keys(READINESS_COMPARATOR_LABELS) as ReadinessComparator[]).map((comparator) => (
+                          <option key={comparator} value={comparator}>
+                            {READINESS_COMPARATOR_LABELS[comparator]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      {rule.comparator === "between" ? "From" : "Threshold"}
+                      <input
+                        value={rule.threshold}
+                        onChange={(event) => updateReadinessRule(rule.id, "threshold", event.target.value)}
+                        inputMode="decimal"
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      />
+                    </label>
+                    {rule.comparator === "between" ? (
+                      <label>
+                        To
+                        <input
+                          value={rule.upperThreshold}
+                          onChange={(event) => updateReadinessRule(rule.id, "upperThreshold", event.target.value)}
+                          inputMode="decimal"
+                          className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                        />
+                      </label>
+                    ) : (
+                      <div />
+                    )}
+                    <label>
+                      Weight (points)
+                      <input
+                        value={rule.weight}
+                        onChange={(event) => updateReadinessRule(rule.id, "weight", event.target.value)}
+                        inputMode="decimal"
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      />
+                    </label>
+                  </div>
+                  <div className="mt-3 grid gap-3 text-xs text-slate-600 dark:text-slate-300 md:grid-cols-6">
+                    <label className="md:col-span-3">
+                      Label (optional)
+                      <input
+                        value={rule.label}
+                        onChange={(event) => updateReadinessRule(rule.id, "label", event.target.value)}
+                        placeholder="e.g. Cover two full weeks"
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      />
+                    </label>
+                    <label className="md:col-span-2">
+                      Severity
+                      <select
+                        value={rule.severity}
+                        onChange={(event) =>
+                          updateReadinessRule(rule.id, "severity", event.target.value as ReadinessSeverity)
+                        }
+                        className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                      >
+                        {(Object.keys(READINESS_SEVERITY_LABELS) as ReadinessSeverity[]).map((severity) => (
+                          <option key={severity} value={severity}>
+                            {READINESS_SEVERITY_LABELS[severity]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="flex items-end">
+                      <button
+                        type="button"
+                        onClick={() => removeReadinessRule(rule.id)}
+                        className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                  {ruleError ? (
+                    <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">
+                      {ruleError} This rule is skipped until it is fixed.
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-5 flex flex-wrap items-end gap-3 text-xs text-slate-600 dark:text-slate-300">
+            <label>
+              Ready at score
+              <input
+                value={readinessConfig.readyAt}
+                onChange={(event) => setReadinessConfig((current) => ({ ...current, readyAt: event.target.value }))}
+                inputMode="decimal"
+                className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            </label>
+            <label>
+              Needs Review at score
+              <input
+                value={readinessConfig.reviewAt}
+                onChange={(event) => setReadinessConfig((current) => ({ ...current, reviewAt: event.target.value }))}
+                inputMode="decimal"
+                className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={addReadinessRule}
+              disabled={readinessConfig.rules.length >= MAX_READINESS_RULES}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              Add Rule
+            </button>
+            <button
+              type="button"
+              onClick={() => setReadinessConfig(DEFAULT_READINESS_CONFIG)}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+            >
+              Reset to Defaults
+            </button>
+          </div>
+          {validateReadinessCutoffs(readinessConfig) ? (
+            <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">
+              {validateReadinessCutoffs(readinessConfig)} The default cutoffs (85 and 65) apply until this is fixed.
+            </p>
+          ) : null}
+        </section>
+
         <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
           <h2 className="text-xl font-semibold">Scenario Library</h2>
           <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
-            Save assumptions you use often and reload them instantly for faster planning.
+            Save assumptions you use often and reload them instantly for faster planning. Scenarios are stored on the
+            server, so the whole team sees the same library, and each one has a short link to share.
           </p>
 
           {scenarios.length === 0 ? (
@@ -1184,13 +3297,33 @@ export default function Home() {
                 <div key={scenario.id} className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
                   <div className="flex flex-wrap items-center justify-between gap-3">
                     <div>
-                      <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">{scenario.name}</p>
+                      <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                        {scenario.name}{" "}
+                        <span className="font-mono text-xs font-normal text-slate-500 dark:text-slate-400">
+                          /s/{scenario.id}
+                        </span>
+                      </p>
                       <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                        Baseline {scenario.values.baselineRate}% | Uplift {scenario.values.minDetectableUplift}% |
+                        {scenario.values.metricType === "continuous"
+                          ? `Average ${scenario.values.baselineMean} (SD ${scenario.values.standardDeviation})`
+                          : `Baseline ${scenario.values.baselineRate}%`}{" "}
+                        | Uplift {scenario.values.minDetectableUplift}% |
                         Power {scenario.values.power}% | Traffic B {scenario.values.variantTraffic}%
+                        {scenario.values.extraVariants.length > 0
+                          ? ` | +${scenario.values.extraVariants.length} more variant(s)`
+                          : ""}
                       </p>
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={comparedIds.includes(scenario.id)}
+                          onChange={() => toggleComparedScenario(scenario.id)}
+                          className="h-4 w-4"
+                        />
+                        Compare
+                      </label>
                       <button
                         type="button"
                         onClick={() => loadScenario(scenario)}
@@ -1198,6 +3331,20 @@ export default function Home() {
                       >
                         Load
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => overwriteScenario(scenario)}
+                        className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+                      >
+                        Update
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => copyScenarioLink(scenario)}
+                        className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+                      >
+                        Copy Link
+                      </button>
                       <button
                         type="button"
                         onClick={() => deleteScenario(scenario.id)}
@@ -1211,12 +3358,253 @@ export default function Home() {
               ))}
             </div>
           )}
+
+          {scenarios.length >= 2 ? (
+            <div className="mt-6 rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">Compare Scenarios</p>
+                <TooltipHelp text="Each scenario is planned the same way as the form. Deltas are against the first scenario you ticked; highlighted inputs differ between scenarios." />
+              </div>
+              {comparison ? (
+                <div className="mt-3 overflow-x-auto">
+                  <table className="w-full text-left text-xs text-slate-600 dark:text-slate-300">
+                    <thead>
+                      <tr className="text-slate-500 dark:text-slate-400">
+                        <th className="py-1 pr-4 font-medium">Input</th>
+                        {comparison.columns.map((column, index) => (
+                          <th key={comparedIds[index]} className="py-1 pr-4 font-semibold text-slate-900 dark:text-slate-100">
+                            {column.name}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.inputs.map((row) => (
+                        <tr
+                          key={row.label}
+                          className={`border-t border-slate-100 dark:border-slate-800 ${
+                            row.differs ? "bg-amber-50 dark:bg-amber-900/20" : ""
+                          }`}
+                        >
+                          <td className="py-1 pr-4 font-medium">{row.label}</td>
+                          {row.values.map((value, index) => (
+                            <td
+                              key={comparedIds[index]}
+                              className={`py-1 pr-4 ${row.differs ? "font-semibold text-amber-800 dark:text-amber-200" : ""}`}
+                            >
+                              {value}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="border-t-2 border-slate-200 text-slate-500 dark:border-slate-700 dark:text-slate-400">
+                        <th className="pt-3 pb-1 pr-4 font-medium" colSpan={comparison.columns.length + 1}>
+                          Plan
+                        </th>
+                      </tr>
+                      {comparisonMetrics.map((metric) => {
+                        const base = comparison.columns[0].plan ? metric.read(comparison.columns[0].plan) : null;
+                        return (
+                          <tr key={metric.label} className="border-t border-slate-100 dark:border-slate-800">
+                            <td className="py-1 pr-4 font-medium">{metric.label}</td>
+                            {comparison.columns.map((column, index) => {
+                              const value = column.plan ? metric.read(column.plan) : null;
+                              return (
+                                <td key={comparedIds[index]} className="py-1 pr-4">
+                                  {column.plan === null ? (
+                                    <span className="text-rose-700 dark:text-rose-300">{column.error}</span>
+                                  ) : value === null ? (
+                                    <span title={column.plan.mde.message}>n/a</span>
+                                  ) : (
+                                    <>
+                                      <span className="font-semibold text-slate-900 dark:text-slate-100">
+                                        {metric.format(value)}
+                                      </span>
+                                      {index > 0 && base !== null ? (
+                                        <span className="ml-1 text-slate-500 dark:text-slate-400">
+                                          ({metric.delta(value, base)})
+                                        </span>
+                                      ) : null}
+                                    </>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                  Tick Compare on two to {MAX_COMPARED_SCENARIOS} scenarios to see them side by side.
+                </p>
+              )}
+            </div>
+          ) : null}
+        </section>
+
+        <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
+          <h2 className="text-xl font-semibold">Experiment Portfolio</h2>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Schedule saved scenarios against one shared pool of daily users. Each test gets a share of the pool, and its
+            duration is worked out again from the users that share brings in.
+          </p>
+
+          <div className="mt-5 grid gap-4 md:grid-cols-2">
+            <InputField
+              id="portfolioPoolDailyUsers"
+              label="Shared daily eligible users"
+              tooltip="Users a day that all the tests in the portfolio draw from, e.g. the lobby traffic."
+              value={portfolio.poolDailyUsers}
+              error={portfolioErrors?.poolDailyUsers}
+              onChange={(value) => setPortfolio({ ...portfolio, poolDailyUsers: value })}
+            />
+            <InputField
+              id="portfolioStartDate"
+              label="Portfolio start date"
+              tooltip="First day of the calendar. Tests without their own start date begin here. Leave blank to start today."
+              value={portfolio.startDate}
+              error={portfolioErrors?.startDate}
+              type="date"
+              onChange={(value) => setPortfolio({ ...portfolio, startDate: value })}
+            />
+          </div>
+
+          {scenarios.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">Save scenarios to book them into the portfolio.</p>
+          ) : (
+            <div className="mt-5 space-y-2">
+              {scenarios.map((scenario) => {
+                const booking = portfolio.tests.find((test) => test.scenarioId === scenario.id);
+                return (
+                  <div
+                    key={scenario.id}
+                    className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-3 dark:border-slate-700 dark:bg-slate-900"
+                  >
+                    <label className="flex w-56 items-center gap-2 pb-1 text-sm font-semibold text-slate-900 dark:text-slate-100">
+                      <input
+                        type="checkbox"
+                        checked={booking !== undefined}
+                        onChange={() => togglePortfolioScenario(scenario.id)}
+                        className="h-4 w-4"
+                      />
+                      <span className="truncate">{scenario.name}</span>
+                    </label>
+                    {booking ? (
+                      <>
+                        <label className="text-xs text-slate-600 dark:text-slate-300">
+                          <span>Share of pool (%)</span>
+                          <input
+                            value={booking.share}
+                            onChange={(event) => updatePortfolioTest(scenario.id, "share", event.target.value)}
+                            inputMode="decimal"
+                            className="mt-1 w-28 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                        <label className="text-xs text-slate-600 dark:text-slate-300">
+                          <span>Start date</span>
+                          <input
+                            type="date"
+                            value={booking.startDate}
+                            onChange={(event) => updatePortfolioTest(scenario.id, "startDate", event.target.value)}
+                            className="mt-1 w-40 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                          />
+                        </label>
+                      </>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={suggestPortfolioPacking}
+              disabled={portfolio.tests.length === 0}
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              Suggest Packing
+            </button>
+            {portfolioStatus ? <p className="text-sm text-slate-600 dark:text-slate-300">{portfolioStatus}</p> : null}
+          </div>
+
+          {portfolioSchedule && (portfolioSchedule.tests.length > 0 || portfolioSchedule.skipped.length > 0) ? (
+            <div className="mt-5 rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">Timeline</p>
+                {portfolioSchedule.tests.length > 0 ? (
+                  <p className="text-xs text-slate-600 dark:text-slate-300">
+                    {formatIsoDate(portfolioSchedule.startDate)} to {formatIsoDate(portfolioSchedule.finishDate)} (
+                    {portfolioSchedule.totalDays} days)
+                  </p>
+                ) : null}
+              </div>
+              {portfolioSchedule.overbookedDays > 0 ? (
+                <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">
+                  More than 100% of the pool is booked on {portfolioSchedule.overbookedDays} day(s). Lower the shares,
+                  move a start date or use Suggest Packing.
+                </p>
+              ) : null}
+
+              <div className="mt-3 space-y-2">
+                {portfolioSchedule.tests.map((test) => (
+                  <div key={test.scenarioId} className="flex items-center gap-3 text-xs text-slate-600 dark:text-slate-300">
+                    <span className="w-40 shrink-0 truncate font-semibold text-slate-900 dark:text-slate-100">{test.name}</span>
+                    <div className="relative h-6 flex-1 rounded bg-slate-100 dark:bg-slate-800">
+                      <div
+                        className="absolute inset-y-0 flex items-center overflow-hidden rounded bg-sky-500 px-1.5 text-[11px] font-semibold whitespace-nowrap text-white"
+                        style={{
+                          left: `${(test.startOffset / portfolioSchedule.totalDays) * 100}%`,
+                          width: `${(test.durationDays / portfolioSchedule.totalDays) * 100}%`,
+                        }}
+                        title={`${test.startDate} to ${test.endDate}: ${test.durationDays} days at ${test.share}% of the pool (${formatNumber(Math.round(test.dailyUsers))} users/day)`}
+                      >
+                        {test.share}%
+                      </div>
+                    </div>
+                    <span className="w-52 shrink-0 text-right">
+                      {test.startDate} to {test.endDate} ({test.durationDays}d)
+                    </span>
+                  </div>
+                ))}
+                {portfolioSchedule.totalDays > 0 ? (
+                  <div className="flex items-center gap-3 text-xs text-slate-600 dark:text-slate-300">
+                    <span className="w-40 shrink-0 font-semibold">Pool booked</span>
+                    <div className="flex h-6 flex-1 items-end gap-px rounded bg-slate-100 dark:bg-slate-800">
+                      {portfolioSchedule.allocation.map((share, day) => (
+                        <div
+                          key={day}
+                          className={`flex-1 ${share > 100 ? "bg-rose-500" : "bg-emerald-500"}`}
+                          style={{ height: `${Math.min(100, share)}%` }}
+                          title={`Day ${day + 1}: ${Number(share.toFixed(1))}% booked`}
+                        />
+                      ))}
+                    </div>
+                    <span className="w-52 shrink-0 text-right">
+                      Peak {Number(Math.max(...portfolioSchedule.allocation).toFixed(1))}%
+                    </span>
+                  </div>
+                ) : null}
+              </div>
+
+              {portfolioSchedule.skipped.map((test) => (
+                <p key={test.scenarioId} className="mt-2 text-xs text-rose-700 dark:text-rose-300">
+                  {test.name}: {test.error}
+                </p>
+              ))}
+            </div>
+          ) : null}
         </section>
 
         <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
           <h2 className="text-xl font-semibold">Feature Toggle Management</h2>
           <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
-            Track launch flags, quickly adjust rollout percentage, and control whether each feature is live.
+            Track launch flags, quickly adjust rollout percentage, and control whether each feature is live. Export
+            the toggles to a flag provider&apos;s format or load an existing flag file.
           </p>
 
           <form className="mt-5 grid gap-3 md:grid-cols-3" onSubmit={addToggle}>
@@ -1246,6 +3634,46 @@ export default function Home() {
           </form>
           {toggleError ? <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{toggleError}</p> : null}
 
+          <div className="mt-5 flex flex-wrap items-center gap-3">
+            <select
+              aria-label="Flag file format"
+              value={flagFormat}
+              onChange={(event) => setFlagFormat(event.target.value as FlagFormat)}
+              className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+            >
+              {(Object.keys(FLAG_FORMAT_LABELS) as FlagFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {FLAG_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={exportFlagFile}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              Export Flags
+            </button>
+            <label className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700">
+              Import Flags
+              <input type="file" accept="application/json,.json" onChange={importFlagFile} className="sr-only" />
+            </label>
+            {(["merge", "replace"] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-200">
+                <input
+                  type="radio"
+                  name="flag-import-mode"
+                  checked={flagImportMode === mode}
+                  onChange={() => setFlagImportMode(mode)}
+                  className="h-4 w-4"
+                />
+                {mode === "merge" ? "Merge" : "Replace"}
+              </label>
+            ))}
+          </div>
+          {flagStatus ? <p className="mt-3 text-xs text-slate-600 dark:text-slate-300">{flagStatus}</p> : null}
+          {flagReport ? <ImportReportTable report={flagReport} /> : null}
+
           <div className="mt-6 space-y-3">
             {toggles.map((toggle) => (
               <div key={toggle.id} className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
@@ -1257,6 +3685,11 @@ export default function Home() {
                     ) : (
                       <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">No description</p>
                     )}
+                    {toggle.id === values.linkedToggle ? (
+                      <p className="mt-1 text-xs font-semibold text-emerald-700 dark:text-emerald-300">
+                        Linked to the current plan: its rollout is B&apos;s traffic.
+                      </p>
+                    ) : null}
                   </div>
                   <button
                     type="button"
@@ -1297,22 +3730,372 @@ export default function Home() {
               </div>
             ))}
           </div>
+
+          <div className="mt-8 border-t border-slate-200 pt-6 dark:border-slate-700">
+            <h3 className="text-lg font-semibold">Bucketing Simulator</h3>
+            <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+              Check that hash-based assignment gives a toggle its rollout. Each user ID is hashed as salt:userId and
+              lands in one of 10,000 buckets; the toggle reaches buckets below its rollout. Other enabled toggles
+              are bucketed with their ID as the salt to measure shared traffic.
+            </p>
+
+            <div className="mt-4 grid gap-3 md:grid-cols-3">
+              <select
+                aria-label="Toggle to simulate"
+                value={bucketingToggleId || toggles[0]?.id || ""}
+                onChange={(event) => setBucketingToggleId(event.target.value)}
+                className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              >
+                {toggles.map((toggle) => (
+                  <option key={toggle.id} value={toggle.id}>
+                    {toggle.name} ({toggle.rollout}%)
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Hashing scheme"
+                value={bucketingScheme}
+                onChange={(event) => setBucketingScheme(event.target.value as BucketingScheme)}
+                className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              >
+                {(Object.keys(BUCKETING_SCHEME_LABELS) as BucketingScheme[]).map((scheme) => (
+                  <option key={scheme} value={scheme}>
+                    {BUCKETING_SCHEME_LABELS[scheme]}
+                  </option>
+                ))}
+              </select>
+              <input
+                aria-label="Salt"
+                value={bucketingSalt}
+                onChange={(event) => setBucketingSalt(event.target.value)}
+                placeholder={`Salt (default: ${bucketingToggleId || toggles[0]?.id || "toggle ID"})`}
+                className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            </div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-200">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="bucketing-source"
+                  checked={bucketingSource === "generate"}
+                  onChange={() => setBucketingSource("generate")}
+                />
+                Generate
+                <input
+                  aria-label="Number of generated user IDs"
+                  value={generatedUserCount}
+                  onChange={(event) => setGeneratedUserCount(event.target.value)}
+                  inputMode="numeric"
+                  className="w-24 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+                />
+                IDs (user-1, user-2, ...)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="bucketing-source"
+                  checked={bucketingSource === "paste"}
+                  onChange={() => setBucketingSource("paste")}
+                />
+                Paste user IDs
+              </label>
+            </div>
+            {bucketingSource === "paste" ? (
+              <textarea
+                aria-label="User IDs"
+                value={pastedUserIds}
+                onChange={(event) => setPastedUserIds(event.target.value)}
+                rows={5}
+                placeholder="One ID per line, or separated by commas"
+                className="mt-3 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-xs outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+              />
+            ) : null}
+
+            <button
+              type="button"
+              onClick={runBucketingSimulation}
+              disabled={toggles.length === 0}
+              className="mt-3 rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              Run Simulation
+            </button>
+            {bucketingError ? <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{bucketingError}</p> : null}
+
+            {bucketingRun ? (
+              <div className="mt-4 space-y-4 rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                <p className="text-sm text-slate-700 dark:text-slate-200">
+                  <span className="font-semibold">{bucketingRun.toggle.name}</span> with{" "}
+                  {BUCKETING_SCHEME_LABELS[bucketingRun.scheme]}, salt &quot;{bucketingRun.salt}&quot;: reaches{" "}
+                  {formatNumber(bucketingRun.simulation.inRollout)} of{" "}
+                  {formatNumber(bucketingRun.simulation.users)} users
+                  ({formatShare(bucketingRun.simulation.observedShare)} vs. {bucketingRun.toggle.rollout}% configured).
+                </p>
+
+                {bucketingRun.simulation.rolloutCheck.status === "mismatch" ? (
+                  <p className="text-xs font-semibold text-rose-700 dark:text-rose-300">
+                    Rollout mismatch: the assignment does not give the configured share (p ={" "}
+                    {formatPValue(bucketingRun.simulation.rolloutCheck.pValue)}, threshold {BUCKETING_ALPHA}).
+                  </p>
+                ) : bucketingRun.simulation.rolloutCheck.status === "ok" ? (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Rollout check passed (p = {formatPValue(bucketingRun.simulation.rolloutCheck.pValue)}): the share
+                    reached matches the configured rollout.
+                  </p>
+                ) : (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Too few users for a rollout check; at least 5 are needed on each side of the rollout.
+                  </p>
+                )}
+
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">Bucket Distribution</p>
+                  <div className="mt-2 space-y-1">
+                    {bucketingRun.simulation.deciles.map((count, index) => {
+                      const share = bucketingRun.simulation.users > 0 ? count / bucketingRun.simulation.users : 0;
+                      const reached = index * 10 < bucketingRun.toggle.rollout;
+                      return (
+                        <div key={index} className="flex items-center gap-3 text-xs text-slate-600 dark:text-slate-300">
+                          <span className="w-20 shrink-0">
+                            {index * 10}-{index * 10 + 10}%
+                          </span>
+                          <div className="h-3 flex-1 rounded bg-slate-100 dark:bg-slate-800">
+                            <div
+                              className={`h-3 rounded ${reached ? "bg-emerald-500" : "bg-slate-400 dark:bg-slate-500"}`}
+                              style={{ width: `${Math.min(100, share * 500)}%` }}
+                            />
+                          </div>
+                          <span className="w-28 shrink-0 text-right">
+                            {formatNumber(count)} ({formatShare(share)})
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    Green slices are at least partly inside the rollout. Each should hold about 10% of users.{" "}
+                    {bucketingRun.simulation.uniformityCheck.status === "insufficient"
+                      ? "Too few users to test the spread."
+                      : bucketingRun.simulation.uniformityCheck.status === "mismatch"
+                        ? `The spread is uneven (p = ${formatPValue(bucketingRun.simulation.uniformityCheck.pValue)}).`
+                        : `The spread looks even (p = ${formatPValue(bucketingRun.simulation.uniformityCheck.pValue)}).`}
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                    Overlap With Enabled Toggles
+                  </p>
+                  {bucketingRun.simulation.overlaps.length > 0 ? (
+                    <ul className="mt-2 space-y-1 text-xs text-slate-600 dark:text-slate-300">
+                      {bucketingRun.simulation.overlaps.map((overlap) => (
+                        <li key={overlap.toggleId}>
+                          {overlap.name} ({overlap.rollout}%): {formatNumber(overlap.sharedUsers)} shared user(s),{" "}
+                          {formatNumber(Math.round(overlap.expectedSharedUsers))} expected if independent
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">No other toggle is enabled.</p>
+                  )}
+                </div>
+              </div>
+            ) : null}
+          </div>
+        </section>
+
+        <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
+          <h2 className="text-xl font-semibold">Brief Templates</h2>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Lay out the experiment brief your own way. Templates use headings (#), bullets (-) and **bold**, and
+            every format is rendered from the same template. Placeholders such as {"{{baselineRate}}"} are filled
+            in from the current plan.
+          </p>
+
+          <div className="mt-5 flex flex-wrap items-center gap-3">
+            <select
+              aria-label="Template to edit"
+              value={briefTemplate.id}
+              onChange={(event) => setBriefTemplateId(event.target.value)}
+              className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+            >
+              {[STANDARD_BRIEF_TEMPLATE, ...briefTemplates].map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addBriefTemplate}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              New Template from This One
+            </button>
+            {briefTemplate.id !== STANDARD_BRIEF_TEMPLATE.id ? (
+              <button
+                type="button"
+                onClick={() => removeBriefTemplate(briefTemplate.id)}
+                className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+
+          {briefTemplate.id === STANDARD_BRIEF_TEMPLATE.id ? (
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+              The standard brief is built in. Create a new template from it to make changes.
+            </p>
+          ) : (
+            <input
+              aria-label="Template name"
+              value={briefTemplate.name}
+              onChange={(event) => updateBriefTemplate("name", event.target.value)}
+              onBlur={(event) => {
+                if (!event.target.value.trim()) {
+                  updateBriefTemplate("name", "Untitled template");
+                }
+              }}
+              className="mt-3 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+            />
+          )}
+          <textarea
+            aria-label="Template body"
+            value={briefTemplate.body}
+            readOnly={briefTemplate.id === STANDARD_BRIEF_TEMPLATE.id}
+            onChange={(event) => updateBriefTemplate("body", event.target.value)}
+            rows={14}
+            spellCheck={false}
+            className="mt-3 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-xs outline-none focus:border-slate-500 read-only:bg-slate-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500 dark:read-only:bg-slate-800"
+          />
+          {unknownPlaceholders.length > 0 ? (
+            <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+              Unknown placeholder(s) left as typed:{" "}
+              {unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}
+            </p>
+          ) : null}
+
+          <details className="mt-3 text-xs text-slate-600 dark:text-slate-300">
+            <summary className="cursor-pointer font-semibold text-slate-700 dark:text-slate-200">
+              Available placeholders
+            </summary>
+            <p className="mt-2">
+              List placeholders on a line of their own become bullets; inside a sentence they become a
+              &quot;;&quot;-separated list.
+            </p>
+            <table className="mt-2 w-full text-left">
+              <tbody>
+                {BRIEF_PLACEHOLDERS.map((placeholder) => (
+                  <tr key={placeholder.name} className="border-t border-slate-100 dark:border-slate-800">
+                    <td className="py-1 pr-3 font-mono text-slate-900 dark:text-slate-100">
+                      {`{{${placeholder.name}}}`}
+                    </td>
+                    <td className="py-1 pr-3 text-slate-500 dark:text-slate-400">{placeholder.group}</td>
+                    <td className="py-1">{placeholder.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </section>
+
+        <section className="mt-10 rounded-2xl border border-slate-200 bg-slate-50 p-6 dark:border-slate-700 dark:bg-slate-800/50">
+          <h2 className="text-xl font-semibold">Workspace Backup</h2>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Export scenarios, feature toggles, brief templates, readiness rules, tracker counts and theme as one
+            versioned JSON file, or import one.
+            Merge adds what is new and keeps your copy when both sides changed; Replace makes the workspace match
+            the file.
+          </p>
+
+          <div className="mt-5 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={exportWorkspace}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300"
+            >
+              Export Workspace
+            </button>
+            <label className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700">
+              Import Workspace
+              <input type="file" accept="application/json,.json" onChange={importWorkspace} className="sr-only" />
+            </label>
+            {(["merge", "replace"] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-200">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={importMode === mode}
+                  onChange={() => setImportMode(mode)}
+                  className="h-4 w-4"
+                />
+                {mode === "merge" ? "Merge" : "Replace"}
+              </label>
+            ))}
+          </div>
+
+          {workspaceStatus ? (
+            <p className="mt-3 text-xs text-slate-600 dark:text-slate-300">{workspaceStatus}</p>
+          ) : null}
+
+          {importReport ? <ImportReportTable report={importReport} /> : null}
         </section>
       </main>
     </div>
   );
 }
 
+// Lists what an import changed; items that were already up to date are left out.
+function ImportReportTable({ report }: { report: ImportReportEntry[] }) {
+  if (!report.some((entry) => entry.outcome !== "unchanged")) {
+    return null;
+  }
+
+  return (
+    <table className="mt-3 w-full text-left text-xs text-slate-600 dark:text-slate-300">
+      <thead>
+        <tr className="text-slate-500 dark:text-slate-400">
+          <th className="py-1 font-medium">Item</th>
+          <th className="py-1 font-medium">Type</th>
+          <th className="py-1 font-medium">Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report
+          .filter((entry) => entry.outcome !== "unchanged")
+          .map((entry, index) => (
+            <tr key={`${entry.kind}-${index}`} className="border-t border-slate-100 dark:border-slate-800">
+              <td className="py-1 font-semibold text-slate-900 dark:text-slate-100">{entry.name}</td>
+              <td className="py-1">{entry.kind}</td>
+              <td
+                className={`py-1 ${
+                  entry.outcome === "conflict" || entry.outcome === "invalid"
+                    ? "text-amber-700 dark:text-amber-300"
+                    : ""
+                }`}
+              >
+                {entry.detail}
+              </td>
+            </tr>
+          ))}
+      </tbody>
+    </table>
+  );
+}
+
 type InputFieldProps = {
   id: string;
   label: string;
   tooltip: string;
   value: string;
   error?: string;
+  type?: "text" | "date";
+  disabled?: boolean;
   onChange: (value: string) => void;
 };
 
-function InputField({ id, label, tooltip, value, error, onChange }: InputFieldProps) {
+function InputField({ id, label, tooltip, value, error, type = "text", disabled = false, onChange }: InputFieldProps) {
   return (
     <div>
       <div className="mb-1 flex items-center gap-2">
@@ -1325,18 +4108,54 @@ function InputField({ id, label, tooltip, value, error, onChange }: InputFieldPr
         id={id}
         value={value}
         onChange={(event) => onChange(event.target.value)}
-        className={`w-full rounded-xl border px-3 py-2 text-sm outline-none transition ${
+        disabled={disabled}
+        className={`w-full rounded-xl border px-3 py-2 text-sm outline-none transition disabled:cursor-not-allowed disabled:opacity-60 ${
           error
             ? "border-rose-500 bg-rose-50 dark:border-rose-700 dark:bg-rose-950/40 dark:text-rose-200"
             : "border-slate-300 bg-white focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
         }`}
-        inputMode="decimal"
+        type={type}
+        inputMode={type === "date" ? undefined : "decimal"}
       />
       {error ? <p className="mt-1 text-xs text-rose-700 dark:text-rose-300">{error}</p> : null}
     </div>
   );
 }
 
+type SelectFieldProps<T extends string> = {
+  id: string;
+  label: string;
+  tooltip: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+};
+
+function SelectField<T extends string>({ id, label, tooltip, value, options, onChange }: SelectFieldProps<T>) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center gap-2">
+        <label htmlFor={id} className="block text-sm font-medium text-slate-700 dark:text-slate-200">
+          {label}
+        </label>
+        <TooltipHelp text={tooltip} />
+      </div>
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(event.target.value as T)}
+        className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm outline-none transition focus:border-slate-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:focus:border-slate-500"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 type ResultCardProps = {
   label: string;
   value: string;
@@ -1355,6 +4174,136 @@ function ResultCard({ label, value, tooltip }: ResultCardProps) {
   );
 }
 
+type CurveChartProps = {
+  title: string;
+  tooltip: string;
+  points: CurvePoint[];
+  marker: CurvePoint | null;
+  yMax?: number;
+  formatX: (value: number) => string;
+  formatY: (value: number) => string;
+};
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 12, right: 16, bottom: 28, left: 56 };
+const CHART_TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+function CurveChart({ title, tooltip, points, marker, yMax, formatX, formatY }: CurveChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const xMax = Math.max(1, ...points.map((point) => point.x), marker?.x ?? 0);
+  const yTop = yMax ?? Math.max(1, ...points.map((point) => point.y), marker?.y ?? 0);
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const toX = (value: number) => CHART_PADDING.left + (value / xMax) * plotWidth;
+  const toY = (value: number) => CHART_PADDING.top + (1 - value / yTop) * plotHeight;
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+  const readout = hovered ?? marker;
+
+  function handleMouseMove(event: MouseEvent<SVGSVGElement>) {
+    if (points.length === 0) {
+      return;
+    }
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const chartX = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH;
+    const value = ((chartX - CHART_PADDING.left) / plotWidth) * xMax;
+    let nearest = 0;
+    points.forEach((point, index) => {
+      if (Math.abs(point.x - value) < Math.abs(points[nearest].x - value)) {
+        nearest = index;
+      }
+    });
+    setHoverIndex(nearest);
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex items-center gap-2">
+        <p className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">{title}</p>
+        <TooltipHelp text={tooltip} />
+      </div>
+      {points.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-600 dark:text-slate-300">
+          Not enough traffic to plot this curve for the current inputs.
+        </p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="mt-3 w-full"
+          role="img"
+          aria-label={title}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {CHART_TICKS.map((tick) => (
+            <g key={tick}>
+              <line
+                x1={CHART_PADDING.left}
+                x2={CHART_WIDTH - CHART_PADDING.right}
+                y1={toY(tick * yTop)}
+                y2={toY(tick * yTop)}
+                className="stroke-slate-200 dark:stroke-slate-700"
+              />
+              <text
+                x={CHART_PADDING.left - 6}
+                y={toY(tick * yTop) + 4}
+                textAnchor="end"
+                className="fill-slate-500 text-[10px] dark:fill-slate-400"
+              >
+                {formatY(Number((tick * yTop).toFixed(2)))}
+              </text>
+              <text
+                x={toX(tick * xMax)}
+                y={CHART_HEIGHT - 8}
+                textAnchor={tick === 0 ? "start" : tick === 1 ? "end" : "middle"}
+                className="fill-slate-500 text-[10px] dark:fill-slate-400"
+              >
+                {formatNumber(Math.round(tick * xMax))}
+              </text>
+            </g>
+          ))}
+          <polyline
+            points={points.map((point) => `${toX(point.x)},${toY(point.y)}`).join(" ")}
+            fill="none"
+            strokeWidth={2}
+            className="stroke-sky-600 dark:stroke-sky-400"
+          />
+          {marker ? (
+            <circle
+              cx={toX(marker.x)}
+              cy={toY(marker.y)}
+              r={5}
+              className="fill-amber-500 stroke-white dark:stroke-slate-900"
+              strokeWidth={2}
+            />
+          ) : null}
+          {hovered ? (
+            <>
+              <line
+                x1={toX(hovered.x)}
+                x2={toX(hovered.x)}
+                y1={CHART_PADDING.top}
+                y2={CHART_HEIGHT - CHART_PADDING.bottom}
+                strokeDasharray="4 3"
+                className="stroke-slate-400 dark:stroke-slate-500"
+              />
+              <circle cx={toX(hovered.x)} cy={toY(hovered.y)} r={4} className="fill-sky-600 dark:fill-sky-400" />
+            </>
+          ) : null}
+        </svg>
+      )}
+      {readout ? (
+        <p className="mt-2 text-xs text-slate-600 dark:text-slate-300">
+          {hovered ? "At" : "Current plan:"} {formatX(readout.x)}:{" "}
+          <span className="font-semibold text-slate-900 dark:text-slate-100">{formatY(readout.y)}</span>
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
 type TooltipHelpProps = {
   text: string;
 };
@@ -0,0 +1,15 @@
+import { notFound, redirect } from "next/navigation";
+
+import { valuesToQueryString } from "@/lib/planner";
+import { getScenario } from "@/lib/scenario-store";
+
+// Short scenario links open the planner with the stored inputs, the same way a share link does.
+export default async function ScenarioLinkPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const scenario = await getScenario(id);
+  if (!scenario) {
+    notFound();
+  }
+
+  redirect(`/?${valuesToQueryString(scenario.values)}`);
+}
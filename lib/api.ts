@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { ScenarioStoreError } from "@/lib/scenario-store";
+
+export type ApiError = {
+  error: string;
+  message: string;
+};
+
+export function errorResponse<T extends ApiError>(status: number, body: T): NextResponse<T> {
+  return NextResponse.json(body, { status });
+}
+
+// Route handlers only accept JSON objects; anything else (bad JSON, arrays, null) reads as null.
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Scenario routes answer an unreadable store with a 500 that says so; anything else is a real bug and
+// is rethrown.
+export function scenarioStoreErrorResponse(error: unknown): NextResponse<ApiError> {
+  if (error instanceof ScenarioStoreError) {
+    return errorResponse(500, { error: "store_unreadable", message: error.message });
+  }
+  throw error;
+}
@@ -0,0 +1,192 @@
+import { inverseNormalCdf, normalCdf, normalPdf } from "@/lib/statistics";
+
+export type BayesianSimulationRequest = {
+  baselineRate: number;
+  variantRate: number;
+  priorAlpha: number;
+  priorBeta: number;
+  threshold: number;
+  targetShare: number;
+  seed: number;
+  simulations: number;
+};
+
+export type BayesianOutcome = {
+  sampleSizePerGroup: number;
+  assurance: number;
+  reachedTarget: boolean;
+  meanProbabilityBeatsControl: number;
+  meanExpectedLoss: number;
+  priorAlpha: number;
+  priorBeta: number;
+  threshold: number;
+  targetShare: number;
+  seed: number;
+  simulations: number;
+};
+
+export type PosteriorComparison = {
+  probabilityBeatsControl: number;
+  expectedLoss: number;
+};
+
+type SimulationSummary = {
+  assurance: number;
+  meanProbabilityBeatsControl: number;
+  meanExpectedLoss: number;
+};
+
+export const BAYESIAN_SIMULATIONS = 4000;
+const MAX_SAMPLE_PER_GROUP = 50_000_000;
+
+// mulberry32: small, fast and good enough for planning simulations. Same seed, same plan.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Inverse-CDF binomial draw. Exact for small expected counts, normal approximation otherwise.
+// Using a fixed uniform per simulated test keeps outcomes comparable across sample sizes.
+function binomialQuantile(trials: number, probability: number, uniform: number): number {
+  if (probability > 0.5) {
+    return trials - binomialQuantile(trials, 1 - probability, 1 - uniform);
+  }
+
+  const variance = trials * probability * (1 - probability);
+  if (variance >= 25) {
+    const draw = Math.round(trials * probability + Math.sqrt(variance) * inverseNormalCdf(uniform));
+    return Math.max(0, Math.min(trials, draw));
+  }
+
+  const ratio = probability / (1 - probability);
+  let pmf = Math.pow(1 - probability, trials);
+  let cdf = pmf;
+  let successes = 0;
+  while (cdf < uniform && successes < trials) {
+    pmf *= ((trials - successes) / (successes + 1)) * ratio;
+    successes += 1;
+    cdf += pmf;
+  }
+  return successes;
+}
+
+function betaMoments(alpha: number, beta: number): { mean: number; variance: number } {
+  const total = alpha + beta;
+  return {
+    mean: alpha / total,
+    variance: (alpha * beta) / (total * total * (total + 1)),
+  };
+}
+
+// Normal approximation of the two Beta posteriors: P(B > A) and the expected loss of shipping B,
+// E[max(A - B, 0)].
+export function comparePosteriors(
+  priorAlpha: number,
+  priorBeta: number,
+  controlUsers: number,
+  controlConversions: number,
+  variantUsers: number,
+  variantConversions: number,
+): PosteriorComparison {
+  const control = betaMoments(priorAlpha + controlConversions, priorBeta + controlUsers - controlConversions);
+  const variant = betaMoments(priorAlpha + variantConversions, priorBeta + variantUsers - variantConversions);
+  const diff = variant.mean - control.mean;
+  const spread = Math.sqrt(control.variance + variant.variance);
+  const probabilityBeatsControl = normalCdf(diff / spread);
+
+  return {
+    probabilityBeatsControl,
+    expectedLoss: spread * normalPdf(diff / spread) - diff * (1 - probabilityBeatsControl),
+  };
+}
+
+function summarize(
+  request: BayesianSimulationRequest,
+  uniforms: { control: number; variant: number }[],
+  samplePerGroup: number,
+): SimulationSummary {
+  let reached = 0;
+  let probabilityTotal = 0;
+  let lossTotal = 0;
+
+  for (const draw of uniforms) {
+    const controlConversions = binomialQuantile(samplePerGroup, request.baselineRate, draw.control);
+    const variantConversions = binomialQuantile(samplePerGroup, request.variantRate, draw.variant);
+    const { probabilityBeatsControl, expectedLoss } = comparePosteriors(
+      request.priorAlpha,
+      request.priorBeta,
+      samplePerGroup,
+      controlConversions,
+      samplePerGroup,
+      variantConversions,
+    );
+
+    if (probabilityBeatsControl >= request.threshold) {
+      reached += 1;
+    }
+    probabilityTotal += probabilityBeatsControl;
+    lossTotal += expectedLoss;
+  }
+
+  return {
+    assurance: reached / uniforms.length,
+    meanProbabilityBeatsControl: probabilityTotal / uniforms.length,
+    meanExpectedLoss: lossTotal / uniforms.length,
+  };
+}
+
+export function simulateBayesianSampleSize(request: BayesianSimulationRequest): BayesianOutcome {
+  const random = createRandom(request.seed);
+  const clamp = (value: number) => Math.min(1 - 1e-12, Math.max(1e-12, value));
+  const uniforms = Array.from({ length: request.simulations }, () => ({
+    control: clamp(random()),
+    variant: clamp(random()),
+  }));
+  const evaluate = (samplePerGroup: number) => summarize(request, uniforms, samplePerGroup);
+
+  let high = 16;
+  let highSummary = evaluate(high);
+  while (highSummary.assurance < request.targetShare && high < MAX_SAMPLE_PER_GROUP) {
+    high = Math.min(MAX_SAMPLE_PER_GROUP, high * 2);
+    highSummary = evaluate(high);
+  }
+
+  const outcomeFor = (samplePerGroup: number, summary: SimulationSummary): BayesianOutcome => ({
+    sampleSizePerGroup: samplePerGroup,
+    assurance: summary.assurance,
+    reachedTarget: summary.assurance >= request.targetShare,
+    meanProbabilityBeatsControl: summary.meanProbabilityBeatsControl,
+    meanExpectedLoss: summary.meanExpectedLoss,
+    priorAlpha: request.priorAlpha,
+    priorBeta: request.priorBeta,
+    threshold: request.threshold,
+    targetShare: request.targetShare,
+    seed: request.seed,
+    simulations: request.simulations,
+  });
+
+  if (highSummary.assurance < request.targetShare) {
+    return outcomeFor(high, highSummary);
+  }
+
+  // Bisect to within 0.5% of the answer; finer steps only chase simulation noise.
+  let low = Math.floor(high / 2);
+  while (high - low > Math.max(1, Math.floor(high * 0.005))) {
+    const mid = Math.floor((low + high) / 2);
+    const summary = evaluate(mid);
+    if (summary.assurance >= request.targetShare) {
+      high = mid;
+      highSummary = summary;
+    } else {
+      low = mid;
+    }
+  }
+
+  return outcomeFor(high, highSummary);
+}
@@ -0,0 +1,17 @@
+import { simulateBayesianSampleSize, type BayesianOutcome, type BayesianSimulationRequest } from "@/lib/bayesian";
+
+export type BayesianWorkerRequest = {
+  id: number;
+  request: BayesianSimulationRequest;
+};
+
+export type BayesianWorkerResponse = {
+  id: number;
+  outcome: BayesianOutcome;
+};
+
+self.onmessage = (event: MessageEvent<BayesianWorkerRequest>) => {
+  const { id, request } = event.data;
+  const response: BayesianWorkerResponse = { id, outcome: simulateBayesianSampleSize(request) };
+  self.postMessage(response);
+};
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findUnknownPlaceholders,
+  renderBrief,
+  renderBriefPdf,
+  STANDARD_BRIEF_TEMPLATE,
+  type BriefContext,
+} from "@/lib/brief";
+import { calculateResult, DEFAULT_VALUES, validatePlan } from "@/lib/planner";
+import { buildReadinessSummary } from "@/lib/readiness";
+
+const result = calculateResult(validatePlan(DEFAULT_VALUES).parsed);
+const context: BriefContext = {
+  values: DEFAULT_VALUES,
+  result,
+  readiness: buildReadinessSummary(DEFAULT_VALUES, result),
+  toggles: [
+    { id: "quick-withdrawal", name: "Quick Withdrawal CTA", enabled: true, rollout: 100, description: "" },
+    { id: "new-lobby-banner", name: "New Lobby Promo Banner", enabled: false, rollout: 20, description: "" },
+  ],
+  srm: null,
+  generatedAt: new Date("2026-03-02T09:00:00Z"),
+};
+
+describe("renderBrief", () => {
+  it("renders the standard template as the plain-text brief", () => {
+    const brief = renderBrief(STANDARD_BRIEF_TEMPLATE.body, context, "text");
+
+    expect(brief.split("\n").slice(0, 6)).toEqual([
+      "A/B TEST EXPERIMENT BRIEF",
+      `Generated: ${context.generatedAt.toLocaleString()}`,
+      "",
+      "Assumptions",
+      "- Primary metric: conversion rate",
+      "- Current conversion rate: 8%",
+    ]);
+    expect(brief).toContain(
+      `- Score: ${context.readiness.score}/100 (${context.readiness.level})\n- [ ] Duration at least 7 day(s) (4 day(s))`,
+    );
+    expect(brief).toContain("Sample Ratio Check\n- Not checked yet (needs tracker users in A and B)");
+    expect(brief.endsWith("Active Feature Toggles\n- Quick Withdrawal CTA (100% rollout)")).toBe(true);
+  });
+
+  it("lists the eligibility funnel stages under the users per day", () => {
+    const values = {
+      ...DEFAULT_VALUES,
+      funnelTraffic: "80000",
+      funnelSteps: [{ name: "Reach the cashier", share: "30" }],
+      funnelHoldout: "5",
+    };
+    const brief = renderBrief("{{assumptions}}\n{{funnelSteps}}", { ...context, values }, "markdown");
+
+    expect(brief).toContain(
+      [
+        "- Users per day: 22,800 from the eligibility funnel",
+        "  - Site traffic: 80,000",
+        "  - Reach the cashier: 30% (24,000)",
+        "  - Outside the global holdout: 95% (22,800)",
+      ].join("\n"),
+    );
+    expect(brief.endsWith("80,000 site visitors x 30% reach the cashier x 95% outside the global holdout")).toBe(true);
+  });
+
+  it("names the metric that sets the sample size", () => {
+    const values = {
+      ...DEFAULT_VALUES,
+      guardrails: [
+        {
+          name: "Churn rate",
+          metricType: "conversion" as const,
+          betterWhen: "lower" as const,
+          baseline: "3",
+          standardDeviation: "",
+          margin: "10",
+        },
+      ],
+    };
+    const guarded = calculateResult(validatePlan(values).parsed);
+    const brief = renderBrief("{{results}}\n{{guardrails}}", { ...context, values, result: guarded }, "markdown");
+
+    expect(brief).toContain(
+      [
+        "- Sample size per variant: 50,757 users",
+        "- Bottleneck: Churn rate (guardrail)",
+        "  - Primary metric: 18,872 users per variant, 4 day(s) on its own",
+        "  - Churn rate: 50,757 users per variant, 9 day(s) on its own",
+      ].join("\n"),
+    );
+    expect(brief.endsWith("Churn rate: 3% baseline, may rise by at most 10%")).toBe(true);
+    expect(renderBrief("{{bottleneck}}", context, "markdown")).toBe("Primary metric");
+  });
+
+  it("words a non-inferiority plan around its margin", () => {
+    const values = { ...DEFAULT_VALUES, testType: "non-inferiority" as const, testMargin: "5" };
+    const planned = calculateResult(validatePlan(values).parsed);
+    const brief = renderBrief("{{assumptions}}\n{{results}}", { ...context, values, result: planned }, "markdown");
+
+    expect(brief).toContain(
+      [
+        "- Test type: Non-inferiority: is B no worse than A by more than 5% of the baseline?",
+        "- Confidence strictness: 5% (one-sided)",
+        "- Chance to show non-inferiority if B matches A: 80%",
+      ].join("\n"),
+    );
+    expect(brief).not.toContain("Expected improvement");
+    expect(brief).toContain("- Non-inferiority margin: B may fall at most 0.40 pp below A");
+  });
+
+  it("fills scalar and list placeholders and leaves unknown ones as typed", () => {
+    const body = [
+      "Baseline {{baselineRate}}% for {{ durationDays }} days, toggles: {{activeToggles}}",
+      "  {{failedChecks}}",
+      "{{owner}}",
+    ].join("\n");
+
+    expect(renderBrief(body, context, "markdown")).toBe(
+      [
+        `Baseline 8% for ${result.durationDays} days, toggles: Quick Withdrawal CTA (100% rollout)`,
+        "  - Duration at least 7 day(s) (4 day(s))",
+        "{{owner}}",
+      ].join("\n"),
+    );
+    expect(findUnknownPlaceholders(body)).toEqual(["owner"]);
+  });
+
+  it("renders headings, nested bullets, checklists and bold text in every text format", () => {
+    const body = "# Launch plan\n- **Owner** Growth\n  - Nested\n- [x] Done\n\nNext step";
+
+    expect(renderBrief(body, context, "markdown")).toBe(body);
+    expect(renderBrief(body, context, "text")).toBe(
+      "LAUNCH PLAN\n- Owner Growth\n  - Nested\n- [x] Done\n\nNext step",
+    );
+    expect(renderBrief(body, context, "jira")).toBe(
+      "h1. Launch plan\n* *Owner* Growth\n** Nested\n* (/) Done\n\nNext step",
+    );
+    expect(renderBrief(body, context, "html")).toContain(
+      [
+        "<h1>Launch plan</h1>",
+        "<ul>",
+        "<li><strong>Owner</strong> Growth",
+        "<ul>",
+        "<li>Nested",
+        "</li></ul>",
+        "</li>",
+        "<li>&#9745; Done",
+        "</li></ul>",
+        "<p>Next step</p>",
+      ].join("\n"),
+    );
+  });
+
+  it("escapes markup from user text", () => {
+    const unsafe = { ...context, toggles: [{ ...context.toggles[0], name: "<b>[beta]</b>" }] };
+
+    expect(renderBrief("{{activeToggles}}", unsafe, "html")).toContain(
+      "<li>&#60;b&#62;[beta]&#60;/b&#62; (100% rollout)",
+    );
+    expect(renderBrief("{{activeToggles}}", unsafe, "jira")).toBe("* <b>\\[beta\\]</b> (100% rollout)");
+  });
+});
+
+describe("renderBriefPdf", () => {
+  it("writes a PDF whose cross-reference table points at every object", () => {
+    const longBody = Array.from({ length: 120 }, (_, index) => `- Line ${index + 1} of (a) long brief`).join("\n");
+    const pdf = new TextDecoder("latin1").decode(renderBriefPdf(`# Brief\n${longBody}`, context));
+
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+    expect(pdf).toContain("/Count 3");
+    expect(pdf).toContain("(Line 1 of \\(a\\) long brief) Tj");
+
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    const offsets = pdf
+      .slice(xrefStart)
+      .split("\n")
+      .filter((line) => line.endsWith(" 00000 n "))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 12)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+});
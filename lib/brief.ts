@@ -0,0 +1,707 @@
+import { buildTextPdf, type PdfLine } from "@/lib/pdf";
+import {
+  ARM_LABELS,
+  buildEligibilityFunnel,
+  CORRECTION_LABELS,
+  describeFunnel,
+  describeGuardrail,
+  describeRamp,
+  describeTestType,
+  eligibleDailyUsers,
+  exactSearchFellBack,
+  formatAlpha,
+  formatIsoDate,
+  formatLoss,
+  formatMean,
+  formatMetricValue,
+  formatNumber,
+  formatPValue,
+  formatRate,
+  formatShare,
+  isMarginTest,
+  SAMPLE_SIZE_METHOD_LABELS,
+  SPENDING_FUNCTION_LABELS,
+  TEST_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  type FormValues,
+  type Result,
+  type SrmCheck,
+} from "@/lib/planner";
+import type { ReadinessSummary } from "@/lib/readiness";
+import { EXACT_SEARCH_LIMIT } from "@/lib/sample-size";
+import { summarizeToggleLink } from "@/lib/toggle-links";
+import type { BriefTemplate, FeatureToggle } from "@/lib/workspace";
+
+export type BriefFormat = "text" | "markdown" | "html" | "jira" | "pdf";
+
+export type BriefContext = {
+  values: FormValues;
+  result: Result;
+  readiness: ReadinessSummary;
+  toggles: FeatureToggle[];
+  srm: SrmCheck | null;
+  generatedAt: Date;
+};
+
+type BriefItem = {
+  text: string;
+  depth: number;
+  checked?: boolean;
+};
+
+type BriefBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "item"; depth: number; checked: boolean | null; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "blank" };
+
+export const BRIEF_FORMAT_LABELS: Record<BriefFormat, string> = {
+  text: "Plain text",
+  markdown: "Markdown",
+  html: "HTML",
+  jira: "Jira wiki markup",
+  pdf: "PDF (printable)",
+};
+
+export const BRIEF_FILE_TYPES: Record<BriefFormat, { extension: string; mimeType: string }> = {
+  text: { extension: "txt", mimeType: "text/plain" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  html: { extension: "html", mimeType: "text/html" },
+  jira: { extension: "txt", mimeType: "text/plain" },
+  pdf: { extension: "pdf", mimeType: "application/pdf" },
+};
+
+// Templates are written in a small Markdown subset: "#" headings, "-" bullets (indent two spaces per
+// level, "[x]" or "[ ]" for checklists) and **bold**. Every format is rendered from that layout.
+export const STANDARD_BRIEF_TEMPLATE: BriefTemplate = {
+  id: "standard",
+  name: "Standard brief",
+  body: [
+    "# A/B Test Experiment Brief",
+    "Generated: {{generatedAt}}",
+    "",
+    "## Assumptions",
+    "{{assumptions}}",
+    "",
+    "## Estimated Results",
+    "{{results}}",
+    "",
+    "## Launch Readiness",
+    "- Score: {{readinessScore}}/100 ({{readinessLevel}})",
+    "{{readinessChecks}}",
+    "",
+    "## Readiness Rules",
+    "{{readinessRules}}",
+    "- Levels: {{readinessCutoffs}}",
+    "",
+    "## Sample Ratio Check",
+    "{{sampleRatioCheck}}",
+    "",
+    "## Active Feature Toggles",
+    "{{activeToggles}}",
+  ].join("\n"),
+};
+
+const INPUT_PLACEHOLDERS: Record<keyof FormValues, string> = {
+  metricType: "Primary metric type",
+  sampleSizeMethod: "Sample size method",
+  baselineRate: "Baseline conversion rate (%)",
+  baselineMean: "Baseline average",
+  standardDeviation: "Standard deviation",
+  minDetectableUplift: "Minimum detectable uplift (%)",
+  testType: "Test type (superiority, non-inferiority or equivalence)",
+  testMargin: "Non-inferiority margin or equivalence bound (% of the baseline)",
+  significance: "Significance level (%)",
+  power: "Statistical power (%)",
+  dailyVisitors: "Daily eligible users",
+  variantTraffic: "Traffic to variant B (%)",
+  extraVariants: "Additional variants with traffic and uplift",
+  correction: "Multiple-comparison correction",
+  designMode: "Analysis design",
+  interimLooks: "Interim looks",
+  spendingFunction: "Alpha spending function",
+  framework: "Analysis approach",
+  priorAlpha: "Prior alpha",
+  priorBeta: "Prior beta",
+  decisionThreshold: "Decision threshold (%)",
+  simulationSeed: "Simulation seed",
+  preCorrelation: "CUPED pre-period correlation",
+  trafficPattern: "Daily traffic pattern",
+  weeklyProfile: "Day-of-week traffic profile",
+  startDate: "Planned start date",
+  roundToWholeWeeks: "Round up to whole weeks",
+  rampSteps: "Ramp-up schedule",
+  funnelTraffic: "Site traffic at the top of the eligibility funnel",
+  funnelSteps: "Eligibility funnel steps and holdout",
+  funnelHoldout: "Global holdout (%)",
+  guardrails: "Guardrail metrics with their tolerable degradation",
+  linkedToggle: "Feature toggle whose rollout sets B's traffic",
+};
+
+const RESULT_PLACEHOLDERS: Record<string, string> = {
+  generatedAt: "Date and time the brief was generated",
+  sampleSizePerGroup: "Sample size per variant",
+  totalSampleSize: "Total sample size",
+  bottleneck: "Metric that needs the most users: the primary metric or a guardrail",
+  durationDays: "Estimated duration in days",
+  collectionDays: "Days until the sample is reached, before whole-week rounding",
+  endDate: "Planned end date",
+  expectedVariantValue: "Expected conversion rate or average for B",
+  readinessScore: "Launch readiness score out of 100",
+  readinessLevel: "Ready, Needs Review or Risky",
+  readinessCutoffs: "Scores needed for Ready and Needs Review",
+  sampleRatioStatus: "Sample ratio check outcome",
+  activeToggleCount: "Number of active feature toggles",
+};
+
+// List placeholders expand to bullets when they stand on a line of their own, and to a "; "-separated
+// list when used inside a sentence.
+const LIST_PLACEHOLDERS: Record<string, string> = {
+  assumptions: "Every planning assumption",
+  results: "Every estimated result, including sequential, Bayesian, CUPED and ramp-up details",
+  readinessChecks: "Every readiness check as a checklist",
+  failedChecks: "Readiness checks that did not pass",
+  readinessRules: "Every readiness rule with its weight and severity",
+  sampleRatioCheck: "Sample ratio mismatch check on the tracker counts",
+  activeToggles: "Every active feature toggle with its rollout",
+};
+
+type PlaceholderGroup = "Inputs" | "Results" | "Lists";
+
+function describePlaceholders(group: PlaceholderGroup, descriptions: Record<string, string>) {
+  return Object.entries(descriptions).map(([name, description]) => ({ group, name, description }));
+}
+
+export const BRIEF_PLACEHOLDERS: { group: PlaceholderGroup; name: string; description: string }[] = [
+  ...describePlaceholders("Inputs", INPUT_PLACEHOLDERS),
+  ...describePlaceholders("Results", RESULT_PLACEHOLDERS),
+  ...describePlaceholders("Lists", LIST_PLACEHOLDERS),
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+function describeInputs({ values, result, toggles }: BriefContext): Record<keyof FormValues, string> {
+  return {
+    metricType: values.metricType === "continuous" ? "Average value (mean)" : "Conversion rate",
+    sampleSizeMethod: SAMPLE_SIZE_METHOD_LABELS[values.sampleSizeMethod],
+    baselineRate: values.baselineRate,
+    baselineMean: values.baselineMean,
+    standardDeviation: values.standardDeviation,
+    minDetectableUplift: values.minDetectableUplift,
+    testType: TEST_TYPE_LABELS[values.testType],
+    testMargin: isMarginTest(values.testType) ? values.testMargin : "None",
+    significance: values.significance,
+    power: values.power,
+    dailyVisitors: String(eligibleDailyUsers(values)),
+    variantTraffic: values.variantTraffic,
+    extraVariants:
+      values.extraVariants
+        .map((arm, index) => `${ARM_LABELS[index + 1]}: ${arm.traffic}% traffic, ${arm.uplift}% uplift`)
+        .join("; ") || "None",
+    correction: CORRECTION_LABELS[values.correction],
+    designMode: values.designMode === "sequential" ? "Group-sequential" : "Fixed horizon",
+    interimLooks: values.interimLooks,
+    spendingFunction: SPENDING_FUNCTION_LABELS[values.spendingFunction],
+    framework: values.framework === "bayesian" ? "Bayesian" : "Frequentist",
+    priorAlpha: values.priorAlpha,
+    priorBeta: values.priorBeta,
+    decisionThreshold: values.decisionThreshold,
+    simulationSeed: values.simulationSeed,
+    preCorrelation: values.preCorrelation.trim() || "None",
+    trafficPattern: values.trafficPattern === "weekly" ? "Day-of-week profile" : "Flat",
+    weeklyProfile: WEEKDAY_LABELS.map((day, index) => `${day} ${values.weeklyProfile[index]}`).join(", "),
+    startDate: formatIsoDate(result.startDate),
+    roundToWholeWeeks: values.roundToWholeWeeks ? "Yes" : "No",
+    rampSteps: values.rampSteps.length > 0 ? describeRamp(values.rampSteps) : "None",
+    funnelTraffic: values.funnelSteps.length > 0 ? values.funnelTraffic : "None",
+    funnelSteps: values.funnelSteps.length > 0 ? describeFunnel(values) : "None",
+    funnelHoldout: values.funnelSteps.length > 0 ? values.funnelHoldout.trim() || "0" : "None",
+    guardrails: values.guardrails.map(describeGuardrail).join("; ") || "None",
+    linkedToggle: describeLinkedToggle(values, toggles),
+  };
+}
+
+function describeLinkedToggle(values: FormValues, toggles: FeatureToggle[]): string {
+  if (!values.linkedToggle) {
+    return "None";
+  }
+  const toggle = toggles.find((item) => item.id === values.linkedToggle);
+  return toggle ? `${toggle.name} (${toggle.rollout}% rollout)` : values.linkedToggle;
+}
+
+// Linked plans are sized on the users no concurrent toggle reaches.
+function describeCleanTraffic(values: FormValues, toggles: FeatureToggle[]): string[] {
+  const link = summarizeToggleLink(values, toggles);
+  return link && link.conflicts.length > 0
+    ? [
+        `Clean users per day: ${formatNumber(link.cleanDailyUsers)} (${formatShare(link.contaminatedShare)} also reach a concurrent toggle)`,
+      ]
+    : [];
+}
+
+// With a funnel, the users per day line is followed by each stage and how many users reach it.
+function describeEligibleUsers(values: FormValues): BriefItem[] {
+  if (values.funnelSteps.length === 0) {
+    return [{ text: `Users per day: ${values.dailyVisitors}`, depth: 0 }];
+  }
+
+  return [
+    { text: `Users per day: ${formatNumber(eligibleDailyUsers(values))} from the eligibility funnel`, depth: 0 },
+    ...buildEligibilityFunnel(values).map((stage) => ({
+      text:
+        stage.share === null
+          ? `${stage.name}: ${formatNumber(stage.users)}`
+          : `${stage.name}: ${formatShare(stage.share)} (${formatNumber(Math.floor(stage.users))})`,
+      depth: 1,
+    })),
+  ];
+}
+
+function listAssumptions({ values, result, toggles }: BriefContext): BriefItem[] {
+  const top = (text: string): BriefItem => ({ text, depth: 0 });
+  const nested = (text: string): BriefItem => ({ text, depth: 1 });
+  const metric = [
+    ...(values.metricType === "continuous"
+      ? [
+          "Primary metric: average value (mean)",
+          `Current average: ${values.baselineMean}`,
+          `Standard deviation: ${values.standardDeviation}`,
+        ]
+      : ["Primary metric: conversion rate", `Current conversion rate: ${values.baselineRate}%`]),
+    ...(values.framework === "bayesian" || !isMarginTest(values.testType)
+      ? [`Expected improvement: ${values.minDetectableUplift}%`]
+      : []),
+    ...(values.framework === "bayesian"
+      ? [
+          "Analysis approach: Bayesian (Beta-Binomial)",
+          `Prior: Beta(${values.priorAlpha}, ${values.priorBeta}) for both versions`,
+          `Decision threshold: P(B beats A) >= ${values.decisionThreshold}%`,
+          `Chance to reach the threshold: ${values.power}%`,
+        ]
+      : [
+          `Test type: ${describeTestType(values)}`,
+          `Confidence strictness: ${values.significance}%${
+            values.testType === "two-sided" ? "" : values.testType === "equivalence" ? " per one-sided test" : " (one-sided)"
+          }`,
+          isMarginTest(values.testType)
+            ? `Chance to show ${values.testType === "equivalence" ? "equivalence" : "non-inferiority"} if B matches A: ${values.power}%`
+            : `Chance to detect real lift: ${values.power}%`,
+          ...(result.cuped
+            ? [
+                `CUPED pre-period correlation: ${values.preCorrelation} (${formatShare(result.cuped.varianceReduction)} variance reduction)`,
+              ]
+            : []),
+        ]),
+  ];
+  const guardrails =
+    values.guardrails.length > 0
+      ? [top("Guardrail metrics (non-inferiority):"), ...values.guardrails.map(describeGuardrail).map(nested)]
+      : [];
+  const schedule = [
+    ...(values.trafficPattern === "weekly"
+      ? [`Day-of-week traffic profile (Mon-Sun): ${values.weeklyProfile.join(" / ")}`]
+      : []),
+    `Planned start date: ${formatIsoDate(result.startDate)}`,
+    ...(values.rampSteps.length > 0 ? [`Ramp-up: ${describeRamp(values.rampSteps)}`] : []),
+    `Traffic to version B: ${values.variantTraffic}%`,
+    ...(values.linkedToggle ? [`Linked feature toggle: ${describeLinkedToggle(values, toggles)}`] : []),
+    ...describeCleanTraffic(values, toggles),
+    ...values.extraVariants.map(
+      (arm, index) => `Variant ${ARM_LABELS[index + 1]}: ${arm.traffic}% traffic, ${arm.uplift}% expected improvement`,
+    ),
+    ...(values.extraVariants.length > 0 ? [`Multiple-comparison correction: ${CORRECTION_LABELS[values.correction]}`] : []),
+    values.framework !== "bayesian" && values.designMode === "sequential"
+      ? `Design: group-sequential, ${values.interimLooks} interim look(s) + final, ${SPENDING_FUNCTION_LABELS[values.spendingFunction]} alpha spending`
+      : "Design: fixed horizon (single final analysis)",
+  ];
+
+  return [...metric.map(top), ...guardrails, ...describeEligibleUsers(values), ...schedule.map(top)];
+}
+
+function listResults({ values, result }: BriefContext): BriefItem[] {
+  const top = (text: string): BriefItem => ({ text, depth: 0 });
+  const nested = (text: string): BriefItem => ({ text, depth: 1 });
+
+  return [
+    ...(result.sampleSizeMethod
+      ? [
+          top(
+            `Sample size method: ${
+              result.metricType === "continuous"
+                ? "Normal approximation (two-sample means)"
+                : exactSearchFellBack(values, result)
+                  ? `Normal approximation (the exact search stops at ${formatNumber(EXACT_SEARCH_LIMIT)} users per variant)`
+                  : SAMPLE_SIZE_METHOD_LABELS[result.sampleSizeMethod]
+            }`,
+          ),
+        ]
+      : []),
+    ...(result.margin !== null ? [top(describeMargin(result, result.margin))] : []),
+    top(`Sample size per variant: ${formatNumber(result.sampleSizePerGroup)} users`),
+    ...(result.guardrails.length > 0
+      ? [
+          top(`Bottleneck: ${describeBottleneck(result)}`),
+          nested(
+            `Primary metric: ${formatNumber(result.primarySampleSizePerGroup)} users per variant, ${result.primaryDurationDays} day(s) on its own`,
+          ),
+          ...result.guardrails.map((guardrail) =>
+            nested(
+              `${guardrail.name}: ${formatNumber(guardrail.sampleSizePerGroup)} users per variant, ${guardrail.durationDays} day(s) on its own`,
+            ),
+          ),
+        ]
+      : []),
+    top(`Total sample size: ${formatNumber(result.totalSampleSize)} users`),
+    top(
+      `Estimated duration: ${result.durationDays} day(s)${
+        result.durationDays > result.collectionDays
+          ? ` (sample reached after ${result.collectionDays}, rounded up to whole weeks)`
+          : ""
+      }`,
+    ),
+    top(`Planned end date: ${formatIsoDate(result.endDate)}`),
+    ...(result.ramp
+      ? [
+          top(
+            `Ramp-up delay: +${result.ramp.delayDays} day(s) vs. full traffic from day one (${formatNumber(result.ramp.usersPerVariantDuringRamp)} users per variant collected during the ramp)`,
+          ),
+        ]
+      : []),
+    ...(result.cuped
+      ? [
+          top(
+            `${result.bottleneck ? `Primary metric without CUPED (${formatNumber(result.primarySampleSizePerGroup)} users per variant with it)` : "Without CUPED"}: ${formatNumber(result.cuped.unadjustedSampleSizePerGroup)} users per variant, ${formatNumber(result.cuped.unadjustedTotalSampleSize)} total, ${result.cuped.unadjustedDurationDays} day(s)`,
+          ),
+        ]
+      : []),
+    ...(result.bayesian
+      ? [
+          top(
+            `Simulated tests reaching the threshold: ${formatShare(result.bayesian.assurance)}${result.bayesian.reachedTarget ? "" : " (target not reached within the simulation limit)"}`,
+          ),
+          top(`Average P(B beats A) at this sample: ${formatShare(result.bayesian.meanProbabilityBeatsControl)}`),
+          top(`Average expected loss of shipping B: ${formatLoss(result.bayesian.meanExpectedLoss)}`),
+          top(`Simulation: ${formatNumber(result.bayesian.simulations)} runs, seed ${result.bayesian.seed}`),
+        ]
+      : []),
+    ...(result.sequential
+      ? [
+          top(`Fixed-horizon sample size per variant: ${formatNumber(result.sequential.fixedSampleSizePerGroup)} users`),
+          top(`Maximum sample-size inflation: x${result.sequential.maxInflation.toFixed(3)}`),
+          top(
+            `Expected sample-size inflation (if the uplift is real): x${result.sequential.expectedInflation.toFixed(3)} (${formatNumber(result.sequential.expectedSampleSizePerGroup)} users per variant)`,
+          ),
+          top("Analysis schedule:"),
+          ...result.sequential.looks.map((look) =>
+            nested(
+              `Look ${look.look} (day ${look.day}, ${look.date}): ${formatNumber(look.samplePerGroup)} users per variant, stop if |z| >= ${look.zBoundary.toFixed(3)} (p < ${formatAlpha(look.nominalAlpha)})`,
+            ),
+          ),
+        ]
+      : []),
+    ...(result.arms.length > 1
+      ? [
+          top("Per-arm breakdown:"),
+          nested(`A (Control): ${formatShare(result.controlShare)} traffic`),
+          ...result.arms.map((arm) =>
+            nested(
+              `${arm.label}: ${formatShare(arm.trafficShare)} traffic, alpha ${formatAlpha(arm.adjustedAlpha)}, ${formatNumber(arm.sampleSizePerGroup)} users needed, expected ${formatMetricValue(arm.expectedValue, result.metricType)}`,
+            ),
+          ),
+        ]
+      : []),
+    top(
+      result.metricType === "continuous"
+        ? `Expected average (B): ${formatMean(result.expectedVariantValue)}`
+        : `Expected conversion rate (B): ${formatRate(result.expectedVariantValue)}`,
+    ),
+  ];
+}
+
+function describeMargin(result: Result, margin: number): string {
+  const size = result.metricType === "continuous" ? formatMean(margin) : `${(margin * 100).toFixed(2)} pp`;
+  return result.testType === "equivalence"
+    ? `Equivalence bounds: B within +/-${size} of A, read with two one-sided tests`
+    : `Non-inferiority margin: B may fall at most ${size} below A`;
+}
+
+function describeBottleneck(result: Result): string {
+  return result.bottleneck ? `${result.bottleneck} (guardrail)` : "Primary metric";
+}
+
+function describeSampleRatio(srm: SrmCheck | null): string {
+  if (!srm || srm.status === "insufficient") {
+    return "Not checked yet (needs tracker users in A and B)";
+  }
+
+  return `${srm.status === "mismatch" ? "MISMATCH: do not trust results until bucketing is fixed" : "OK"} (chi-square ${srm.chiSquare.toFixed(2)}, p = ${formatPValue(srm.pValue)}; A share ${formatShare(srm.observedControlShare)} observed vs ${formatShare(srm.expectedControlShare)} expected)`;
+}
+
+function buildPlaceholders(context: BriefContext): {
+  scalars: Record<string, string>;
+  lists: Record<string, BriefItem[]>;
+} {
+  const { result, readiness, toggles, srm } = context;
+  const activeToggles = toggles.filter((toggle) => toggle.enabled);
+  const failedChecks = readiness.checks.filter((check) => !check.passed);
+  const toItem = (text: string): BriefItem => ({ text, depth: 0 });
+
+  return {
+    scalars: {
+      ...describeInputs(context),
+      generatedAt: context.generatedAt.toLocaleString(),
+      sampleSizePerGroup: formatNumber(result.sampleSizePerGroup),
+      totalSampleSize: formatNumber(result.totalSampleSize),
+      bottleneck: describeBottleneck(result),
+      durationDays: String(result.durationDays),
+      collectionDays: String(result.collectionDays),
+      endDate: formatIsoDate(result.endDate),
+      expectedVariantValue: formatMetricValue(result.expectedVariantValue, result.metricType),
+      readinessScore: String(readiness.score),
+      readinessLevel: readiness.level,
+      readinessCutoffs: `Ready at ${readiness.readyAt}+, Needs Review at ${readiness.reviewAt}+, Risky below`,
+      sampleRatioStatus:
+        !srm || srm.status === "insufficient" ? "Not checked" : srm.status === "mismatch" ? "Mismatch" : "OK",
+      activeToggleCount: String(activeToggles.length),
+    },
+    lists: {
+      assumptions: listAssumptions(context),
+      results: listResults(context),
+      readinessChecks: readiness.checks.map((check) => ({ text: check.label, depth: 0, checked: check.passed })),
+      readinessRules: readiness.checks.map((check) =>
+        toItem(`${check.rule}: -${check.weight} point(s) if it fails, ${check.severity}`),
+      ),
+      failedChecks: failedChecks.length > 0 ? failedChecks.map((check) => toItem(check.label)) : [toItem("None")],
+      sampleRatioCheck: [toItem(describeSampleRatio(srm))],
+      activeToggles:
+        activeToggles.length > 0
+          ? activeToggles.map((toggle) => toItem(`${toggle.name} (${toggle.rollout}% rollout)`))
+          : [toItem("None")],
+    },
+  };
+}
+
+// Placeholders a template uses that the planner does not know; they are left in the brief as typed.
+export function findUnknownPlaceholders(body: string): string[] {
+  const known = new Set(BRIEF_PLACEHOLDERS.map((placeholder) => placeholder.name));
+  const names = Array.from(body.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+  return [...new Set(names.filter((name) => !known.has(name)))];
+}
+
+// Fills the placeholders in and returns the brief as Markdown.
+export function fillBriefTemplate(body: string, context: BriefContext): string {
+  const { scalars, lists } = buildPlaceholders(context);
+
+  return body
+    .split(/\r?\n/)
+    .flatMap((line) => {
+      const listLine = line.match(/^(\s*)\{\{\s*([A-Za-z]+)\s*\}\}\s*$/);
+      if (listLine && lists[listLine[2]]) {
+        return lists[listLine[2]].map(
+          (item) =>
+            `${listLine[1]}${"  ".repeat(item.depth)}- ${
+              item.checked === undefined ? "" : item.checked ? "[x] " : "[ ] "
+            }${item.text}`,
+        );
+      }
+
+      return [
+        line.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+          if (scalars[name] !== undefined) {
+            return scalars[name];
+          }
+          const items = lists[name]?.filter((item) => item.depth === 0);
+          return items ? items.map((item) => item.text).join("; ") : match;
+        }),
+      ];
+    })
+    .join("\n");
+}
+
+function parseBlocks(markdown: string): BriefBlock[] {
+  return markdown.split("\n").map((line): BriefBlock => {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      return { type: "heading", level: heading[1].length, text: heading[2].trim() };
+    }
+
+    const item = line.match(/^(\s*)[-*]\s+(.*)$/);
+    if (item) {
+      const checkbox = item[2].match(/^\[([ xX])\]\s+(.*)$/);
+      return {
+        type: "item",
+        depth: Math.floor(item[1].replace(/\t/g, "  ").length / 2),
+        checked: checkbox ? checkbox[1] !== " " : null,
+        text: checkbox ? checkbox[2] : item[2],
+      };
+    }
+
+    return line.trim() ? { type: "paragraph", text: line.trim() } : { type: "blank" };
+  });
+}
+
+// Splits "**bold**" spans out of a line so each format can mark them its own way.
+function inlineSegments(text: string): { text: string; bold: boolean }[] {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith("**") && segment.endsWith("**") && segment.length > 4
+        ? { text: segment.slice(2, -2), bold: true }
+        : { text: segment, bold: false },
+    );
+}
+
+function plainInline(text: string): string {
+  return inlineSegments(text)
+    .map((segment) => segment.text)
+    .join("");
+}
+
+function renderText(blocks: BriefBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return block.level === 1 ? plainInline(block.text).toUpperCase() : plainInline(block.text);
+        case "item":
+          return `${"  ".repeat(block.depth)}- ${
+            block.checked === null ? "" : block.checked ? "[x] " : "[ ] "
+          }${plainInline(block.text)}`;
+        case "paragraph":
+          return plainInline(block.text);
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function htmlInline(text: string): string {
+  return inlineSegments(text)
+    .map((segment) => (segment.bold ? `<strong>${escapeHtml(segment.text)}</strong>` : escapeHtml(segment.text)))
+    .join("");
+}
+
+function renderHtml(blocks: BriefBlock[]): string {
+  const body: string[] = [];
+  let openLists = 0;
+  const closeLists = (depth: number) => {
+    while (openLists > depth) {
+      body.push("</li></ul>");
+      openLists -= 1;
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type !== "item") {
+      closeLists(0);
+      if (block.type === "heading") {
+        body.push(`<h${block.level}>${htmlInline(block.text)}</h${block.level}>`);
+      } else if (block.type === "paragraph") {
+        body.push(`<p>${htmlInline(block.text)}</p>`);
+      }
+      continue;
+    }
+
+    if (openLists > block.depth) {
+      closeLists(block.depth + 1);
+      body.push("</li>");
+    }
+    while (openLists < block.depth + 1) {
+      body.push("<ul>");
+      openLists += 1;
+    }
+    const checkbox = block.checked === null ? "" : block.checked ? "&#9745; " : "&#9744; ";
+    body.push(`<li>${checkbox}${htmlInline(block.text)}`);
+  }
+  closeLists(0);
+
+  const title = blocks.find((block) => block.type === "heading");
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title?.type === "heading" ? escapeHtml(plainInline(title.text)) : "Experiment brief"}</title>`,
+    "<style>body{font-family:system-ui,sans-serif;line-height:1.5;max-width:48rem;margin:2rem auto}</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+function jiraInline(text: string): string {
+  return inlineSegments(text)
+    .map((segment) => {
+      const escaped = segment.text.replace(/[\\{}[\]|*_]/g, (char) => `\\${char}`);
+      return segment.bold ? `*${escaped}*` : escaped;
+    })
+    .join("");
+}
+
+function renderJira(blocks: BriefBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `h${block.level}. ${jiraInline(block.text)}`;
+        case "item":
+          return `${"*".repeat(block.depth + 1)} ${
+            block.checked === null ? "" : block.checked ? "(/) " : "(x) "
+          }${jiraInline(block.text)}`;
+        case "paragraph":
+          return jiraInline(block.text);
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+}
+
+export function renderBrief(body: string, context: BriefContext, format: Exclude<BriefFormat, "pdf">): string {
+  const markdown = fillBriefTemplate(body, context);
+  if (format === "markdown") {
+    return markdown;
+  }
+
+  const blocks = parseBlocks(markdown);
+  return format === "html" ? renderHtml(blocks) : format === "jira" ? renderJira(blocks) : renderText(blocks);
+}
+
+const PDF_HEADING_SIZES = [18, 13, 11];
+
+export function renderBriefPdf(body: string, context: BriefContext): Uint8Array<ArrayBuffer> {
+  const blocks = parseBlocks(fillBriefTemplate(body, context));
+  const lines = blocks.map((block, index): PdfLine => {
+    switch (block.type) {
+      case "heading":
+        return {
+          text: plainInline(block.text),
+          size: PDF_HEADING_SIZES[block.level - 1],
+          bold: true,
+          spaceBefore: index === 0 ? 0 : 6,
+        };
+      case "item":
+        return {
+          text: plainInline(block.text),
+          size: 10,
+          indent: block.depth * 14,
+          marker: block.checked === null ? "•" : block.checked ? "[x]" : "[ ]",
+        };
+      case "paragraph":
+        return { text: plainInline(block.text), size: 10 };
+      default:
+        return { text: "", size: 6 };
+    }
+  });
+
+  const title = blocks.find((block) => block.type === "heading");
+  return buildTextPdf(title?.type === "heading" ? plainInline(title.text) : "Experiment brief", lines);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  bucketFor,
+  generateUserIds,
+  murmur3Hash,
+  parseUserIds,
+  sha256Words,
+  simulateBucketing,
+} from "@/lib/bucketing";
+import type { FeatureToggle } from "@/lib/workspace";
+
+function hex(words: number[]): string {
+  return words.map((word) => word.toString(16).padStart(8, "0")).join("");
+}
+
+describe("hashing", () => {
+  it("matches the MurmurHash3 x86 32-bit reference values", () => {
+    expect(murmur3Hash("")).toBe(0);
+    expect(murmur3Hash("hello")).toBe(0x248bfa47);
+    expect(murmur3Hash("The quick brown fox jumps over the lazy dog")).toBe(0x2e4ff723);
+  });
+
+  it("matches the SHA-256 reference digests, including multi-block and non-ASCII input", () => {
+    expect(hex(sha256Words(""))).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(hex(sha256Words("abc"))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(hex(sha256Words("a".repeat(56)))).toBe("b35439a4ac6f0948b6d6f9e3c6af0f5f590ce20f1bde7090ef7970686ec6738a");
+    expect(hex(sha256Words("é".repeat(40)))).toBe("84fe2e03d50dd3a18b630669d7d5e361117ac6af9cbb487c284c8e6c91a9758a");
+  });
+
+  it("buckets salt:userId into 0-9999", () => {
+    expect(bucketFor("murmur3", "checkout", "user-1")).toBe(murmur3Hash("checkout:user-1") % 10000);
+    expect(bucketFor("sha256", "checkout", "user-1")).toBe(sha256Words("checkout:user-1")[0] % 10000);
+  });
+});
+
+describe("user IDs", () => {
+  it("generates numbered IDs and splits pasted ones, counting repeats once", () => {
+    expect(generateUserIds(3)).toEqual(["user-1", "user-2", "user-3"]);
+    expect(parseUserIds("u1\nu2, u3;u1  u4\n")).toEqual(["u1", "u2", "u3", "u4"]);
+  });
+});
+
+describe("simulateBucketing", () => {
+  const userIds = generateUserIds(20000);
+  const checkout: FeatureToggle = { id: "checkout", name: "Checkout", enabled: true, rollout: 20, description: "" };
+
+  it("reaches the configured share with an even spread for both schemes", () => {
+    for (const scheme of ["murmur3", "sha256"] as const) {
+      const simulation = simulateBucketing(checkout, [], scheme, "checkout", userIds);
+
+      expect(simulation.users).toBe(20000);
+      expect(Math.abs(simulation.observedShare - 0.2)).toBeLessThan(0.015);
+      expect(simulation.deciles.reduce((sum, count) => sum + count, 0)).toBe(20000);
+      expect(simulation.rolloutCheck.status).toBe("ok");
+      expect(simulation.uniformityCheck.status).toBe("ok");
+    }
+  });
+
+  it("measures overlap with other enabled toggles only", () => {
+    const toggles = [
+      { ...checkout, rollout: 50 },
+      { ...checkout, id: "banner", rollout: 50 },
+      { ...checkout, id: "lobby", enabled: false, rollout: 100 },
+    ];
+    const independent = simulateBucketing(toggles[0], toggles, "murmur3", "checkout", userIds);
+
+    expect(independent.overlaps.map((overlap) => overlap.toggleId)).toEqual(["banner"]);
+    expect(independent.overlaps[0].expectedSharedUsers).toBe(5000);
+    expect(Math.abs(independent.overlaps[0].sharedUsers - 5000)).toBeLessThan(300);
+
+    // Reusing another toggle's salt puts both on the same users.
+    const sameSalt = simulateBucketing(toggles[0], toggles, "murmur3", "banner", userIds);
+    expect(sameSalt.overlaps[0].sharedUsers).toBe(sameSalt.inRollout);
+  });
+
+  it("requires every user on one side for 0% and 100% rollouts and flags too few users", () => {
+    expect(simulateBucketing({ ...checkout, rollout: 0 }, [], "sha256", "off", userIds).rolloutCheck).toMatchObject({
+      status: "ok",
+      pValue: 1,
+    });
+    expect(simulateBucketing({ ...checkout, rollout: 100 }, [], "sha256", "on", userIds).inRollout).toBe(20000);
+    expect(simulateBucketing({ ...checkout, rollout: 10 }, [], "sha256", "tiny", ["a", "b"]).rolloutCheck.status).toBe(
+      "insufficient",
+    );
+  });
+});
@@ -0,0 +1,240 @@
+import { chiSquareSurvival } from "@/lib/statistics";
+import type { FeatureToggle } from "@/lib/workspace";
+
+export type BucketingScheme = "murmur3" | "sha256";
+
+// Chi-square goodness-of-fit of the simulated assignment against what the rollout should give.
+export type BucketingCheck = {
+  status: "ok" | "mismatch" | "insufficient";
+  chiSquare: number;
+  pValue: number;
+};
+
+export type ToggleOverlap = {
+  toggleId: string;
+  name: string;
+  rollout: number;
+  sharedUsers: number;
+  // Users both toggles would reach if their assignments were independent.
+  expectedSharedUsers: number;
+};
+
+export type BucketingSimulation = {
+  users: number;
+  inRollout: number;
+  expectedShare: number;
+  observedShare: number;
+  // Users per tenth of the bucket range (0-9.99%, 10-19.99%, ...), whatever the rollout.
+  deciles: number[];
+  rolloutCheck: BucketingCheck;
+  uniformityCheck: BucketingCheck;
+  overlaps: ToggleOverlap[];
+};
+
+export const BUCKETING_SCHEME_LABELS: Record<BucketingScheme, string> = {
+  murmur3: "MurmurHash3 (32-bit)",
+  sha256: "SHA-256 (first 4 bytes)",
+};
+
+// The same strict threshold as the tracker's sample ratio check.
+export const BUCKETING_ALPHA = 0.001;
+
+export const MAX_SIMULATED_USERS = 50000;
+
+// Buckets are basis points, so rollouts resolve to 0.01%.
+const BUCKET_COUNT = 10000;
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const SHA256_INITIAL = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const encoder = new TextEncoder();
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+// MurmurHash3 x86 32-bit over the UTF-8 bytes, as used by most flag SDKs that bucket with Murmur.
+export function murmur3Hash(text: string, seed = 0): number {
+  const bytes = encoder.encode(text);
+  const blocks = bytes.length - (bytes.length % 4);
+  let hash = seed >>> 0;
+
+  for (let index = 0; index < blocks; index += 4) {
+    let k = bytes[index] | (bytes[index + 1] << 8) | (bytes[index + 2] << 16) | (bytes[index + 3] << 24);
+    k = Math.imul(k, 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, 0x1b873593);
+    hash ^= k;
+    hash = (hash << 13) | (hash >>> 19);
+    hash = (Math.imul(hash, 5) + 0xe6546b64) | 0;
+  }
+
+  let tail = 0;
+  switch (bytes.length % 4) {
+    case 3:
+      tail ^= bytes[blocks + 2] << 16;
+    // falls through
+    case 2:
+      tail ^= bytes[blocks + 1] << 8;
+    // falls through
+    case 1:
+      tail ^= bytes[blocks];
+      tail = Math.imul(tail, 0xcc9e2d51);
+      tail = (tail << 15) | (tail >>> 17);
+      tail = Math.imul(tail, 0x1b873593);
+      hash ^= tail;
+  }
+
+  hash ^= bytes.length;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+// SHA-256 of the UTF-8 bytes as eight 32-bit words. Synchronous, unlike Web Crypto, so thousands of
+// IDs can be hashed in one pass.
+export function sha256Words(text: string): number[] {
+  const bytes = encoder.encode(text);
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(paddedLength - 4, (bytes.length * 8) >>> 0);
+
+  const state = [...SHA256_INITIAL];
+  const schedule = new Array<number>(64);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let index = 0; index < 64; index += 1) {
+      if (index < 16) {
+        schedule[index] = view.getUint32(offset + index * 4);
+        continue;
+      }
+      const previous = schedule[index - 15];
+      const recent = schedule[index - 2];
+      const s0 = rotateRight(previous, 7) ^ rotateRight(previous, 18) ^ (previous >>> 3);
+      const s1 = rotateRight(recent, 17) ^ rotateRight(recent, 19) ^ (recent >>> 10);
+      schedule[index] = (schedule[index - 16] + s0 + schedule[index - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let index = 0; index < 64; index += 1) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_K[index] + schedule[index]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((word, index) => {
+      state[index] = (state[index] + word) | 0;
+    });
+  }
+
+  return state.map((word) => word >>> 0);
+}
+
+// The bucket (0-9999) a user lands in for a toggle: the hash of "salt:userId" modulo 10,000.
+export function bucketFor(scheme: BucketingScheme, salt: string, userId: string): number {
+  const key = `${salt}:${userId}`;
+  const hash = scheme === "murmur3" ? murmur3Hash(key) : sha256Words(key)[0];
+  return hash % BUCKET_COUNT;
+}
+
+export function isInRollout(bucket: number, rollout: number): boolean {
+  return bucket < Math.round(rollout * (BUCKET_COUNT / 100));
+}
+
+export function generateUserIds(count: number, prefix = "user-"): string[] {
+  const total = Math.max(0, Math.min(MAX_SIMULATED_USERS, Math.floor(count)));
+  return Array.from({ length: total }, (_, index) => `${prefix}${index + 1}`);
+}
+
+// Pasted IDs may be split by new lines, commas, semicolons or spaces. Repeats are counted once.
+export function parseUserIds(text: string): string[] {
+  return [...new Set(text.split(/[\s,;]+/).filter(Boolean))].slice(0, MAX_SIMULATED_USERS);
+}
+
+function goodnessOfFit(observed: number[], expected: number[]): BucketingCheck {
+  if (expected.some((value) => value < 5)) {
+    return { status: "insufficient", chiSquare: 0, pValue: 1 };
+  }
+
+  const chiSquare = observed.reduce((sum, value, index) => sum + (value - expected[index]) ** 2 / expected[index], 0);
+  const pValue = chiSquareSurvival(chiSquare, observed.length - 1);
+  return { status: pValue < BUCKETING_ALPHA ? "mismatch" : "ok", chiSquare, pValue };
+}
+
+// With a 0% or 100% rollout every user must land on the same side, so any stray user is a mismatch.
+function checkRollout(users: number, inRollout: number, rollout: number): BucketingCheck {
+  if (rollout <= 0 || rollout >= 100) {
+    const exact = inRollout === (rollout <= 0 ? 0 : users);
+    const status = users === 0 ? "insufficient" : exact ? "ok" : "mismatch";
+    return { status, chiSquare: 0, pValue: exact ? 1 : 0 };
+  }
+
+  const expectedIn = (users * rollout) / 100;
+  return goodnessOfFit([inRollout, users - inRollout], [expectedIn, users - expectedIn]);
+}
+
+// Buckets every user for the toggle with the chosen salt, then for every other enabled toggle with its
+// ID as the salt, to show how the assignment splits and how much traffic the toggles share.
+export function simulateBucketing(
+  toggle: FeatureToggle,
+  toggles: FeatureToggle[],
+  scheme: BucketingScheme,
+  salt: string,
+  userIds: string[],
+): BucketingSimulation {
+  const deciles = Array.from({ length: 10 }, () => 0);
+  const reached = userIds.filter((userId) => {
+    const bucket = bucketFor(scheme, salt, userId);
+    deciles[Math.floor(bucket / (BUCKET_COUNT / 10))] += 1;
+    return isInRollout(bucket, toggle.rollout);
+  });
+
+  const users = userIds.length;
+  const overlaps = toggles
+    .filter((other) => other.id !== toggle.id && other.enabled)
+    .map((other) => ({
+      toggleId: other.id,
+      name: other.name,
+      rollout: other.rollout,
+      sharedUsers: reached.filter((userId) => isInRollout(bucketFor(scheme, other.id, userId), other.rollout)).length,
+      expectedSharedUsers: (users * (toggle.rollout / 100) * other.rollout) / 100,
+    }));
+
+  return {
+    users,
+    inRollout: reached.length,
+    expectedShare: toggle.rollout / 100,
+    observedShare: users > 0 ? reached.length / users : 0,
+    deciles,
+    rolloutCheck: checkRollout(users, reached.length, toggle.rollout),
+    uniformityCheck: goodnessOfFit(deciles, deciles.map(() => users / 10)),
+    overlaps,
+  };
+}
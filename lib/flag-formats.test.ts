@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+
+import { describeRoundedRollouts, exportFlags, parseFlagFile, type FlagFormat } from "@/lib/flag-formats";
+import type { FeatureToggle } from "@/lib/workspace";
+
+const toggles: FeatureToggle[] = [
+  { id: "quick-withdrawal", name: "Quick Withdrawal CTA", enabled: true, rollout: 100, description: "One tap" },
+  { id: "new-lobby-banner", name: "New Lobby Promo Banner", enabled: false, rollout: 20, description: "" },
+  { id: "dark-checkout", name: "Dark Checkout", enabled: true, rollout: 0, description: "" },
+];
+
+describe("exportFlags", () => {
+  it("round-trips every toggle through each format", () => {
+    for (const format of ["flagd", "unleash", "launchdarkly"] as FlagFormat[]) {
+      expect(parseFlagFile(exportFlags(toggles, format), format)).toEqual({ items: toggles, report: [] });
+    }
+  });
+
+  it("writes percentage rollouts in each provider's units", () => {
+    const partial = [{ ...toggles[1], rollout: 12.5 }];
+    const flagd = JSON.parse(exportFlags(partial, "flagd"));
+    const unleash = JSON.parse(exportFlags(partial, "unleash"));
+    const launchDarkly = JSON.parse(exportFlags(partial, "launchdarkly"));
+
+    expect(flagd.flags["new-lobby-banner"].targeting.fractional).toEqual([
+      ["on", 1250],
+      ["off", 8750],
+    ]);
+    expect(unleash.featureStrategies[0].parameters).toEqual({
+      rollout: "13",
+      stickiness: "default",
+      groupId: "new-lobby-banner",
+    });
+    expect(launchDarkly.flags["new-lobby-banner"].fallthrough.rollout.variations).toEqual([
+      { variation: 0, weight: 12500 },
+      { variation: 1, weight: 87500 },
+    ]);
+  });
+
+  it("lists the rollouts the Unleash export rounds", () => {
+    const partial = [{ ...toggles[1], rollout: 12.5 }, toggles[0]];
+
+    expect(describeRoundedRollouts(partial, "unleash")).toEqual(["New Lobby Promo Banner: 12.5% exported as 13%"]);
+    expect(describeRoundedRollouts(partial, "flagd")).toEqual([]);
+  });
+});
+
+describe("parseFlagFile", () => {
+  it("rejects files in the wrong shape as a whole", () => {
+    expect(parseFlagFile("{", "flagd")).toEqual({ error: "The file is not valid JSON." });
+    expect(parseFlagFile(exportFlags(toggles, "flagd"), "unleash")).toEqual({
+      error: 'The file is not an Unleash export: it has no "features" list.',
+    });
+  });
+
+  it("reports flagd flags that are not boolean or use other targeting", () => {
+    const file = {
+      flags: {
+        colour: { state: "ENABLED", variants: { red: "#f00", blue: "#00f" }, defaultVariant: "red" },
+        vip: {
+          state: "ENABLED",
+          variants: { yes: true, no: false },
+          defaultVariant: "no",
+          targeting: { if: [{ "==": [{ var: "tier" }, "vip"] }, "yes", "no"] },
+        },
+        split: {
+          state: "DISABLED",
+          variants: { yes: true, no: false },
+          defaultVariant: "no",
+          targeting: { fractional: [{ var: "email" }, ["yes", 1], ["no", 3]] },
+        },
+      },
+    };
+
+    expect(parseFlagFile(JSON.stringify(file), "flagd")).toEqual({
+      items: [{ id: "split", name: "split", enabled: false, rollout: 25, description: "" }],
+      report: [
+        {
+          kind: "toggle",
+          name: "colour",
+          outcome: "invalid",
+          detail: "Skipped: only boolean flags with a true and a false variant can be imported.",
+        },
+        {
+          kind: "toggle",
+          name: "vip",
+          outcome: "invalid",
+          detail: "Skipped: only fractional targeting can be imported.",
+        },
+      ],
+    });
+  });
+
+  it("reads Unleash strategies from the chosen environment and reports unsupported ones", () => {
+    const file = {
+      features: [{ name: "everyone" }, { name: "by-user" }, { description: "no name" }],
+      featureStrategies: [{ name: "userWithId", featureName: "by-user", parameters: { userIds: "1,2" } }],
+      featureEnvironments: [
+        { featureName: "everyone", environment: "development", enabled: false },
+        { featureName: "everyone", environment: "production", enabled: true },
+      ],
+    };
+
+    const parsed = parseFlagFile(JSON.stringify(file), "unleash");
+    expect(parsed).toEqual({
+      items: [{ id: "everyone", name: "everyone", enabled: true, rollout: 100, description: "" }],
+      report: [
+        {
+          kind: "toggle",
+          name: "by-user",
+          outcome: "invalid",
+          detail: 'Skipped: the "userWithId" strategy cannot be imported; use flexibleRollout or default.',
+        },
+        { kind: "toggle", name: "Flag 3", outcome: "invalid", detail: "Skipped: a flag needs a name." },
+      ],
+    });
+  });
+
+  it("reads the LaunchDarkly API item list and reports flags with targeting rules", () => {
+    const file = {
+      items: [
+        {
+          key: "pricing",
+          name: "Pricing test",
+          on: true,
+          variations: [{ value: false }, { value: true }],
+          fallthrough: { rollout: { variations: [{ variation: 0, weight: 70000 }, { variation: 1, weight: 30000 }] } },
+        },
+        {
+          key: "beta",
+          on: true,
+          variations: [{ value: true }, { value: false }],
+          fallthrough: { variation: 0 },
+          rules: [{ clauses: [] }],
+        },
+      ],
+    };
+
+    expect(parseFlagFile(JSON.stringify(file), "launchdarkly")).toEqual({
+      items: [{ id: "pricing", name: "Pricing test", enabled: true, rollout: 30, description: "" }],
+      report: [
+        {
+          kind: "toggle",
+          name: "beta",
+          outcome: "invalid",
+          detail: "Skipped: individual targets and targeting rules cannot be imported.",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,362 @@
+import type { FeatureToggle, ImportReportEntry } from "@/lib/workspace";
+
+export type FlagFormat = "flagd" | "unleash" | "launchdarkly";
+
+export const FLAG_FORMAT_LABELS: Record<FlagFormat, string> = {
+  flagd: "OpenFeature flagd JSON",
+  unleash: "Unleash feature import JSON",
+  launchdarkly: "LaunchDarkly flag definitions",
+};
+
+export const FLAG_FILE_NAMES: Record<FlagFormat, string> = {
+  flagd: "flags.flagd.json",
+  unleash: "unleash-features.json",
+  launchdarkly: "launchdarkly-flags.json",
+};
+
+// Unleash exports one environment at a time; toggles are enabled in this one and read back from it.
+export const UNLEASH_ENVIRONMENT = "production";
+
+// LaunchDarkly rollout weights are thousandths of a percent, so 100000 is everyone.
+const LAUNCHDARKLY_WEIGHT_TOTAL = 100000;
+
+type FlagRecord = Record<string, unknown>;
+
+// Every exporter salts or groups the rollout by the toggle ID, so each flag buckets users independently
+// of the others. Each provider hashes users its own way, so the shares match the simulator but which
+// user lands in which bucket does not.
+export function exportFlags(toggles: FeatureToggle[], format: FlagFormat): string {
+  const document =
+    format === "flagd" ? toFlagd(toggles) : format === "unleash" ? toUnleash(toggles) : toLaunchDarkly(toggles);
+  return JSON.stringify(document, null, 2);
+}
+
+// Unleash rollouts are whole percentages, so fractional ones are rounded on export; this lists them,
+// e.g. "Pricing test: 12.5% exported as 13%", for the export status.
+export function describeRoundedRollouts(toggles: FeatureToggle[], format: FlagFormat): string[] {
+  return format === "unleash"
+    ? toggles
+        .filter((toggle) => !Number.isInteger(toggle.rollout))
+        .map((toggle) => `${toggle.name}: ${toggle.rollout}% exported as ${Math.round(toggle.rollout)}%`)
+    : [];
+}
+
+function isPartialRollout(toggle: FeatureToggle): boolean {
+  return toggle.rollout > 0 && toggle.rollout < 100;
+}
+
+function toFlagd(toggles: FeatureToggle[]) {
+  return {
+    $schema: "https://flagd.dev/schema/v0/flags.json",
+    flags: Object.fromEntries(
+      toggles.map((toggle) => {
+        // fractional takes whole-number weights; fractional rollouts are written in hundredths of a percent.
+        const scale = Number.isInteger(toggle.rollout) ? 1 : 100;
+        const onWeight = Math.round(toggle.rollout * scale);
+        return [
+          toggle.id,
+          {
+            state: toggle.enabled ? "ENABLED" : "DISABLED",
+            variants: { on: true, off: false },
+            defaultVariant: toggle.rollout >= 100 ? "on" : "off",
+            ...(isPartialRollout(toggle)
+              ? {
+                  targeting: {
+                    fractional: [
+                      ["on", onWeight],
+                      ["off", 100 * scale - onWeight],
+                    ],
+                  },
+                }
+              : {}),
+            metadata: { name: toggle.name, ...(toggle.description ? { description: toggle.description } : {}) },
+          },
+        ];
+      }),
+    ),
+  };
+}
+
+function toUnleash(toggles: FeatureToggle[]) {
+  return {
+    features: toggles.map((toggle) => ({
+      name: toggle.id,
+      description: toggle.description,
+      type: "release",
+      project: "default",
+      stale: false,
+      impressionData: false,
+    })),
+    // Unleash features have no display name, so it travels as the strategy title.
+    featureStrategies: toggles.map((toggle) => ({
+      name: "flexibleRollout",
+      featureName: toggle.id,
+      title: toggle.name,
+      parameters: { rollout: String(Math.round(toggle.rollout)), stickiness: "default", groupId: toggle.id },
+      constraints: [],
+      segments: [],
+    })),
+    featureEnvironments: toggles.map((toggle) => ({
+      name: toggle.id,
+      featureName: toggle.id,
+      environment: UNLEASH_ENVIRONMENT,
+      enabled: toggle.enabled,
+    })),
+    contextFields: [],
+    featureTags: [],
+    segments: [],
+    tagTypes: [],
+  };
+}
+
+function toLaunchDarkly(toggles: FeatureToggle[]) {
+  return {
+    flags: Object.fromEntries(
+      toggles.map((toggle) => {
+        const onWeight = Math.round((toggle.rollout / 100) * LAUNCHDARKLY_WEIGHT_TOTAL);
+        return [
+          toggle.id,
+          {
+            key: toggle.id,
+            name: toggle.name,
+            description: toggle.description,
+            kind: "boolean",
+            on: toggle.enabled,
+            variations: [
+              { value: true, name: "On" },
+              { value: false, name: "Off" },
+            ],
+            offVariation: 1,
+            fallthrough: isPartialRollout(toggle)
+              ? {
+                  rollout: {
+                    variations: [
+                      { variation: 0, weight: onWeight },
+                      { variation: 1, weight: LAUNCHDARKLY_WEIGHT_TOTAL - onWeight },
+                    ],
+                  },
+                }
+              : { variation: toggle.rollout >= 100 ? 0 : 1 },
+            targets: [],
+            rules: [],
+            salt: toggle.id,
+          },
+        ];
+      }),
+    ),
+  };
+}
+
+function isRecord(value: unknown): value is FlagRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function roundRollout(share: number): number {
+  return Math.max(0, Math.min(100, Number((share * 100).toFixed(2))));
+}
+
+// The share of weight that goes to variants serving true, from [variant, weight] pairs.
+function trueShare(weights: { serves: boolean | undefined; weight: unknown }[]): number | string {
+  if (weights.some(({ serves }) => serves === undefined)) {
+    return "the rollout refers to a variant the flag does not define.";
+  }
+  if (weights.some(({ weight }) => typeof weight !== "number" || !Number.isFinite(weight) || weight < 0)) {
+    return "rollout weights must be numbers of at least 0.";
+  }
+
+  const total = weights.reduce((sum, { weight }) => sum + (weight as number), 0);
+  if (total <= 0) {
+    return "rollout weights must add up to more than 0.";
+  }
+  return weights.reduce((sum, { serves, weight }) => sum + (serves ? (weight as number) : 0), 0) / total;
+}
+
+function fromFlagd(key: string, flag: unknown): FeatureToggle | string {
+  if (!isRecord(flag)) {
+    return "the flag is not an object.";
+  }
+  if (flag.state !== "ENABLED" && flag.state !== "DISABLED") {
+    return 'state must be "ENABLED" or "DISABLED".';
+  }
+
+  const variants = isRecord(flag.variants) ? flag.variants : {};
+  const values = Object.values(variants);
+  if (!values.includes(true) || !values.includes(false) || values.some((value) => typeof value !== "boolean")) {
+    return "only boolean flags with a true and a false variant can be imported.";
+  }
+  if (typeof flag.defaultVariant !== "string" || !(flag.defaultVariant in variants)) {
+    return "defaultVariant must name one of the variants.";
+  }
+
+  const targeting = flag.targeting;
+  let share: number | string = variants[flag.defaultVariant] ? 1 : 0;
+  if (isRecord(targeting) && Object.keys(targeting).length > 0) {
+    const fractional = targeting.fractional;
+    if (Object.keys(targeting).length > 1 || !Array.isArray(fractional)) {
+      return "only fractional targeting can be imported.";
+    }
+    // The first argument may be a custom bucketing expression rather than a [variant, weight] pair.
+    const pairs = fractional.filter((item): item is unknown[] => Array.isArray(item));
+    share = trueShare(
+      pairs.map(([variant, weight]) => ({
+        serves: typeof variant === "string" && variant in variants ? Boolean(variants[variant]) : undefined,
+        weight,
+      })),
+    );
+  } else if (targeting !== undefined && !isRecord(targeting)) {
+    return "targeting must be an object.";
+  }
+  if (typeof share === "string") {
+    return share;
+  }
+
+  const metadata = isRecord(flag.metadata) ? flag.metadata : {};
+  return {
+    id: key,
+    name: typeof metadata.name === "string" && metadata.name.trim() ? metadata.name.trim() : key,
+    enabled: flag.state === "ENABLED",
+    rollout: roundRollout(share),
+    description: typeof metadata.description === "string" ? metadata.description : "",
+  };
+}
+
+function fromUnleash(feature: FlagRecord, document: FlagRecord): FeatureToggle | string {
+  const name = feature.name as string;
+  const strategies = (Array.isArray(document.featureStrategies) ? document.featureStrategies : []).filter(
+    (item): item is FlagRecord => isRecord(item) && item.featureName === name && item.disabled !== true,
+  );
+  const environments = (Array.isArray(document.featureEnvironments) ? document.featureEnvironments : []).filter(
+    (item): item is FlagRecord => isRecord(item) && item.featureName === name,
+  );
+  const environment = environments.find((item) => item.environment === UNLEASH_ENVIRONMENT) ?? environments[0];
+
+  if (strategies.length > 1) {
+    return "only one strategy per flag can be imported.";
+  }
+
+  // An enabled feature without strategies is on for everyone.
+  const strategy = strategies[0];
+  let rollout = 100;
+  if (strategy) {
+    if (Array.isArray(strategy.constraints) && strategy.constraints.length > 0) {
+      return "strategy constraints cannot be imported.";
+    }
+    if (strategy.name === "flexibleRollout") {
+      const parameters = isRecord(strategy.parameters) ? strategy.parameters : {};
+      rollout = Number(parameters.rollout);
+      if (parameters.rollout === undefined || !Number.isFinite(rollout) || rollout < 0 || rollout > 100) {
+        return "the flexibleRollout rollout must be between 0 and 100.";
+      }
+    } else if (strategy.name !== "default") {
+      return `the "${String(strategy.name)}" strategy cannot be imported; use flexibleRollout or default.`;
+    }
+  }
+
+  return {
+    id: name,
+    name: typeof strategy?.title === "string" && strategy.title.trim() ? strategy.title.trim() : name,
+    enabled: environment?.enabled === true,
+    rollout,
+    description: typeof feature.description === "string" ? feature.description : "",
+  };
+}
+
+function fromLaunchDarkly(key: string, flag: unknown): FeatureToggle | string {
+  if (!isRecord(flag)) {
+    return "the flag is not an object.";
+  }
+
+  const variations = Array.isArray(flag.variations) ? flag.variations : [];
+  const values = variations.map((variation) => (isRecord(variation) ? variation.value : undefined));
+  if (!values.includes(true) || !values.includes(false) || values.some((value) => typeof value !== "boolean")) {
+    return "only boolean flags with a true and a false variation can be imported.";
+  }
+  const hasTargeting = [flag.targets, flag.rules].some((list) => Array.isArray(list) && list.length > 0);
+  if (hasTargeting) {
+    return "individual targets and targeting rules cannot be imported.";
+  }
+
+  const serves = (index: unknown) => (typeof index === "number" ? (values[index] as boolean | undefined) : undefined);
+  const fallthrough = isRecord(flag.fallthrough) ? flag.fallthrough : {};
+  let share: number | string;
+  if (isRecord(fallthrough.rollout) && Array.isArray(fallthrough.rollout.variations)) {
+    share = trueShare(
+      fallthrough.rollout.variations.map((item) =>
+        isRecord(item) ? { serves: serves(item.variation), weight: item.weight } : { serves: undefined, weight: 0 },
+      ),
+    );
+  } else if (serves(fallthrough.variation) !== undefined) {
+    share = serves(fallthrough.variation) ? 1 : 0;
+  } else {
+    return "fallthrough must name a variation or a percentage rollout.";
+  }
+  if (typeof share === "string") {
+    return share;
+  }
+
+  return {
+    id: key,
+    name: typeof flag.name === "string" && flag.name.trim() ? flag.name.trim() : key,
+    enabled: flag.on === true,
+    rollout: roundRollout(share),
+    description: typeof flag.description === "string" ? flag.description : "",
+  };
+}
+
+// Reads a flag provider's file into toggles. A file in the wrong shape is rejected as a whole; a flag
+// that cannot be expressed as an on/off toggle with a percentage rollout is skipped and reported.
+export function parseFlagFile(
+  text: string,
+  format: FlagFormat,
+): { items: FeatureToggle[]; report: ImportReportEntry[] } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "The file is not valid JSON." };
+  }
+
+  let entries: [string, () => FeatureToggle | string][];
+  if (format === "unleash") {
+    if (!isRecord(raw) || !Array.isArray(raw.features)) {
+      return { error: 'The file is not an Unleash export: it has no "features" list.' };
+    }
+    entries = raw.features.map((feature, index) => {
+      const name = isRecord(feature) && typeof feature.name === "string" ? feature.name.trim() : "";
+      return [
+        name || `Flag ${index + 1}`,
+        () => (name && isRecord(feature) ? fromUnleash({ ...feature, name }, raw) : "a flag needs a name."),
+      ];
+    });
+  } else if (format === "launchdarkly") {
+    // Accepts the keyed "flags" object written here and the "items" list the LaunchDarkly API returns.
+    const flags = isRecord(raw) ? raw.flags ?? raw.items : undefined;
+    if (!isRecord(flags) && !Array.isArray(flags)) {
+      return { error: 'The file is not a LaunchDarkly flag file: it has no "flags" object.' };
+    }
+    const list = Array.isArray(flags)
+      ? flags
+      : Object.entries(flags).map(([key, flag]) => ({ key, ...(flag as object) }));
+    entries = list.map((flag, index) => {
+      const key = isRecord(flag) && typeof flag.key === "string" ? flag.key.trim() : "";
+      return [key || `Flag ${index + 1}`, () => (key ? fromLaunchDarkly(key, flag) : "a flag needs a key.")];
+    });
+  } else {
+    if (!isRecord(raw) || !isRecord(raw.flags)) {
+      return { error: 'The file is not a flagd flag file: it has no "flags" object.' };
+    }
+    entries = Object.entries(raw.flags).map(([key, flag]) => [key, () => fromFlagd(key, flag)]);
+  }
+
+  const items: FeatureToggle[] = [];
+  const report: ImportReportEntry[] = [];
+  for (const [name, read] of entries) {
+    const parsed = read();
+    if (typeof parsed === "string") {
+      report.push({ kind: "toggle", name, outcome: "invalid", detail: `Skipped: ${parsed}` });
+    } else {
+      items.push(parsed);
+    }
+  }
+  return { items, report };
+}
@@ -0,0 +1,152 @@
+// A small PDF writer for text documents: A4 pages, the built-in Helvetica fonts and automatic line
+// wrapping and page breaks. Enough for printable briefs without pulling in a PDF library.
+
+export type PdfLine = {
+  text: string;
+  size: number;
+  bold?: boolean;
+  // Left offset in points, and a marker (such as "-" or "[x]") drawn there before the wrapped text.
+  indent?: number;
+  marker?: string;
+  spaceBefore?: number;
+};
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const PAGE_MARGIN = 56;
+const LINE_HEIGHT = 1.4;
+
+// Helvetica advance widths (1/1000 em) for the printable ASCII range 32-126, from the standard AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+// Helvetica-Bold runs slightly wider; scaling the regular widths keeps wrapped lines inside the margin.
+const BOLD_WIDTH_FACTOR = 1.1;
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "–": 0x96,
+  "—": 0x97,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "…": 0x85,
+  "€": 0x80,
+};
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char] !== undefined) {
+        return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      }
+      return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? char : "?";
+    })
+    .join("");
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+function wrapText(text: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || textWidth(candidate, size, bold) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+  }
+
+  return current ? [...lines, current] : [""];
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function showText(x: number, y: number, size: number, bold: boolean, text: string): string {
+  return `BT /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`;
+}
+
+// Lays the lines out top to bottom and returns the bytes of a complete PDF file.
+export function buildTextPdf(title: string, lines: PdfLine[]): Uint8Array<ArrayBuffer> {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - PAGE_MARGIN;
+
+  for (const line of lines) {
+    const bold = Boolean(line.bold);
+    const indent = line.indent ?? 0;
+    const marker = line.marker ? toWinAnsi(line.marker) : "";
+    const markerWidth = marker ? textWidth(`${marker} `, line.size, bold) : 0;
+    const textX = PAGE_MARGIN + indent + markerWidth;
+    const wrapped = wrapText(toWinAnsi(line.text), PAGE_WIDTH - PAGE_MARGIN - textX, line.size, bold);
+    const lineHeight = line.size * LINE_HEIGHT;
+
+    y -= line.spaceBefore ?? 0;
+    wrapped.forEach((text, index) => {
+      if (y - lineHeight < PAGE_MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - PAGE_MARGIN;
+      }
+      y -= lineHeight;
+
+      const commands = pages[pages.length - 1];
+      if (index === 0 && marker) {
+        commands.push(showText(PAGE_MARGIN + indent, y, line.size, bold, marker));
+      }
+      if (text) {
+        commands.push(showText(textX, y, line.size, bold, text));
+      }
+    });
+  }
+
+  // Objects 1-4 are fixed; every page then adds a page object and its content stream.
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((commands, index) => {
+    const stream = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+  objects.push(`<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (A/B Test Planner) >>`);
+
+  // Every character is a single byte at this point, so string offsets are byte offsets.
+  let file = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = file.length;
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  file += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(file, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildEligibilityFunnel,
+  buildScenarioComparison,
+  calculateResult,
+  checkSampleRatio,
+  DEFAULT_VALUES,
+  estimateMdeForDuration,
+  exactSearchFellBack,
+  parseFormValues,
+  validatePlan,
+  valuesFromSearchParams,
+  valuesToQueryString,
+} from "@/lib/planner";
+import { calculateSampleSizePerGroup } from "@/lib/sample-size";
+
+describe("parseFormValues", () => {
+  it("stringifies numbers and falls back to defaults for missing fields", () => {
+    const values = parseFormValues({ baselineRate: 4, dailyVisitors: 2500, designMode: "sequential" });
+
+    expect(values.baselineRate).toBe("4");
+    expect(values.dailyVisitors).toBe("2500");
+    expect(values.designMode).toBe("sequential");
+    expect(values.power).toBe(DEFAULT_VALUES.power);
+    expect(values.extraVariants).toEqual([]);
+  });
+
+  it("ignores unknown options instead of passing them through", () => {
+    const values = parseFormValues({ metricType: "revenue", correction: "none", roundToWholeWeeks: "yes" });
+
+    expect(values.metricType).toBe("conversion");
+    expect(values.correction).toBe(DEFAULT_VALUES.correction);
+    expect(values.roundToWholeWeeks).toBe(false);
+  });
+});
+
+describe("validatePlan", () => {
+  it("accepts the default plan", () => {
+    const { nextErrors, nextVariantErrors, nextGlobalError } = validatePlan(DEFAULT_VALUES);
+
+    expect(Object.values(nextErrors).filter(Boolean)).toEqual([]);
+    expect(nextVariantErrors).toEqual([]);
+    expect(nextGlobalError).toBe("");
+  });
+
+  it("reports field, variant and cross-field errors separately", () => {
+    const { nextErrors, nextVariantErrors, nextGlobalError } = validatePlan({
+      ...DEFAULT_VALUES,
+      baselineRate: "0",
+      variantTraffic: "60",
+      extraVariants: [
+        { traffic: "30", uplift: "5" },
+        { traffic: "20", uplift: "900" },
+      ],
+    });
+
+    expect(nextErrors.baselineRate).toBe("Enter a value between 0 and 100 (exclusive).");
+    expect(nextVariantErrors).toEqual(["", "Uplift must be between 0 and 500%."]);
+    expect(nextGlobalError).toMatch(/^Variant traffic adds up to 110%/);
+  });
+});
+
+describe("eligibility funnel", () => {
+  const funnel = {
+    ...DEFAULT_VALUES,
+    dailyVisitors: "999",
+    funnelTraffic: "80000",
+    funnelSteps: [
+      { name: "Reach the cashier", share: "30" },
+      { name: "In the target market", share: "80" },
+    ],
+    funnelHoldout: "5",
+  };
+
+  it("multiplies the steps and the holdout into the daily eligible users used for the plan", () => {
+    expect(buildEligibilityFunnel(funnel).map((stage) => [stage.name, stage.users])).toEqual([
+      ["Site traffic", 80000],
+      ["Reach the cashier", 24000],
+      ["In the target market", 19200],
+      ["Outside the global holdout", 18240],
+    ]);
+    expect(validatePlan(funnel).parsed.dailyVisitors).toBe(18240);
+    expect(validatePlan({ ...funnel, funnelSteps: [] }).parsed.dailyVisitors).toBe(999);
+  });
+
+  it("checks the funnel instead of the typed-in users per day and round-trips it through share links", () => {
+    const { nextErrors } = validatePlan({
+      ...funnel,
+      dailyVisitors: "",
+      funnelSteps: [{ name: "", share: "30" }],
+      funnelHoldout: "100",
+    });
+    expect(nextErrors.dailyVisitors).toBe("");
+    expect(nextErrors.funnelSteps).toBe("Each funnel step needs a name and a share between 0 and 100 (0 exclusive).");
+    expect(nextErrors.funnelHoldout).toMatch(/^Enter a holdout from 0 to 100/);
+    expect(validatePlan({ ...funnel, funnelTraffic: "2", funnelHoldout: "" }).nextErrors.funnelSteps).toBe(
+      "The funnel leaves fewer than 1 eligible user a day.",
+    );
+
+    expect(valuesFromSearchParams(new URLSearchParams(valuesToQueryString(funnel)))).toEqual(funnel);
+    expect(valuesToQueryString(DEFAULT_VALUES)).not.toContain("funnel");
+  });
+});
+
+describe("guardrails", () => {
+  const churn = {
+    name: "Churn rate",
+    metricType: "conversion" as const,
+    betterWhen: "lower" as const,
+    baseline: "3",
+    standardDeviation: "",
+    margin: "10",
+  };
+  const deposits = { ...churn, name: "Deposit rate", betterWhen: "higher" as const, baseline: "20", margin: "20" };
+
+  it("runs the plan until the guardrail that needs the most users has them", () => {
+    const primary = calculateSampleSizePerGroup(0.08, 0.088, 0.05, 0.8);
+    const result = calculateResult(validatePlan({ ...DEFAULT_VALUES, guardrails: [deposits, churn] }).parsed);
+
+    // Churn at 3% must not rise past 3.3%: 2 x (1.96 + 0.84)^2 x 0.03 x 0.97 / 0.003^2.
+    expect(result.guardrails.map((guardrail) => [guardrail.name, guardrail.sampleSizePerGroup])).toEqual([
+      ["Deposit rate", 1570],
+      ["Churn rate", 50757],
+    ]);
+    expect(result).toMatchObject({
+      bottleneck: "Churn rate",
+      primarySampleSizePerGroup: primary,
+      sampleSizePerGroup: 50757,
+      totalSampleSize: 101514,
+      durationDays: 9,
+    });
+    expect(result.arms[0].sampleSizePerGroup).toBe(primary);
+
+    const loose = calculateResult(validatePlan({ ...DEFAULT_VALUES, guardrails: [deposits] }).parsed);
+    expect(loose).toMatchObject({ bottleneck: null, sampleSizePerGroup: primary });
+  });
+
+  it("spreads sequential looks over the bottleneck's sample and compares CUPED on the primary metric", () => {
+    const sequential = calculateResult(
+      validatePlan({ ...DEFAULT_VALUES, designMode: "sequential", guardrails: [churn] }).parsed,
+    );
+    const lastLook = sequential.sequential?.looks.at(-1);
+    expect(sequential.bottleneck).toBe("Churn rate");
+    expect(lastLook).toMatchObject({ samplePerGroup: sequential.sampleSizePerGroup, day: sequential.collectionDays });
+
+    const cuped = calculateResult(validatePlan({ ...DEFAULT_VALUES, preCorrelation: "0.5", guardrails: [churn] }).parsed);
+    const plain = calculateResult(validatePlan({ ...DEFAULT_VALUES }).parsed);
+    expect(cuped.bottleneck).toBe("Churn rate");
+    expect(cuped.cuped?.unadjustedSampleSizePerGroup).toBe(plain.sampleSizePerGroup);
+    expect(cuped.primarySampleSizePerGroup).toBeLessThan(plain.sampleSizePerGroup);
+  });
+
+  it("checks each guardrail and round-trips them through share links", () => {
+    const averageValue = { ...churn, metricType: "continuous" as const, baseline: "40" };
+    expect(validatePlan({ ...DEFAULT_VALUES, guardrails: [deposits, averageValue] }).nextErrors.guardrails).toBe(
+      "Guardrail 2 needs a standard deviation greater than 0.",
+    );
+    expect(validatePlan({ ...DEFAULT_VALUES, guardrails: [{ ...churn, baseline: "95" }] }).nextErrors.guardrails).toBe(
+      "Guardrail 1 reaches 100% at the tolerable degradation. Lower the baseline or the degradation.",
+    );
+
+    const values = { ...DEFAULT_VALUES, guardrails: [churn, { ...averageValue, standardDeviation: "90" }] };
+    expect(valuesFromSearchParams(new URLSearchParams(valuesToQueryString(values)))).toEqual(values);
+    expect(valuesToQueryString(DEFAULT_VALUES)).not.toContain("guardrails");
+  });
+});
+
+describe("test types", () => {
+  const sizeFor = (values: typeof DEFAULT_VALUES) => calculateResult(validatePlan(values).parsed).sampleSizePerGroup;
+
+  it("sizes one-sided superiority at twice the two-sided alpha and margin tests from the margin", () => {
+    expect(sizeFor({ ...DEFAULT_VALUES, testType: "one-sided" })).toBe(
+      calculateSampleSizePerGroup(0.08, 0.088, 0.1, 0.8),
+    );
+    // 8% baseline, 5% margin = 0.4 pp: 2 x (1.645 + 0.842)^2 x 0.08 x 0.92 / 0.004^2, and z-power at
+    // 90% for equivalence since both one-sided tests have to pass.
+    expect(sizeFor({ ...DEFAULT_VALUES, testType: "non-inferiority", testMargin: "5" })).toBe(56880);
+    expect(sizeFor({ ...DEFAULT_VALUES, testType: "equivalence", testMargin: "5" })).toBe(78788);
+    // The expected improvement is not used by margin tests.
+    expect(sizeFor({ ...DEFAULT_VALUES, testType: "equivalence", minDetectableUplift: "" })).toBe(78788);
+  });
+
+  it("estimates the smallest provable margin by the deadline", () => {
+    const parsed = validatePlan({ ...DEFAULT_VALUES, testType: "non-inferiority" }).parsed;
+    const estimate = estimateMdeForDuration(parsed, 10);
+
+    expect(estimate).toMatchObject({ status: "ok", mdePercent: 4.87, achievableSamplePerGroup: 60000 });
+    expect(sizeFor({ ...DEFAULT_VALUES, testType: "non-inferiority", testMargin: "4.87" })).toBeLessThanOrEqual(60000);
+  });
+
+  it("checks the margin, keeps sequential plans two-sided and round-trips through share links", () => {
+    const { nextErrors, nextGlobalError } = validatePlan({
+      ...DEFAULT_VALUES,
+      testType: "equivalence",
+      testMargin: "0",
+      designMode: "sequential",
+    });
+    expect(nextErrors.testMargin).toBe("Enter a margin between 0 and 100% of the baseline (exclusive).");
+    expect(nextGlobalError).toMatch(/^Group-sequential boundaries are two-sided/);
+
+    const values = { ...DEFAULT_VALUES, testType: "non-inferiority" as const, testMargin: "2.5" };
+    expect(valuesFromSearchParams(new URLSearchParams(valuesToQueryString(values)))).toEqual(values);
+    expect(valuesToQueryString(DEFAULT_VALUES)).not.toContain("testType");
+  });
+});
+
+describe("calculateResult", () => {
+  it("plans the default two-arm test with the normal approximation", () => {
+    const result = calculateResult(validatePlan(DEFAULT_VALUES).parsed);
+    const samplePerGroup = calculateSampleSizePerGroup(0.08, 0.088, 0.05, 0.8);
+
+    expect(result.sampleSizePerGroup).toBe(samplePerGroup);
+    expect(result.totalSampleSize).toBe(samplePerGroup * 2);
+    expect(result.durationDays).toBe(Math.ceil((samplePerGroup * 2) / 12000));
+  });
+
+  it("labels an exact plan past the search limit as sized with the normal approximation", () => {
+    const values = {
+      ...DEFAULT_VALUES,
+      sampleSizeMethod: "exact" as const,
+      baselineRate: "0.5",
+      minDetectableUplift: "2",
+    };
+    const result = calculateResult(validatePlan(values).parsed);
+
+    expect(result.sampleSizeMethod).toBe("normal");
+    expect(result.sampleSizePerGroup).toBe(calculateSampleSizePerGroup(0.005, 0.0051, 0.05, 0.8));
+    expect(exactSearchFellBack(values, result)).toBe(true);
+  });
+});
+
+describe("checkSampleRatio", () => {
+  it("flags a tracked split that is unlikely under the planned one", () => {
+    const result = calculateResult(validatePlan(DEFAULT_VALUES).parsed);
+
+    expect(checkSampleRatio(10000, 10000, result)).toMatchObject({ status: "ok", pValue: 1 });
+    // Chi-square of 2 x 500^2 / 9,500 = 52.6 on one degree of freedom.
+    expect(checkSampleRatio(10000, 9000, result)).toMatchObject({
+      status: "mismatch",
+      observedControlShare: 10000 / 19000,
+    });
+    expect(checkSampleRatio(3, 4, result).status).toBe("insufficient");
+  });
+});
+
+describe("buildScenarioComparison", () => {
+  it("flags the inputs that differ and plans every scenario", () => {
+    const comparison = buildScenarioComparison(
+      [
+        { name: "10% at 50/50", values: DEFAULT_VALUES },
+        { name: "15% at 30/70", values: { ...DEFAULT_VALUES, minDetectableUplift: "15", variantTraffic: "70" } },
+      ],
+      14,
+    );
+
+    const differing = comparison.inputs.filter((row) => row.differs).map((row) => row.label);
+    expect(differing).toEqual(["Minimum detectable uplift", "Traffic split"]);
+    expect(comparison.inputs.find((row) => row.label === "Traffic split")?.values).toEqual([
+      "A 50% / B 50%",
+      "A 30% / B 70%",
+    ]);
+    const [current, larger] = comparison.columns.map((column) => column.plan);
+    expect(current?.result).toEqual(calculateResult(validatePlan(DEFAULT_VALUES).parsed));
+    expect(larger?.result.sampleSizePerGroup).toBeLessThan(current?.result.sampleSizePerGroup ?? 0);
+    expect(larger?.mde.status).toBe("ok");
+  });
+
+  it("reports the first validation error instead of a plan", () => {
+    const comparison = buildScenarioComparison(
+      [
+        { name: "Valid", values: DEFAULT_VALUES },
+        { name: "Broken", values: { ...DEFAULT_VALUES, power: "20" } },
+      ],
+      14,
+    );
+
+    expect(comparison.columns[1]).toEqual({
+      name: "Broken",
+      error: "Enter power between 50 and 99.9 (exclusive).",
+      plan: null,
+    });
+  });
+});
@@ -0,0 +1,2130 @@
+import {
+  BAYESIAN_SIMULATIONS,
+  simulateBayesianSampleSize,
+  type BayesianOutcome,
+  type BayesianSimulationRequest,
+} from "@/lib/bayesian";
+import {
+  buildReadinessSummary,
+  DEFAULT_READINESS_CONFIG,
+  type ReadinessConfig,
+  type ReadinessSummary,
+} from "@/lib/readiness";
+import {
+  calculateEquivalenceSampleSize,
+  calculateExactPower,
+  calculateNonInferioritySampleSize,
+  calculateProportionSampleSize,
+  calculateSampleSizeForMeans,
+  type ProportionSampleSize,
+  type SampleSizeMethod,
+} from "@/lib/sample-size";
+import { chiSquareSurvival, inverseNormalCdf, normalCdf, normalPdf } from "@/lib/statistics";
+
+export type MetricType = "conversion" | "continuous";
+
+// Superiority asks whether B beats A; non-inferiority whether B is no worse than A by more than the
+// margin; equivalence whether B stays within the margin of A either way.
+export type TestType = "two-sided" | "one-sided" | "non-inferiority" | "equivalence";
+
+export type CorrectionMethod = "bonferroni" | "holm" | "dunnett";
+
+export type Framework = "frequentist" | "bayesian";
+
+export type DesignMode = "fixed" | "sequential";
+
+export type TrafficPattern = "flat" | "weekly";
+
+export type SpendingFunction = "obrien-fleming" | "pocock";
+
+export type VariantArm = {
+  traffic: string;
+  uplift: string;
+};
+
+export type RampStep = {
+  days: string;
+  exposure: string;
+};
+
+// One stage of the eligibility funnel: the share (%) of the previous stage's users that reach it.
+export type FunnelStep = {
+  name: string;
+  share: string;
+};
+
+export type FunnelStage = {
+  name: string;
+  // Share of the previous stage that reaches this one; null for the site traffic at the top.
+  share: number | null;
+  users: number;
+};
+
+// A metric the winner must not hurt by more than the margin (% of the baseline). The baseline is a rate
+// (%) for conversions and an average otherwise; the standard deviation is only used for averages.
+export type Guardrail = {
+  name: string;
+  metricType: MetricType;
+  // "lower" for metrics such as churn, where an increase is the degradation.
+  betterWhen: "higher" | "lower";
+  baseline: string;
+  standardDeviation: string;
+  margin: string;
+};
+
+export type FormValues = {
+  metricType: MetricType;
+  sampleSizeMethod: SampleSizeMethod;
+  baselineRate: string;
+  baselineMean: string;
+  standardDeviation: string;
+  minDetectableUplift: string;
+  testType: TestType;
+  // Non-inferiority margin or equivalence bound, as a share (%) of the baseline.
+  testMargin: string;
+  significance: string;
+  power: string;
+  dailyVisitors: string;
+  variantTraffic: string;
+  extraVariants: VariantArm[];
+  correction: CorrectionMethod;
+  designMode: DesignMode;
+  interimLooks: string;
+  spendingFunction: SpendingFunction;
+  framework: Framework;
+  priorAlpha: string;
+  priorBeta: string;
+  decisionThreshold: string;
+  simulationSeed: string;
+  preCorrelation: string;
+  trafficPattern: TrafficPattern;
+  weeklyProfile: string[];
+  startDate: string;
+  roundToWholeWeeks: boolean;
+  rampSteps: RampStep[];
+  // Daily eligible users are derived from site traffic through these steps and the global holdout
+  // when there is at least one step; otherwise dailyVisitors is used as typed.
+  funnelTraffic: string;
+  funnelSteps: FunnelStep[];
+  funnelHoldout: string;
+  guardrails: Guardrail[];
+  // ID of the feature toggle whose rollout sets B's traffic; empty when the plan is not linked.
+  linkedToggle: string;
+};
+
+type FormFieldKey = Exclude<
+  keyof FormValues,
+  | "metricType"
+  | "sampleSizeMethod"
+  | "testType"
+  | "extraVariants"
+  | "correction"
+  | "designMode"
+  | "spendingFunction"
+  | "framework"
+  | "trafficPattern"
+  | "weeklyProfile"
+  | "roundToWholeWeeks"
+  | "rampSteps"
+  | "funnelSteps"
+  | "guardrails"
+  | "linkedToggle"
+>;
+
+export type FormErrors = Record<
+  FormFieldKey | "weeklyProfile" | "rampSteps" | "funnelSteps" | "guardrails",
+  string
+>;
+
+export type PlanValidationErrors = {
+  fieldErrors: Partial<FormErrors>;
+  variantErrors: { index: number; message: string }[];
+  globalError?: string;
+};
+
+type ArmResult = {
+  label: string;
+  trafficShare: number;
+  uplift: number;
+  adjustedAlpha: number;
+  sampleSizePerGroup: number;
+  expectedValue: number;
+};
+
+type SequentialLook = {
+  look: number;
+  informationFraction: number;
+  zBoundary: number;
+  nominalAlpha: number;
+  cumulativeAlpha: number;
+  samplePerGroup: number;
+  totalSample: number;
+  day: number;
+  date: string;
+};
+
+type SequentialPlan = {
+  spendingFunction: SpendingFunction;
+  fixedSampleSizePerGroup: number;
+  maxInflation: number;
+  expectedInflation: number;
+  expectedSampleSizePerGroup: number;
+  looks: SequentialLook[];
+};
+
+type SequentialDesign = {
+  informationFractions: number[];
+  zBoundaries: number[];
+  cumulativeAlpha: number[];
+  maxInflation: number;
+  expectedInflation: number;
+};
+
+// Discretised density of the score process on the continuation region after a look.
+type ContinuationState = {
+  points: number[];
+  masses: number[];
+};
+
+type CupedComparison = {
+  correlation: number;
+  varianceReduction: number;
+  unadjustedSampleSizePerGroup: number;
+  unadjustedTotalSampleSize: number;
+  unadjustedDurationDays: number;
+};
+
+type RampImpact = {
+  rampDays: number;
+  delayDays: number;
+  usersPerVariantDuringRamp: number;
+};
+
+export type GuardrailResult = {
+  name: string;
+  metricType: MetricType;
+  betterWhen: "higher" | "lower";
+  baseline: number;
+  // Relative to the baseline.
+  margin: number;
+  sampleSizePerGroup: number;
+  // How long the plan would run if this guardrail alone set the sample.
+  durationDays: number;
+};
+
+export type Result = {
+  metricType: MetricType;
+  sampleSizeMethod: SampleSizeMethod | null;
+  testType: TestType;
+  // Margin in the metric's own units (rate or average); null for superiority tests.
+  margin: number | null;
+  // The larger of what the primary metric and the guardrails need.
+  sampleSizePerGroup: number;
+  totalSampleSize: number;
+  durationDays: number;
+  collectionDays: number;
+  startDate: string;
+  endDate: string;
+  expectedVariantValue: number;
+  controlShare: number;
+  correction: CorrectionMethod;
+  arms: ArmResult[];
+  sequential: SequentialPlan | null;
+  bayesian: BayesianOutcome | null;
+  cuped: CupedComparison | null;
+  ramp: RampImpact | null;
+  primarySampleSizePerGroup: number;
+  primaryDurationDays: number;
+  guardrails: GuardrailResult[];
+  // Name of the guardrail that needs the most users, or null when the primary metric sets the sample.
+  bottleneck: string | null;
+};
+
+type PrimaryResult = Omit<Result, "primarySampleSizePerGroup" | "primaryDurationDays" | "guardrails" | "bottleneck">;
+
+type ParsedVariant = {
+  traffic: number;
+  uplift: number;
+};
+
+type ParsedRampStep = {
+  days: number;
+  exposure: number;
+};
+
+type ParsedGuardrail = {
+  name: string;
+  metricType: MetricType;
+  betterWhen: "higher" | "lower";
+  // A rate as a fraction for conversions.
+  baseline: number;
+  standardDeviation: number;
+  margin: number;
+};
+
+export type ParsedValues = {
+  metricType: MetricType;
+  sampleSizeMethod: SampleSizeMethod;
+  baselineRate: number;
+  baselineMean: number;
+  standardDeviation: number;
+  uplift: number;
+  testType: TestType;
+  // Share of the baseline.
+  margin: number;
+  significance: number;
+  power: number;
+  dailyVisitors: number;
+  variantTraffic: number;
+  extraVariants: ParsedVariant[];
+  correction: CorrectionMethod;
+  designMode: DesignMode;
+  interimLooks: number;
+  spendingFunction: SpendingFunction;
+  framework: Framework;
+  priorAlpha: number;
+  priorBeta: number;
+  decisionThreshold: number;
+  simulationSeed: number;
+  preCorrelation: number;
+  // Day-of-week multipliers (Monday first) averaging 1, or null for flat traffic.
+  weeklyProfile: number[] | null;
+  startDate: string;
+  roundToWholeWeeks: boolean;
+  rampSteps: ParsedRampStep[];
+  guardrails: ParsedGuardrail[];
+};
+
+export type CurvePoint = {
+  x: number;
+  y: number;
+};
+
+type PlanCurves = {
+  power: CurvePoint[];
+  powerMarker: CurvePoint;
+  mde: CurvePoint[];
+  mdeMarker: CurvePoint | null;
+};
+
+// Sample ratio mismatch check of the tracked A/B users against the planned split.
+export type SrmCheck = {
+  status: "ok" | "mismatch" | "insufficient";
+  chiSquare: number;
+  pValue: number;
+  expectedControlShare: number;
+  observedControlShare: number;
+};
+
+// For margin tests mdePercent is the smallest margin (% of the baseline) the test can prove.
+export type MdeEstimate = {
+  status: "ok" | "input_error" | "days_error" | "not_feasible" | "unsupported";
+  message: string;
+  mdePercent?: number;
+  unadjustedMdePercent?: number;
+  achievableSamplePerGroup?: number;
+};
+
+type ComparisonInputRow = {
+  label: string;
+  values: string[];
+  differs: boolean;
+};
+
+type ComparisonColumn = {
+  name: string;
+  error: string;
+  plan: { result: Result; readiness: ReadinessSummary; mde: MdeEstimate } | null;
+};
+
+export type ScenarioComparison = {
+  inputs: ComparisonInputRow[];
+  columns: ComparisonColumn[];
+};
+
+export const DEFAULT_VALUES: FormValues = {
+  metricType: "conversion",
+  sampleSizeMethod: "normal",
+  baselineRate: "8",
+  baselineMean: "50",
+  standardDeviation: "120",
+  minDetectableUplift: "10",
+  testType: "two-sided",
+  testMargin: "5",
+  significance: "5",
+  power: "80",
+  dailyVisitors: "12000",
+  variantTraffic: "50",
+  extraVariants: [],
+  correction: "bonferroni",
+  designMode: "fixed",
+  interimLooks: "3",
+  spendingFunction: "obrien-fleming",
+  framework: "frequentist",
+  priorAlpha: "1",
+  priorBeta: "1",
+  decisionThreshold: "95",
+  simulationSeed: "42",
+  preCorrelation: "",
+  trafficPattern: "flat",
+  weeklyProfile: ["100", "100", "100", "100", "100", "100", "100"],
+  startDate: "",
+  roundToWholeWeeks: false,
+  rampSteps: [],
+  funnelTraffic: "",
+  funnelSteps: [],
+  funnelHoldout: "",
+  guardrails: [],
+  linkedToggle: "",
+};
+
+export const MAX_VARIANTS = 5;
+// Deadline the detectable-uplift estimate starts from, in days.
+export const DEFAULT_MDE_DAYS = "14";
+
+export const MAX_RAMP_STEPS = 6;
+
+export const MAX_FUNNEL_STEPS = 6;
+
+export const MAX_GUARDRAILS = 5;
+
+// Industry-standard SRM threshold: strict enough that a flag almost always means broken bucketing.
+export const SRM_ALPHA = 0.001;
+
+export const ARM_LABELS = ["B", "C", "D", "E", "F"];
+
+export const TEST_TYPE_LABELS: Record<TestType, string> = {
+  "two-sided": "Superiority, two-sided",
+  "one-sided": "Superiority, one-sided",
+  "non-inferiority": "Non-inferiority",
+  equivalence: "Equivalence (TOST)",
+};
+
+export const CORRECTION_LABELS: Record<CorrectionMethod, string> = {
+  bonferroni: "Bonferroni",
+  holm: "Holm",
+  dunnett: "Dunnett-style",
+};
+
+const MAX_INTERIM_LOOKS = 9;
+
+const SEQUENTIAL_GRID_POINTS = 121;
+
+export const SPENDING_FUNCTION_LABELS: Record<SpendingFunction, string> = {
+  "obrien-fleming": "O'Brien-Fleming",
+  pocock: "Pocock",
+};
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export const SAMPLE_SIZE_METHOD_LABELS: Record<SampleSizeMethod, string> = {
+  normal: "Normal approximation (pooled/unpooled, no continuity correction)",
+  fleiss: "Fleiss continuity correction",
+  arcsine: "Cohen's h (arcsine transform)",
+  exact: "Exact binomial power search",
+};
+
+export const FORM_VALUE_KEYS: FormFieldKey[] = [
+  "baselineRate",
+  "baselineMean",
+  "standardDeviation",
+  "minDetectableUplift",
+  "significance",
+  "power",
+  "dailyVisitors",
+  "variantTraffic",
+  "interimLooks",
+  "priorAlpha",
+  "priorBeta",
+  "decisionThreshold",
+  "simulationSeed",
+  "preCorrelation",
+  "startDate",
+];
+
+export const EMPTY_ERRORS: FormErrors = {
+  baselineRate: "",
+  baselineMean: "",
+  standardDeviation: "",
+  minDetectableUplift: "",
+  testMargin: "",
+  significance: "",
+  power: "",
+  dailyVisitors: "",
+  variantTraffic: "",
+  interimLooks: "",
+  priorAlpha: "",
+  priorBeta: "",
+  decisionThreshold: "",
+  simulationSeed: "",
+  preCorrelation: "",
+  startDate: "",
+  funnelTraffic: "",
+  funnelHoldout: "",
+  weeklyProfile: "",
+  rampSteps: "",
+  funnelSteps: "",
+  guardrails: "",
+};
+
+const POWER_CURVE_TARGETS = [
+  0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95, 0.97, 0.99,
+];
+
+const MDE_CURVE_POINTS = 30;
+
+export function formatNumber(value: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value);
+}
+
+export function formatRate(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+export function formatMean(value: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value);
+}
+
+export function formatMetricValue(value: number, metricType: MetricType): string {
+  return metricType === "continuous" ? formatMean(value) : formatRate(value);
+}
+
+export function formatShare(value: number): string {
+  return `${Number((value * 100).toFixed(2))}%`;
+}
+
+export function formatLiftPoints(value: number): string {
+  return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)} pp`;
+}
+
+export function formatLiftPercent(value: number): string {
+  return Number.isFinite(value) ? `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%` : "n/a";
+}
+
+export function formatPValue(value: number): string {
+  return value < 0.0001 ? "< 0.0001" : value.toFixed(4);
+}
+
+export function formatLoss(value: number): string {
+  return `${(value * 100).toFixed(4)} pp`;
+}
+
+export function formatAlpha(value: number): string {
+  return `${Number((value * 100).toFixed(3))}%`;
+}
+
+function parseMetricType(value: unknown): MetricType {
+  return value === "continuous" ? "continuous" : "conversion";
+}
+
+function parseSampleSizeMethod(value: unknown): SampleSizeMethod {
+  return value === "fleiss" || value === "arcsine" || value === "exact" ? value : "normal";
+}
+
+function parseTestType(value: unknown): TestType {
+  return value === "one-sided" || value === "non-inferiority" || value === "equivalence" ? value : "two-sided";
+}
+
+// Margin tests assume B does not really change the metric and are sized from the margin instead of an uplift.
+export function isMarginTest(testType: TestType): boolean {
+  return testType === "non-inferiority" || testType === "equivalence";
+}
+
+function parseCorrection(value: unknown): CorrectionMethod {
+  return value === "holm" || value === "dunnett" ? value : "bonferroni";
+}
+
+function parseFramework(value: unknown): Framework {
+  return value === "bayesian" ? "bayesian" : "frequentist";
+}
+
+function parseDesignMode(value: unknown): DesignMode {
+  return value === "sequential" ? "sequential" : "fixed";
+}
+
+function parseSpendingFunction(value: unknown): SpendingFunction {
+  return value === "pocock" ? "pocock" : "obrien-fleming";
+}
+
+function parseTrafficPattern(value: unknown): TrafficPattern {
+  return value === "weekly" ? "weekly" : "flat";
+}
+
+function parseWeeklyProfile(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length !== WEEKDAY_LABELS.length) {
+    return DEFAULT_VALUES.weeklyProfile;
+  }
+
+  return value.map((item) => String(item ?? ""));
+}
+
+function parseVariantArms(value: unknown): VariantArm[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item) => item && typeof item === "object")
+    .slice(0, MAX_VARIANTS - 1)
+    .map((item) => ({
+      traffic: String(item.traffic ?? ""),
+      uplift: String(item.uplift ?? ""),
+    }));
+}
+
+function parseRampSteps(value: unknown): RampStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item) => item && typeof item === "object")
+    .slice(0, MAX_RAMP_STEPS)
+    .map((item) => ({
+      days: String(item.days ?? ""),
+      exposure: String(item.exposure ?? ""),
+    }));
+}
+
+function parseFunnelSteps(value: unknown): FunnelStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item) => item && typeof item === "object")
+    .slice(0, MAX_FUNNEL_STEPS)
+    .map((item) => ({
+      name: String(item.name ?? ""),
+      share: String(item.share ?? ""),
+    }));
+}
+
+function parseGuardrails(value: unknown): Guardrail[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item) => item && typeof item === "object")
+    .slice(0, MAX_GUARDRAILS)
+    .map((item) => ({
+      name: String(item.name ?? ""),
+      metricType: parseMetricType(item.metricType),
+      betterWhen: item.betterWhen === "lower" ? "lower" : "higher",
+      baseline: String(item.baseline ?? ""),
+      standardDeviation: String(item.standardDeviation ?? ""),
+      margin: String(item.margin ?? ""),
+    }));
+}
+
+function parseGuardrailsParam(raw: string | null): Guardrail[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parseGuardrails(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+function parseFunnelStepsParam(raw: string | null): FunnelStep[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parseFunnelSteps(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+function parseRampStepsParam(raw: string | null): RampStep[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parseRampSteps(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+function parseVariantArmsParam(raw: string | null): VariantArm[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parseVariantArms(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+// Coerces loosely shaped input (saved scenarios, API request bodies) into FormValues, falling back to
+// the defaults field by field.
+export function parseFormValues(raw: unknown): FormValues {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof FormValues, unknown>>;
+
+  return {
+    metricType: parseMetricType(input.metricType),
+    sampleSizeMethod: parseSampleSizeMethod(input.sampleSizeMethod),
+    baselineRate: String(input.baselineRate ?? DEFAULT_VALUES.baselineRate),
+    baselineMean: String(input.baselineMean ?? DEFAULT_VALUES.baselineMean),
+    standardDeviation: String(input.standardDeviation ?? DEFAULT_VALUES.standardDeviation),
+    minDetectableUplift: String(input.minDetectableUplift ?? DEFAULT_VALUES.minDetectableUplift),
+    testType: parseTestType(input.testType),
+    testMargin: String(input.testMargin ?? DEFAULT_VALUES.testMargin),
+    significance: String(input.significance ?? DEFAULT_VALUES.significance),
+    power: String(input.power ?? DEFAULT_VALUES.power),
+    dailyVisitors: String(input.dailyVisitors ?? DEFAULT_VALUES.dailyVisitors),
+    variantTraffic: String(input.variantTraffic ?? DEFAULT_VALUES.variantTraffic),
+    extraVariants: parseVariantArms(input.extraVariants),
+    correction: parseCorrection(input.correction),
+    designMode: parseDesignMode(input.designMode),
+    interimLooks: String(input.interimLooks ?? DEFAULT_VALUES.interimLooks),
+    spendingFunction: parseSpendingFunction(input.spendingFunction),
+    framework: parseFramework(input.framework),
+    priorAlpha: String(input.priorAlpha ?? DEFAULT_VALUES.priorAlpha),
+    priorBeta: String(input.priorBeta ?? DEFAULT_VALUES.priorBeta),
+    decisionThreshold: String(input.decisionThreshold ?? DEFAULT_VALUES.decisionThreshold),
+    simulationSeed: String(input.simulationSeed ?? DEFAULT_VALUES.simulationSeed),
+    preCorrelation: String(input.preCorrelation ?? DEFAULT_VALUES.preCorrelation),
+    trafficPattern: parseTrafficPattern(input.trafficPattern),
+    weeklyProfile: parseWeeklyProfile(input.weeklyProfile),
+    startDate: String(input.startDate ?? DEFAULT_VALUES.startDate),
+    roundToWholeWeeks: input.roundToWholeWeeks === true,
+    rampSteps: parseRampSteps(input.rampSteps),
+    funnelTraffic: String(input.funnelTraffic ?? DEFAULT_VALUES.funnelTraffic),
+    funnelSteps: parseFunnelSteps(input.funnelSteps),
+    funnelHoldout: String(input.funnelHoldout ?? DEFAULT_VALUES.funnelHoldout),
+    guardrails: parseGuardrails(input.guardrails),
+    linkedToggle: typeof input.linkedToggle === "string" ? input.linkedToggle.trim() : "",
+  };
+}
+
+export function parseValues(values: FormValues): ParsedValues {
+  // Bayesian plans read the posterior instead of a test, so they are always planned as superiority.
+  const testType = values.framework === "bayesian" ? "two-sided" : values.testType;
+  const upliftOf = (uplift: string) => (isMarginTest(testType) ? 0 : Number(uplift) / 100);
+
+  return {
+    metricType: values.metricType,
+    // The alternative methods are for superiority tests on proportions; averages and margin tests use
+    // the normal formula.
+    sampleSizeMethod:
+      values.metricType === "conversion" && !isMarginTest(testType) ? values.sampleSizeMethod : "normal",
+    baselineRate: Number(values.baselineRate) / 100,
+    baselineMean: Number(values.baselineMean),
+    standardDeviation: Number(values.standardDeviation),
+    uplift: upliftOf(values.minDetectableUplift),
+    testType,
+    margin: Number(values.testMargin) / 100,
+    significance: Number(values.significance) / 100,
+    power: Number(values.power) / 100,
+    dailyVisitors: eligibleDailyUsers(values),
+    variantTraffic: Number(values.variantTraffic) / 100,
+    extraVariants: values.extraVariants.map((arm) => ({
+      traffic: Number(arm.traffic) / 100,
+      uplift: upliftOf(arm.uplift),
+    })),
+    correction: values.correction,
+    designMode: values.designMode,
+    interimLooks: Number(values.interimLooks),
+    spendingFunction: values.spendingFunction,
+    framework: values.framework,
+    priorAlpha: Number(values.priorAlpha),
+    priorBeta: Number(values.priorBeta),
+    decisionThreshold: Number(values.decisionThreshold) / 100,
+    simulationSeed: Number(values.simulationSeed),
+    preCorrelation: Number(values.preCorrelation) || 0,
+    weeklyProfile: values.trafficPattern === "weekly" ? normalizeWeeklyProfile(values.weeklyProfile) : null,
+    startDate: values.startDate.trim() || todayIsoDate(),
+    roundToWholeWeeks: values.roundToWholeWeeks,
+    rampSteps: values.rampSteps.map((step) => ({
+      days: Number(step.days),
+      exposure: Number(step.exposure) / 100,
+    })),
+    guardrails: values.guardrails.map((guardrail) => ({
+      name: guardrail.name.trim(),
+      metricType: guardrail.metricType,
+      betterWhen: guardrail.betterWhen,
+      baseline: Number(guardrail.baseline) / (guardrail.metricType === "conversion" ? 100 : 1),
+      standardDeviation: Number(guardrail.standardDeviation),
+      margin: Number(guardrail.margin) / 100,
+    })),
+  };
+}
+
+// Site traffic at the top, then each named step, then the users left outside the global holdout.
+export function buildEligibilityFunnel(values: FormValues): FunnelStage[] {
+  const holdout = Number(values.funnelHoldout) || 0;
+  const shares = [
+    ...values.funnelSteps.map((step) => ({ name: step.name.trim(), share: Number(step.share) })),
+    { name: "Outside the global holdout", share: 100 - holdout },
+  ];
+  const stages: FunnelStage[] = [{ name: "Site traffic", share: null, users: Number(values.funnelTraffic) }];
+  for (const { name, share } of shares) {
+    stages.push({ name, share: share / 100, users: (stages[stages.length - 1].users * share) / 100 });
+  }
+  return stages;
+}
+
+// The funnel's count is rounded down to whole users, so it can be fed in like a typed-in figure.
+export function eligibleDailyUsers(values: FormValues): number {
+  if (values.funnelSteps.length === 0) {
+    return Number(values.dailyVisitors);
+  }
+
+  const stages = buildEligibilityFunnel(values);
+  return Math.floor(stages[stages.length - 1].users);
+}
+
+// Profile values are relative, so they are rescaled to average 1 and users per day keeps meaning the
+// average day.
+function normalizeWeeklyProfile(profile: string[]): number[] {
+  const weights = profile.map(Number);
+  const mean = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+  return weights.map((weight) => weight / mean);
+}
+
+function guardrailError(guardrail: Guardrail): string {
+  const baseline = Number(guardrail.baseline);
+  const standardDeviation = Number(guardrail.standardDeviation);
+  const margin = Number(guardrail.margin);
+
+  if (guardrail.name.trim() === "") {
+    return "needs a name.";
+  }
+  if (guardrail.metricType === "continuous") {
+    if (!Number.isFinite(baseline) || baseline <= 0) {
+      return "needs an average greater than 0.";
+    }
+    if (!Number.isFinite(standardDeviation) || standardDeviation <= 0) {
+      return "needs a standard deviation greater than 0.";
+    }
+  } else if (!Number.isFinite(baseline) || baseline <= 0 || baseline >= 100) {
+    return "needs a baseline rate between 0 and 100 (exclusive).";
+  }
+  if (!Number.isFinite(margin) || margin <= 0 || margin >= 100) {
+    return "needs a tolerable degradation between 0 and 100% (exclusive).";
+  }
+  if (
+    guardrail.metricType === "conversion" &&
+    guardrail.betterWhen === "lower" &&
+    baseline * (1 + margin / 100) >= 100
+  ) {
+    return "reaches 100% at the tolerable degradation. Lower the baseline or the degradation.";
+  }
+  return "";
+}
+
+// Field, variant and cross-field checks shared by the planner form, the planning API and the CLI.
+export function validatePlan(nextValues: FormValues) {
+  const nextErrors: FormErrors = { ...EMPTY_ERRORS };
+  const isContinuous = nextValues.metricType === "continuous";
+  const isBayesian = nextValues.framework === "bayesian";
+  const marginTest = !isBayesian && isMarginTest(nextValues.testType);
+
+  const baselineRate = Number(nextValues.baselineRate);
+  const baselineMean = Number(nextValues.baselineMean);
+  const standardDeviation = Number(nextValues.standardDeviation);
+  const uplift = Number(nextValues.minDetectableUplift);
+  const significance = Number(nextValues.significance);
+  const power = Number(nextValues.power);
+  const dailyVisitors = Number(nextValues.dailyVisitors);
+  const variantTraffic = Number(nextValues.variantTraffic);
+  const interimLooks = Number(nextValues.interimLooks);
+  const testMargin = Number(nextValues.testMargin);
+  const priorAlpha = Number(nextValues.priorAlpha);
+  const priorBeta = Number(nextValues.priorBeta);
+  const decisionThreshold = Number(nextValues.decisionThreshold);
+  const simulationSeed = Number(nextValues.simulationSeed);
+  const preCorrelation = Number(nextValues.preCorrelation);
+
+  if (isContinuous) {
+    if (!Number.isFinite(baselineMean) || baselineMean <= 0) {
+      nextErrors.baselineMean = "Enter an average greater than 0.";
+    }
+
+    if (!Number.isFinite(standardDeviation) || standardDeviation <= 0) {
+      nextErrors.standardDeviation = "Enter a standard deviation greater than 0.";
+    }
+  } else if (!Number.isFinite(baselineRate) || baselineRate <= 0 || baselineRate >= 100) {
+    nextErrors.baselineRate = "Enter a value between 0 and 100 (exclusive).";
+  }
+
+  if (marginTest) {
+    if (!Number.isFinite(testMargin) || testMargin <= 0 || testMargin >= 100) {
+      nextErrors.testMargin = "Enter a margin between 0 and 100% of the baseline (exclusive).";
+    }
+  } else if (!Number.isFinite(uplift) || uplift <= 0 || uplift > 500) {
+    nextErrors.minDetectableUplift = "Enter uplift between 0 and 500%.";
+  }
+
+  if (isBayesian) {
+    if (!Number.isFinite(priorAlpha) || priorAlpha <= 0) {
+      nextErrors.priorAlpha = "Enter a prior alpha greater than 0.";
+    }
+
+    if (!Number.isFinite(priorBeta) || priorBeta <= 0) {
+      nextErrors.priorBeta = "Enter a prior beta greater than 0.";
+    }
+
+    if (!Number.isFinite(decisionThreshold) || decisionThreshold <= 50 || decisionThreshold >= 100) {
+      nextErrors.decisionThreshold = "Enter a threshold between 50 and 100 (exclusive).";
+    }
+
+    if (!Number.isInteger(simulationSeed) || simulationSeed < 0 || simulationSeed > 4294967295) {
+      nextErrors.simulationSeed = "Enter a whole number from 0 to 4294967295.";
+    }
+  } else if (!Number.isFinite(significance) || significance <= 0 || significance >= 50) {
+    nextErrors.significance = "Enter significance between 0 and 50 (exclusive).";
+  }
+
+  if (
+    !isBayesian &&
+    nextValues.preCorrelation.trim() !== "" &&
+    (!Number.isFinite(preCorrelation) || preCorrelation <= -1 || preCorrelation >= 1)
+  ) {
+    nextErrors.preCorrelation = "Enter a correlation between -1 and 1 (exclusive), or leave blank.";
+  }
+
+  if (!Number.isFinite(power) || power <= 50 || power >= 99.9) {
+    nextErrors.power = "Enter power between 50 and 99.9 (exclusive).";
+  }
+
+  if (nextValues.funnelSteps.length > 0) {
+    const funnelTraffic = Number(nextValues.funnelTraffic);
+    const funnelHoldout = Number(nextValues.funnelHoldout);
+    if (!Number.isFinite(funnelTraffic) || funnelTraffic < 1 || !Number.isInteger(funnelTraffic)) {
+      nextErrors.funnelTraffic = "Enter an integer >= 1.";
+    }
+    if (!Number.isFinite(funnelHoldout) || funnelHoldout < 0 || funnelHoldout >= 100) {
+      nextErrors.funnelHoldout = "Enter a holdout from 0 to 100 (100 exclusive), or leave blank for none.";
+    }
+    if (
+      nextValues.funnelSteps.some((step) => {
+        const share = Number(step.share);
+        return step.name.trim() === "" || !Number.isFinite(share) || share <= 0 || share > 100;
+      })
+    ) {
+      nextErrors.funnelSteps = "Each funnel step needs a name and a share between 0 and 100 (0 exclusive).";
+    } else if (!nextErrors.funnelTraffic && !nextErrors.funnelHoldout && eligibleDailyUsers(nextValues) < 1) {
+      nextErrors.funnelSteps = "The funnel leaves fewer than 1 eligible user a day.";
+    }
+  } else if (!Number.isFinite(dailyVisitors) || dailyVisitors < 1 || !Number.isInteger(dailyVisitors)) {
+    nextErrors.dailyVisitors = "Enter an integer >= 1.";
+  }
+
+  if (nextValues.trafficPattern === "weekly") {
+    const weights = nextValues.weeklyProfile.map(Number);
+    if (
+      nextValues.weeklyProfile.some((weight) => weight.trim() === "") ||
+      weights.some((weight) => !Number.isFinite(weight) || weight < 0)
+    ) {
+      nextErrors.weeklyProfile = "Enter a traffic value >= 0 for every day of the week.";
+    } else if (weights.every((weight) => weight === 0)) {
+      nextErrors.weeklyProfile = "At least one day of the week needs traffic.";
+    }
+  }
+
+  if (
+    nextValues.rampSteps.some((step) => {
+      const days = Number(step.days);
+      const exposure = Number(step.exposure);
+      return (
+        !Number.isInteger(days) || days < 1 || !Number.isFinite(exposure) || exposure <= 0 || exposure > 100
+      );
+    })
+  ) {
+    nextErrors.rampSteps = "Each ramp step needs whole days >= 1 and traffic in test between 0 and 100 (0 exclusive).";
+  }
+
+  const guardrailIndex = nextValues.guardrails.findIndex((guardrail) => guardrailError(guardrail));
+  if (guardrailIndex >= 0) {
+    nextErrors.guardrails = `Guardrail ${guardrailIndex + 1} ${guardrailError(nextValues.guardrails[guardrailIndex])}`;
+  }
+
+  if (nextValues.startDate.trim() !== "" && !isValidIsoDate(nextValues.startDate.trim())) {
+    nextErrors.startDate = "Enter a date as YYYY-MM-DD, or leave blank to start today.";
+  }
+
+  if (!Number.isFinite(variantTraffic) || variantTraffic <= 0 || variantTraffic >= 100) {
+    nextErrors.variantTraffic = "Enter a value between 0 and 100 (exclusive).";
+  }
+
+  if (
+    !isBayesian &&
+    nextValues.designMode === "sequential" &&
+    (!Number.isInteger(interimLooks) || interimLooks < 1 || interimLooks > MAX_INTERIM_LOOKS)
+  ) {
+    nextErrors.interimLooks = `Enter a whole number of interim looks from 1 to ${MAX_INTERIM_LOOKS}.`;
+  }
+
+  const nextVariantErrors = nextValues.extraVariants.map((arm) => {
+    const traffic = Number(arm.traffic);
+    const armUplift = Number(arm.uplift);
+    if (!Number.isFinite(traffic) || traffic <= 0 || traffic >= 100) {
+      return "Traffic must be between 0 and 100 (exclusive).";
+    }
+    if (!marginTest && (!Number.isFinite(armUplift) || armUplift <= 0 || armUplift > 500)) {
+      return "Uplift must be between 0 and 500%.";
+    }
+    return "";
+  });
+
+  const totalVariantTraffic = nextValues.extraVariants.reduce(
+    (sum, arm) => sum + Number(arm.traffic),
+    variantTraffic,
+  );
+  const maxUplift = Math.max(uplift, ...nextValues.extraVariants.map((arm) => Number(arm.uplift)));
+  const expectedVariantRate = (baselineRate / 100) * (1 + maxUplift / 100);
+  const nextGlobalError =
+    Number.isFinite(totalVariantTraffic) && totalVariantTraffic >= 100
+      ? `Variant traffic adds up to ${Number(totalVariantTraffic.toFixed(2))}%. Leave some traffic for control A.`
+      : !isContinuous && !marginTest && Number.isFinite(expectedVariantRate) && expectedVariantRate >= 1
+        ? "Expected variant conversion rate reaches or exceeds 100%. Lower baseline or uplift."
+        : !isBayesian && nextValues.designMode === "sequential" && nextValues.testType !== "two-sided"
+          ? "Group-sequential boundaries are two-sided. Switch the test type to two-sided superiority or use a fixed horizon."
+          : isBayesian && isContinuous
+            ? "Bayesian mode uses Beta priors on conversion rates. Switch the metric type to conversion rate."
+            : isBayesian && nextValues.extraVariants.length > 0
+              ? "Bayesian mode compares A and B only. Remove the additional variants."
+              : "";
+
+  return {
+    nextErrors,
+    nextVariantErrors,
+    nextGlobalError,
+    parsed: parseValues(nextValues),
+  };
+}
+
+// Keeps only the failing messages, in the shape the planning API and CLI report them.
+export function collectPlanErrors(validation: ReturnType<typeof validatePlan>): PlanValidationErrors | null {
+  const fieldErrors = Object.fromEntries(
+    Object.entries(validation.nextErrors).filter(([, message]) => message),
+  ) as Partial<FormErrors>;
+  const variantErrors = validation.nextVariantErrors
+    .map((message, index) => ({ index, message }))
+    .filter((item) => item.message);
+
+  if (Object.keys(fieldErrors).length === 0 && variantErrors.length === 0 && !validation.nextGlobalError) {
+    return null;
+  }
+
+  return {
+    fieldErrors,
+    variantErrors,
+    ...(validation.nextGlobalError ? { globalError: validation.nextGlobalError } : {}),
+  };
+}
+
+// The one message to show when a saved plan cannot be planned.
+export function firstPlanError(errors: PlanValidationErrors): string {
+  return (
+    Object.values(errors.fieldErrors)[0] ?? errors.variantErrors[0]?.message ?? errors.globalError ?? "Invalid inputs."
+  );
+}
+
+export function valuesFromSearchParams(searchParams: { get: (key: string) => string | null }): FormValues {
+  const initialValues: FormValues = {
+    ...DEFAULT_VALUES,
+    metricType: parseMetricType(searchParams.get("metricType")),
+    sampleSizeMethod: parseSampleSizeMethod(searchParams.get("sampleSizeMethod")),
+    testType: parseTestType(searchParams.get("testType")),
+    testMargin: searchParams.get("testMargin") ?? DEFAULT_VALUES.testMargin,
+    extraVariants: parseVariantArmsParam(searchParams.get("extraVariants")),
+    correction: parseCorrection(searchParams.get("correction")),
+    designMode: parseDesignMode(searchParams.get("designMode")),
+    spendingFunction: parseSpendingFunction(searchParams.get("spendingFunction")),
+    framework: parseFramework(searchParams.get("framework")),
+    trafficPattern: parseTrafficPattern(searchParams.get("trafficPattern")),
+    weeklyProfile: parseWeeklyProfile(searchParams.get("weeklyProfile")?.split(",")),
+    roundToWholeWeeks: searchParams.get("roundToWholeWeeks") === "1",
+    rampSteps: parseRampStepsParam(searchParams.get("rampSteps")),
+    funnelTraffic: searchParams.get("funnelTraffic") ?? DEFAULT_VALUES.funnelTraffic,
+    funnelSteps: parseFunnelStepsParam(searchParams.get("funnelSteps")),
+    funnelHoldout: searchParams.get("funnelHoldout") ?? DEFAULT_VALUES.funnelHoldout,
+    guardrails: parseGuardrailsParam(searchParams.get("guardrails")),
+    linkedToggle: searchParams.get("linkedToggle")?.trim() ?? "",
+  };
+
+  for (const key of FORM_VALUE_KEYS) {
+    const param = searchParams.get(key);
+    if (param && param.trim() !== "") {
+      initialValues[key] = param;
+    }
+  }
+
+  return initialValues;
+}
+
+export function valuesToQueryString(values: FormValues): string {
+  const params = new URLSearchParams();
+  params.set("metricType", values.metricType);
+  if (values.sampleSizeMethod !== "normal") {
+    params.set("sampleSizeMethod", values.sampleSizeMethod);
+  }
+  for (const key of FORM_VALUE_KEYS) {
+    params.set(key, values[key]);
+  }
+  if (values.testType !== "two-sided") {
+    params.set("testType", values.testType);
+  }
+  if (isMarginTest(values.testType)) {
+    params.set("testMargin", values.testMargin);
+  }
+  if (values.extraVariants.length > 0) {
+    params.set("extraVariants", JSON.stringify(values.extraVariants));
+    params.set("correction", values.correction);
+  }
+  if (values.framework === "bayesian") {
+    params.set("framework", values.framework);
+  }
+  if (values.designMode === "sequential") {
+    params.set("designMode", values.designMode);
+    params.set("spendingFunction", values.spendingFunction);
+  }
+  if (values.trafficPattern === "weekly") {
+    params.set("trafficPattern", values.trafficPattern);
+    params.set("weeklyProfile", values.weeklyProfile.join(","));
+  }
+  if (values.roundToWholeWeeks) {
+    params.set("roundToWholeWeeks", "1");
+  }
+  if (values.rampSteps.length > 0) {
+    params.set("rampSteps", JSON.stringify(values.rampSteps));
+  }
+  if (values.funnelSteps.length > 0) {
+    params.set("funnelTraffic", values.funnelTraffic);
+    params.set("funnelSteps", JSON.stringify(values.funnelSteps));
+    if (values.funnelHoldout.trim() !== "") {
+      params.set("funnelHoldout", values.funnelHoldout);
+    }
+  }
+  if (values.guardrails.length > 0) {
+    params.set("guardrails", JSON.stringify(values.guardrails));
+  }
+  if (values.linkedToggle) {
+    params.set("linkedToggle", values.linkedToggle);
+  }
+  return params.toString();
+}
+
+export function todayIsoDate(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function isValidIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+export function addDaysToIsoDate(value: string, days: number): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Monday is 0 so the index lines up with WEEKDAY_LABELS and the weekly profile.
+function weekdayIndex(value: string): number {
+  return (new Date(`${value}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+export function formatIsoDate(value: string): string {
+  return `${WEEKDAY_LABELS[weekdayIndex(value)]} ${value}`;
+}
+
+function totalRampDays(parsed: ParsedValues): number {
+  return parsed.rampSteps.reduce((sum, step) => sum + step.days, 0);
+}
+
+// Share of the planned allocation that is live on a given day; the test runs at full allocation once
+// the ramp is over.
+function rampExposureOn(parsed: ParsedValues, dayOffset: number): number {
+  let stepEnd = 0;
+  for (const step of parsed.rampSteps) {
+    stepEnd += step.days;
+    if (dayOffset < stepEnd) {
+      return step.exposure;
+    }
+  }
+  return 1;
+}
+
+function armUsersOnDay(parsed: ParsedValues, share: number, dayOffset: number): number {
+  const multiplier = parsed.weeklyProfile
+    ? parsed.weeklyProfile[(weekdayIndex(parsed.startDate) + dayOffset) % 7]
+    : 1;
+  return parsed.dailyVisitors * share * multiplier * rampExposureOn(parsed, dayOffset);
+}
+
+// Walks calendar days from the start date until an arm with this traffic share has collected the
+// sample. Ramp days are walked one by one; after that every full week brings the same users, so all
+// but the last week are skipped in one step.
+export function daysToCollect(parsed: ParsedValues, samplePerGroup: number, share: number): number {
+  const rampDays = totalRampDays(parsed);
+  let days = 0;
+  let collected = 0;
+  while (days < rampDays && collected < samplePerGroup) {
+    collected += armUsersOnDay(parsed, share, days);
+    days += 1;
+  }
+
+  if (collected >= samplePerGroup) {
+    return days;
+  }
+
+  if (!parsed.weeklyProfile) {
+    return days + Math.ceil((samplePerGroup - collected) / (parsed.dailyVisitors * share));
+  }
+
+  const weeklyUsers = parsed.dailyVisitors * share * 7;
+  const skippedWeeks = Math.max(0, Math.floor((samplePerGroup - collected) / weeklyUsers) - 1);
+  days += skippedWeeks * 7;
+  collected += skippedWeeks * weeklyUsers;
+  while (collected < samplePerGroup) {
+    collected += armUsersOnDay(parsed, share, days);
+    days += 1;
+  }
+  return days;
+}
+
+function usersCollectedBy(parsed: ParsedValues, days: number, share: number): number {
+  const rampDays = Math.min(days, totalRampDays(parsed));
+  let collected = 0;
+  for (let day = 0; day < rampDays; day += 1) {
+    collected += armUsersOnDay(parsed, share, day);
+  }
+
+  if (!parsed.weeklyProfile) {
+    return collected + parsed.dailyVisitors * share * (days - rampDays);
+  }
+
+  const fullWeeks = Math.floor((days - rampDays) / 7);
+  collected += fullWeeks * parsed.dailyVisitors * share * 7;
+  for (let day = rampDays + fullWeeks * 7; day < days; day += 1) {
+    collected += armUsersOnDay(parsed, share, day);
+  }
+  return collected;
+}
+
+// How much later the sample fills up than it would at full allocation from day one, plus what the
+// smallest arm picks up while ramping.
+function rampImpactFor(parsed: ParsedValues, samplePerGroup: number, collectionDays: number): RampImpact | null {
+  if (parsed.rampSteps.length === 0) {
+    return null;
+  }
+
+  const share = smallestArmShare(parsed);
+  const rampDays = totalRampDays(parsed);
+  return {
+    rampDays,
+    delayDays: collectionDays - daysToCollect({ ...parsed, rampSteps: [] }, samplePerGroup, share),
+    usersPerVariantDuringRamp: Math.floor(usersCollectedBy(parsed, Math.min(rampDays, collectionDays), share)),
+  };
+}
+
+function plannedDuration(parsed: ParsedValues, collectionDays: number): number {
+  return parsed.roundToWholeWeeks ? Math.ceil(collectionDays / 7) * 7 : collectionDays;
+}
+
+// How long a sized plan runs with different daily traffic or another start date. The sample it needs
+// stays the same; only how fast it fills up changes.
+export function durationWithTraffic(
+  parsed: ParsedValues,
+  result: Result,
+  dailyVisitors: number,
+  startDate: string,
+): number {
+  const adjusted = { ...parsed, dailyVisitors, startDate };
+  return plannedDuration(adjusted, daysToCollect(adjusted, result.sampleSizePerGroup, smallestArmShare(adjusted)));
+}
+
+function expectedVariantValue(parsed: ParsedValues, uplift: number): number {
+  const baseline = parsed.metricType === "continuous" ? parsed.baselineMean : parsed.baselineRate;
+  return baseline * (1 + uplift);
+}
+
+// CUPED regresses the metric on its pre-period value, leaving (1 - rho^2) of the variance, and the
+// required sample scales with the variance.
+function cupedVarianceFactor(parsed: ParsedValues): number {
+  return 1 - parsed.preCorrelation * parsed.preCorrelation;
+}
+
+// The superiority formulas are two-sided, so a one-sided test at alpha uses them at 2 x alpha.
+function twoSidedAlphaFor(parsed: ParsedValues, alpha: number): number {
+  return parsed.testType === "one-sided" ? 2 * alpha : alpha;
+}
+
+function marginSampleSizePerGroup(parsed: ParsedValues, alpha: number): number {
+  const isContinuous = parsed.metricType === "continuous";
+  const baseline = isContinuous ? parsed.baselineMean : parsed.baselineRate;
+  const variance = isContinuous
+    ? parsed.standardDeviation * parsed.standardDeviation
+    : parsed.baselineRate * (1 - parsed.baselineRate);
+  const margin = parsed.margin * baseline;
+
+  return parsed.testType === "equivalence"
+    ? calculateEquivalenceSampleSize(variance, margin, alpha, parsed.power)
+    : calculateNonInferioritySampleSize(variance, margin, alpha, parsed.power);
+}
+
+// Also returns the method that sized the comparison, which is the normal approximation when an exact
+// search would need more than EXACT_SEARCH_LIMIT users per group.
+function sizeComparison(parsed: ParsedValues, uplift: number, alpha: number): ProportionSampleSize {
+  const unadjusted: ProportionSampleSize = isMarginTest(parsed.testType)
+    ? { samplePerGroup: marginSampleSizePerGroup(parsed, alpha), method: "normal" }
+    : parsed.metricType === "continuous"
+      ? {
+          samplePerGroup: calculateSampleSizeForMeans(
+            parsed.baselineMean,
+            expectedVariantValue(parsed, uplift),
+            parsed.standardDeviation,
+            twoSidedAlphaFor(parsed, alpha),
+            parsed.power,
+          ),
+          method: "normal",
+        }
+      : calculateProportionSampleSize(
+          parsed.sampleSizeMethod,
+          parsed.baselineRate,
+          expectedVariantValue(parsed, uplift),
+          twoSidedAlphaFor(parsed, alpha),
+          parsed.power,
+        );
+
+  return parsed.preCorrelation
+    ? { ...unadjusted, samplePerGroup: Math.ceil(unadjusted.samplePerGroup * cupedVarianceFactor(parsed)) }
+    : unadjusted;
+}
+
+function requiredSampleSizePerGroup(
+  parsed: ParsedValues,
+  uplift: number,
+  alpha: number = parsed.significance,
+): number {
+  return sizeComparison(parsed, uplift, alpha).samplePerGroup;
+}
+
+function variantArms(parsed: ParsedValues): ParsedVariant[] {
+  return [{ traffic: parsed.variantTraffic, uplift: parsed.uplift }, ...parsed.extraVariants];
+}
+
+function controlShareOf(parsed: ParsedValues): number {
+  return 1 - variantArms(parsed).reduce((sum, arm) => sum + arm.traffic, 0);
+}
+
+function smallestArmShare(parsed: ParsedValues): number {
+  return Math.min(controlShareOf(parsed), ...variantArms(parsed).map((arm) => arm.traffic));
+}
+
+// Two-sided critical value for k many-to-one comparisons against a shared control. With equal
+// per-arm sample sizes the test statistics are equicorrelated with rho = 0.5, so the joint
+// probability reduces to a one-dimensional integral over the shared control noise.
+function dunnettCriticalValue(comparisons: number, alpha: number): number {
+  const rho = 0.5;
+  const sqrtRho = Math.sqrt(rho);
+  const sqrtOneMinusRho = Math.sqrt(1 - rho);
+
+  const coverage = (critical: number) => {
+    const steps = 400;
+    const from = -8;
+    const width = 16 / steps;
+    let total = 0;
+    for (let i = 0; i <= steps; i += 1) {
+      const w = from + i * width;
+      const inside =
+        normalCdf((critical + sqrtRho * w) / sqrtOneMinusRho) -
+        normalCdf((-critical + sqrtRho * w) / sqrtOneMinusRho);
+      const weight = i === 0 || i === steps ? 1 : i % 2 === 1 ? 4 : 2;
+      total += weight * normalPdf(w) * Math.pow(inside, comparisons);
+    }
+    return (total * width) / 3;
+  };
+
+  let low = inverseNormalCdf(1 - alpha / 2);
+  let high = inverseNormalCdf(1 - alpha / (2 * comparisons));
+  for (let i = 0; i < 50; i += 1) {
+    const mid = (low + high) / 2;
+    if (coverage(mid) < 1 - alpha) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return high;
+}
+
+// Per-comparison alpha for each variant arm. Holm is planned as if the arms are rejected in order
+// of expected uplift, so the largest expected effect is tested at alpha / k, the next at
+// alpha / (k - 1), and so on.
+function adjustedAlphas(arms: ParsedVariant[], alpha: number, correction: CorrectionMethod): number[] {
+  const comparisons = arms.length;
+  if (comparisons <= 1) {
+    return arms.map(() => alpha);
+  }
+
+  if (correction === "dunnett") {
+    const critical = dunnettCriticalValue(comparisons, alpha);
+    const perComparison = 2 * (1 - normalCdf(critical));
+    return arms.map(() => perComparison);
+  }
+
+  if (correction === "holm") {
+    const order = arms
+      .map((arm, index) => ({ index, uplift: arm.uplift }))
+      .sort((a, b) => b.uplift - a.uplift);
+    const alphas = new Array<number>(comparisons);
+    order.forEach((item, rank) => {
+      alphas[item.index] = alpha / (comparisons - rank);
+    });
+    return alphas;
+  }
+
+  return arms.map(() => alpha / comparisons);
+}
+
+export function bayesianRequestFor(parsed: ParsedValues): BayesianSimulationRequest {
+  return {
+    baselineRate: parsed.baselineRate,
+    variantRate: expectedVariantValue(parsed, parsed.uplift),
+    priorAlpha: parsed.priorAlpha,
+    priorBeta: parsed.priorBeta,
+    threshold: parsed.decisionThreshold,
+    targetShare: parsed.power,
+    seed: parsed.simulationSeed,
+    simulations: BAYESIAN_SIMULATIONS,
+  };
+}
+
+// Guardrails are checked with a non-inferiority test per variant, read off the same interval as the
+// primary metric: one-sided at half the significance for two-sided plans (the lower bound of the
+// two-sided interval), at the significance for one-sided test types, or at 1 - threshold for Bayesian
+// plans. The margin is a share of the guardrail's baseline, so it works the same whichever way the metric
+// improves.
+function guardrailSampleSizePerGroup(parsed: ParsedValues, guardrail: ParsedGuardrail): number {
+  const alpha =
+    parsed.framework === "bayesian"
+      ? 1 - parsed.decisionThreshold
+      : parsed.testType === "two-sided"
+        ? parsed.significance / 2
+        : parsed.significance;
+  const variance =
+    guardrail.metricType === "continuous"
+      ? guardrail.standardDeviation * guardrail.standardDeviation
+      : guardrail.baseline * (1 - guardrail.baseline);
+
+  return calculateNonInferioritySampleSize(variance, guardrail.margin * guardrail.baseline, alpha, parsed.power);
+}
+
+// Bayesian plans take their per-group sample from the simulation. The UI runs it in a web worker
+// and passes the outcome in; other callers get it computed synchronously. The plan then runs until
+// the primary metric and every guardrail have the users they need.
+export function calculateResult(parsed: ParsedValues, bayesianOutcome: BayesianOutcome | null = null): Result {
+  const primary = calculatePrimaryResult(parsed, bayesianOutcome);
+  const smallestShare = smallestArmShare(parsed);
+  const guardrails: GuardrailResult[] = parsed.guardrails.map((guardrail) => {
+    const sampleSizePerGroup = guardrailSampleSizePerGroup(parsed, guardrail);
+    return {
+      name: guardrail.name,
+      metricType: guardrail.metricType,
+      betterWhen: guardrail.betterWhen,
+      baseline: guardrail.baseline,
+      margin: guardrail.margin,
+      sampleSizePerGroup,
+      durationDays: plannedDuration(parsed, daysToCollect(parsed, sampleSizePerGroup, smallestShare)),
+    };
+  });
+  const bottleneck = guardrails.reduce<GuardrailResult | null>(
+    (largest, guardrail) =>
+      guardrail.sampleSizePerGroup > (largest?.sampleSizePerGroup ?? primary.sampleSizePerGroup) ? guardrail : largest,
+    null,
+  );
+
+  const summary = {
+    primarySampleSizePerGroup: primary.sampleSizePerGroup,
+    primaryDurationDays: primary.durationDays,
+    guardrails,
+    bottleneck: null,
+  };
+  if (!bottleneck) {
+    return { ...primary, ...summary };
+  }
+
+  const sampleSizePerGroup = bottleneck.sampleSizePerGroup;
+  const collectionDays = daysToCollect(parsed, sampleSizePerGroup, smallestShare);
+  const durationDays = plannedDuration(parsed, collectionDays);
+  return {
+    ...primary,
+    ...summary,
+    sequential: primary.sequential && rescaleSequentialPlan(parsed, primary.sequential, sampleSizePerGroup),
+    sampleSizePerGroup,
+    totalSampleSize: sampleSizePerGroup * (primary.arms.length + 1),
+    durationDays,
+    collectionDays,
+    endDate: addDaysToIsoDate(parsed.startDate, durationDays - 1),
+    ramp: rampImpactFor(parsed, sampleSizePerGroup, collectionDays),
+    bottleneck: bottleneck.name,
+  };
+}
+
+// Keeps the looks at the same information fractions of the larger sample a guardrail needs, so the
+// boundaries still hold and the last look falls on the plan's last day. Every look comes later than
+// the primary metric alone would need.
+function rescaleSequentialPlan(parsed: ParsedValues, sequential: SequentialPlan, samplePerGroup: number): SequentialPlan {
+  const groups = variantArms(parsed).length + 1;
+  const scale = samplePerGroup / sequential.looks[sequential.looks.length - 1].samplePerGroup;
+  return {
+    ...sequential,
+    expectedSampleSizePerGroup: Math.ceil(sequential.expectedSampleSizePerGroup * scale),
+    looks: sequential.looks.map((look) => {
+      const lookSample = Math.ceil(samplePerGroup * look.informationFraction);
+      const day = daysToCollect(parsed, lookSample, smallestArmShare(parsed));
+      return {
+        ...look,
+        samplePerGroup: lookSample,
+        totalSample: lookSample * groups,
+        day,
+        date: addDaysToIsoDate(parsed.startDate, day - 1),
+      };
+    }),
+  };
+}
+
+function calculatePrimaryResult(parsed: ParsedValues, bayesianOutcome: BayesianOutcome | null): PrimaryResult {
+  const bayesian =
+    parsed.framework === "bayesian"
+      ? (bayesianOutcome ?? simulateBayesianSampleSize(bayesianRequestFor(parsed)))
+      : null;
+  const arms = variantArms(parsed);
+  const alphas = adjustedAlphas(arms, parsed.significance, parsed.correction);
+  const sized = arms.map((arm, index) =>
+    bayesian
+      ? { samplePerGroup: bayesian.sampleSizePerGroup, method: null }
+      : sizeComparison(parsed, arm.uplift, alphas[index]),
+  );
+  const armResults: ArmResult[] = arms.map((arm, index) => ({
+    label: ARM_LABELS[index],
+    trafficShare: arm.traffic,
+    uplift: arm.uplift,
+    adjustedAlpha: alphas[index],
+    sampleSizePerGroup: sized[index].samplePerGroup,
+    expectedValue: expectedVariantValue(parsed, arm.uplift),
+  }));
+
+  // Every arm, control included, is sized for the hardest comparison; the smallest arm then
+  // decides how long it takes to get there.
+  const sampleSizePerGroup = Math.max(...armResults.map((arm) => arm.sampleSizePerGroup));
+  const hardest = sized.find((size) => size.samplePerGroup === sampleSizePerGroup) ?? sized[0];
+  const smallestShare = smallestArmShare(parsed);
+  const collectionDays = daysToCollect(parsed, sampleSizePerGroup, smallestShare);
+  const durationDays = plannedDuration(parsed, collectionDays);
+
+  // The simulation works on raw Beta-Binomial counts, so CUPED only applies to frequentist plans.
+  // Guardrails are not CUPED-adjusted, so the comparison covers the primary metric only.
+  const unadjusted =
+    parsed.preCorrelation && !bayesian ? calculatePrimaryResult({ ...parsed, preCorrelation: 0 }, null) : null;
+  const cuped: CupedComparison | null = unadjusted
+    ? {
+        correlation: parsed.preCorrelation,
+        varianceReduction: 1 - cupedVarianceFactor(parsed),
+        unadjustedSampleSizePerGroup: unadjusted.sampleSizePerGroup,
+        unadjustedTotalSampleSize: unadjusted.totalSampleSize,
+        unadjustedDurationDays: unadjusted.durationDays,
+      }
+    : null;
+
+  const base: PrimaryResult = {
+    metricType: parsed.metricType,
+    // The method that sized the hardest comparison, so an exact search that fell back reads as normal.
+    sampleSizeMethod: hardest.method,
+    testType: parsed.testType,
+    margin: isMarginTest(parsed.testType)
+      ? parsed.margin * (parsed.metricType === "continuous" ? parsed.baselineMean : parsed.baselineRate)
+      : null,
+    sampleSizePerGroup,
+    totalSampleSize: sampleSizePerGroup * (arms.length + 1),
+    durationDays,
+    collectionDays,
+    startDate: parsed.startDate,
+    endDate: addDaysToIsoDate(parsed.startDate, durationDays - 1),
+    expectedVariantValue: expectedVariantValue(parsed, parsed.uplift),
+    controlShare: controlShareOf(parsed),
+    correction: parsed.correction,
+    arms: armResults,
+    sequential: null,
+    bayesian,
+    cuped,
+    ramp: rampImpactFor(parsed, sampleSizePerGroup, collectionDays),
+  };
+
+  if (bayesian || parsed.designMode !== "sequential") {
+    return base;
+  }
+
+  // The sequential design is sized for the comparison that drives the fixed sample size, so its
+  // boundaries use that arm's corrected alpha.
+  const driver = armResults.reduce((largest, arm) =>
+    arm.sampleSizePerGroup > largest.sampleSizePerGroup ? arm : largest,
+  );
+  const design = sequentialDesign(
+    parsed.interimLooks + 1,
+    parsed.spendingFunction,
+    driver.adjustedAlpha,
+    parsed.power,
+  );
+  const maxSamplePerGroup = Math.ceil(sampleSizePerGroup * design.maxInflation);
+  const looks: SequentialLook[] = design.informationFractions.map((fraction, index) => {
+    const samplePerGroup = Math.ceil(maxSamplePerGroup * fraction);
+    const day = daysToCollect(parsed, samplePerGroup, smallestShare);
+    return {
+      look: index + 1,
+      informationFraction: fraction,
+      zBoundary: design.zBoundaries[index],
+      nominalAlpha: 2 * (1 - normalCdf(design.zBoundaries[index])),
+      cumulativeAlpha: design.cumulativeAlpha[index],
+      samplePerGroup,
+      totalSample: samplePerGroup * (arms.length + 1),
+      day,
+      date: addDaysToIsoDate(parsed.startDate, day - 1),
+    };
+  });
+
+  const sequentialDuration = plannedDuration(parsed, looks[looks.length - 1].day);
+
+  return {
+    ...base,
+    sampleSizePerGroup: maxSamplePerGroup,
+    totalSampleSize: maxSamplePerGroup * (arms.length + 1),
+    durationDays: sequentialDuration,
+    collectionDays: looks[looks.length - 1].day,
+    endDate: addDaysToIsoDate(parsed.startDate, sequentialDuration - 1),
+    ramp: rampImpactFor(parsed, maxSamplePerGroup, looks[looks.length - 1].day),
+    sequential: {
+      spendingFunction: parsed.spendingFunction,
+      fixedSampleSizePerGroup: sampleSizePerGroup,
+      maxInflation: design.maxInflation,
+      expectedInflation: design.expectedInflation,
+      expectedSampleSizePerGroup: Math.ceil(sampleSizePerGroup * design.expectedInflation),
+      looks,
+    },
+  };
+}
+
+function alphaSpent(fraction: number, alpha: number, spending: SpendingFunction): number {
+  if (fraction >= 1) {
+    return alpha;
+  }
+
+  if (spending === "pocock") {
+    return alpha * Math.log(1 + (Math.E - 1) * fraction);
+  }
+
+  // Symmetric two-sided design: each side spends alpha / 2 on the Lan-DeMets O'Brien-Fleming curve.
+  return 4 - 4 * normalCdf(inverseNormalCdf(1 - alpha / 4) / Math.sqrt(fraction));
+}
+
+function simpsonWeights(count: number, step: number): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    ((i === 0 || i === count - 1 ? 1 : i % 2 === 1 ? 4 : 2) * step) / 3,
+  );
+}
+
+function continuationAfterLook(
+  previous: ContinuationState | null,
+  fraction: number,
+  previousFraction: number,
+  bound: number,
+  drift: number,
+): ContinuationState {
+  const limit = bound * Math.sqrt(fraction);
+  const step = (2 * limit) / (SEQUENTIAL_GRID_POINTS - 1);
+  const weights = simpsonWeights(SEQUENTIAL_GRID_POINTS, step);
+  const points = weights.map((_, i) => -limit + i * step);
+  const sd = Math.sqrt(fraction - previousFraction);
+  const shift = drift * (fraction - previousFraction);
+
+  const masses = points.map((point, i) => {
+    if (!previous) {
+      return (weights[i] * normalPdf((point - shift) / sd)) / sd;
+    }
+    let density = 0;
+    for (let j = 0; j < previous.points.length; j += 1) {
+      density += previous.masses[j] * normalPdf((point - previous.points[j] - shift) / sd);
+    }
+    return (weights[i] * density) / sd;
+  });
+
+  return { points, masses };
+}
+
+function crossingProbability(
+  previous: ContinuationState | null,
+  fraction: number,
+  previousFraction: number,
+  bound: number,
+  drift: number,
+): number {
+  const limit = bound * Math.sqrt(fraction);
+  const sd = Math.sqrt(fraction - previousFraction);
+  const shift = drift * (fraction - previousFraction);
+  const outside = (from: number) =>
+    1 - normalCdf((limit - from - shift) / sd) + normalCdf((-limit - from - shift) / sd);
+
+  if (!previous) {
+    return outside(0);
+  }
+
+  return previous.points.reduce((sum, point, j) => sum + previous.masses[j] * outside(point), 0);
+}
+
+function stopProbabilities(fractions: number[], bounds: number[], drift: number): number[] {
+  let state: ContinuationState | null = null;
+  let previousFraction = 0;
+  return fractions.map((fraction, index) => {
+    const probability = crossingProbability(state, fraction, previousFraction, bounds[index], drift);
+    state = continuationAfterLook(state, fraction, previousFraction, bounds[index], drift);
+    previousFraction = fraction;
+    return probability;
+  });
+}
+
+// Symmetric two-sided Lan-DeMets boundaries for equally spaced looks, found by recursive numerical
+// integration of the score process (Armitage, McPherson & Rowe). The maximum sample inflation is the
+// squared ratio of the drift that gives the requested power to the fixed-horizon drift.
+function buildSequentialDesign(
+  looks: number,
+  spending: SpendingFunction,
+  alpha: number,
+  power: number,
+): SequentialDesign {
+  const fractions = Array.from({ length: looks }, (_, i) => (i + 1) / looks);
+  const cumulativeAlpha = fractions.map((fraction) => alphaSpent(fraction, alpha, spending));
+
+  const zBoundaries: number[] = [];
+  let state: ContinuationState | null = null;
+  let previousFraction = 0;
+  fractions.forEach((fraction, index) => {
+    const target = cumulativeAlpha[index] - (index > 0 ? cumulativeAlpha[index - 1] : 0);
+    let low = 0;
+    let high = 12;
+    for (let i = 0; i < 60; i += 1) {
+      const mid = (low + high) / 2;
+      if (crossingProbability(state, fraction, previousFraction, mid, 0) > target) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    zBoundaries.push(high);
+    state = continuationAfterLook(state, fraction, previousFraction, high, 0);
+    previousFraction = fraction;
+  });
+
+  const fixedDrift = inverseNormalCdf(1 - alpha / 2) + inverseNormalCdf(power);
+  let low = fixedDrift;
+  let high = fixedDrift * 2;
+  for (let i = 0; i < 40; i += 1) {
+    const mid = (low + high) / 2;
+    const achieved = stopProbabilities(fractions, zBoundaries, mid).reduce((sum, p) => sum + p, 0);
+    if (achieved < power) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const maxInflation = (high / fixedDrift) ** 2;
+  const stops = stopProbabilities(fractions, zBoundaries, high);
+  let continuing = 1;
+  let expectedFraction = 0;
+  fractions.forEach((fraction, index) => {
+    const stop = index === looks - 1 ? continuing : stops[index];
+    expectedFraction += fraction * stop;
+    continuing -= stop;
+  });
+
+  return {
+    informationFractions: fractions,
+    zBoundaries,
+    cumulativeAlpha,
+    maxInflation,
+    expectedInflation: maxInflation * expectedFraction,
+  };
+}
+
+const sequentialDesignCache = new Map<string, SequentialDesign>();
+
+// Boundary search and the power bisection are the slow part, and the form recalculates on every
+// keystroke, so designs are memoised per parameter set.
+function sequentialDesign(
+  looks: number,
+  spending: SpendingFunction,
+  alpha: number,
+  power: number,
+): SequentialDesign {
+  const key = `${looks}|${spending}|${alpha}|${power}`;
+  const cached = sequentialDesignCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const design = buildSequentialDesign(looks, spending, alpha, power);
+  sequentialDesignCache.set(key, design);
+  return design;
+}
+
+export function estimateMdeForDuration(parsed: ParsedValues, maxDays: number): MdeEstimate {
+  const estimate = searchMdeForDuration(parsed, maxDays);
+  if (estimate.status !== "ok" || !parsed.preCorrelation) {
+    return estimate;
+  }
+
+  const unadjusted = searchMdeForDuration({ ...parsed, preCorrelation: 0 }, maxDays);
+  return { ...estimate, unadjustedMdePercent: unadjusted.mdePercent };
+}
+
+function searchMdeForDuration(parsed: ParsedValues, maxDays: number): MdeEstimate {
+  if (parsed.framework === "bayesian") {
+    return {
+      status: "unsupported",
+      message: "Detectable uplift by deadline uses the frequentist formula. Switch the analysis approach to frequentist to use it.",
+    };
+  }
+
+  if (!Number.isFinite(maxDays) || maxDays < 1 || !Number.isInteger(maxDays)) {
+    return {
+      status: "days_error",
+      message: "Enter a whole number of days (>= 1).",
+    };
+  }
+
+  const achievableSamplePerGroup = Math.floor(usersCollectedBy(parsed, maxDays, smallestArmShare(parsed)));
+  const alpha = Math.min(...adjustedAlphas(variantArms(parsed), parsed.significance, parsed.correction));
+  // A sequential plan must reach its maximum sample by the deadline, so only a fixed-horizon
+  // equivalent of the achievable sample is available for detecting the uplift.
+  const inflation =
+    parsed.designMode === "sequential"
+      ? sequentialDesign(parsed.interimLooks + 1, parsed.spendingFunction, alpha, parsed.power).maxInflation
+      : 1;
+  const fixedEquivalentSample = achievableSamplePerGroup / inflation;
+
+  if (achievableSamplePerGroup < 1) {
+    return {
+      status: "not_feasible",
+      message: "Not enough traffic for this timeframe. Increase users/day or days.",
+      achievableSamplePerGroup,
+    };
+  }
+
+  // Margin tests search for the smallest margin they can prove instead of the smallest uplift.
+  const marginTest = isMarginTest(parsed.testType);
+  const lowUplift = 0.0001;
+  const highUplift = marginTest ? 0.99 : 5;
+
+  // Searching the exact sample size for every candidate uplift is slow, and at a known sample the
+  // exact power answers the same question directly.
+  const detectable = (uplift: number) =>
+    marginTest
+      ? requiredSampleSizePerGroup({ ...parsed, margin: uplift }, 0, alpha) <= fixedEquivalentSample
+      : parsed.metricType === "conversion" && parsed.sampleSizeMethod === "exact"
+        ? calculateExactPower(
+            parsed.baselineRate,
+            expectedVariantValue(parsed, uplift),
+            twoSidedAlphaFor(parsed, alpha),
+            Math.floor(fixedEquivalentSample / cupedVarianceFactor(parsed)),
+          ) >= parsed.power
+        : requiredSampleSizePerGroup(parsed, uplift, alpha) <= fixedEquivalentSample;
+
+  if (!detectable(highUplift)) {
+    return {
+      status: "not_feasible",
+      message: marginTest
+        ? "Even a 99% margin cannot be shown in this duration with current traffic."
+        : "Even 500% uplift is not detectable in this duration with current traffic.",
+      achievableSamplePerGroup,
+    };
+  }
+
+  if (detectable(lowUplift)) {
+    return {
+      status: "ok",
+      message: marginTest
+        ? "Very sensitive setup. The provable margin is below 0.01%."
+        : "Very sensitive setup. Detectable uplift is below 0.01%.",
+      mdePercent: 0.01,
+      achievableSamplePerGroup,
+    };
+  }
+
+  let low = lowUplift;
+  let high = highUplift;
+
+  // Uplift is reported to 0.01%, so a 1e-6 bracket is more than enough.
+  for (let i = 0; i < 60 && high - low > 1e-6; i += 1) {
+    const mid = (low + high) / 2;
+    if (detectable(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return {
+    status: "ok",
+    message: marginTest
+      ? "Smallest margin the test can prove, estimated for selected duration."
+      : "Minimum detectable uplift estimated for selected duration.",
+    mdePercent: Number((high * 100).toFixed(2)),
+    achievableSamplePerGroup,
+  };
+}
+
+// Chi-square goodness-of-fit of the observed A/B users against the planned split between A and B.
+// With extra arms only A and B are tracked, so the expectation is their share of each other.
+export function checkSampleRatio(controlUsers: number, variantUsers: number, result: Result): SrmCheck {
+  const expectedControlShare = result.controlShare / (result.controlShare + result.arms[0].trafficShare);
+  const total = controlUsers + variantUsers;
+  const expectedControl = total * expectedControlShare;
+  const expectedVariant = total - expectedControl;
+  const observedControlShare = total > 0 ? controlUsers / total : 0;
+
+  if (expectedControl < 5 || expectedVariant < 5) {
+    return { status: "insufficient", chiSquare: 0, pValue: 1, expectedControlShare, observedControlShare };
+  }
+
+  const chiSquare =
+    (controlUsers - expectedControl) ** 2 / expectedControl +
+    (variantUsers - expectedVariant) ** 2 / expectedVariant;
+  const pValue = chiSquareSurvival(chiSquare, 1);
+
+  return {
+    status: pValue < SRM_ALPHA ? "mismatch" : "ok",
+    chiSquare,
+    pValue,
+    expectedControlShare,
+    observedControlShare,
+  };
+}
+
+// Power is traced by solving the sample size formula for a range of power targets, so the curve and the
+// headline number always agree. Sequential plans keep their boundaries and read power off the
+// stopping probabilities at the inflated maximum sample.
+export function buildPlanCurves(parsed: ParsedValues, result: Result): PlanCurves | null {
+  if (result.bayesian) {
+    return null;
+  }
+
+  const driver = result.arms.reduce((largest, arm) =>
+    arm.sampleSizePerGroup > largest.sampleSizePerGroup ? arm : largest,
+  );
+  const design = result.sequential
+    ? sequentialDesign(parsed.interimLooks + 1, parsed.spendingFunction, driver.adjustedAlpha, parsed.power)
+    : null;
+  const zAlpha = inverseNormalCdf(1 - driver.adjustedAlpha / 2);
+
+  // Below alpha / 2 the normal approximation stops describing a two-sided test.
+  const targets = [...POWER_CURVE_TARGETS, parsed.power]
+    .filter((target, index, all) => target > driver.adjustedAlpha / 2 && all.indexOf(target) === index)
+    .sort((a, b) => a - b);
+  const power = targets.map((target) => {
+    const fixedSample = requiredSampleSizePerGroup({ ...parsed, power: target }, driver.uplift, driver.adjustedAlpha);
+    if (!design) {
+      return { x: fixedSample, y: target };
+    }
+    const drift = (zAlpha + inverseNormalCdf(target)) * Math.sqrt(design.maxInflation);
+    return {
+      x: Math.ceil(fixedSample * design.maxInflation),
+      y: stopProbabilities(design.informationFractions, design.zBoundaries, drift).reduce((sum, p) => sum + p, 0),
+    };
+  });
+
+  const span = Math.max(14, result.durationDays * 2);
+  const days = Array.from({ length: MDE_CURVE_POINTS }, (_, i) =>
+    Math.max(1, Math.round((span * (i + 1)) / MDE_CURVE_POINTS)),
+  ).filter((day, index, all) => all.indexOf(day) === index);
+  const mde = days.flatMap((day) => {
+    const estimate = searchMdeForDuration(parsed, day);
+    return estimate.status === "ok" && estimate.mdePercent !== undefined ? [{ x: day, y: estimate.mdePercent }] : [];
+  });
+  const planEstimate = searchMdeForDuration(parsed, result.durationDays);
+
+  return {
+    power,
+    powerMarker: { x: result.primarySampleSizePerGroup, y: parsed.power },
+    mde,
+    mdeMarker:
+      planEstimate.status === "ok" && planEstimate.mdePercent !== undefined
+        ? { x: result.durationDays, y: planEstimate.mdePercent }
+        : null,
+  };
+}
+
+export function describeRamp(steps: RampStep[]): string {
+  let firstDay = 1;
+  const ranges = steps.map((step) => {
+    const lastDay = firstDay + Number(step.days) - 1;
+    const range = firstDay === lastDay ? `day ${firstDay}` : `days ${firstDay}-${lastDay}`;
+    firstDay = lastDay + 1;
+    return `${range} at ${step.exposure}%`;
+  });
+  return `${ranges.join(", ")}, then 100% of planned traffic`;
+}
+
+export function describeFunnel(values: FormValues): string {
+  const [traffic, ...stages] = buildEligibilityFunnel(values);
+  const steps = stages.map((stage) => `${Number(((stage.share ?? 1) * 100).toFixed(2))}% ${stage.name.toLowerCase()}`);
+  return `${formatNumber(traffic.users)} site visitors x ${steps.join(" x ")}`;
+}
+
+export function describeTestType(values: FormValues): string {
+  switch (values.testType) {
+    case "one-sided":
+      return "Superiority, one-sided: is B better than A?";
+    case "non-inferiority":
+      return `Non-inferiority: is B no worse than A by more than ${values.testMargin}% of the baseline?`;
+    case "equivalence":
+      return `Equivalence (TOST): is B within ${values.testMargin}% of the baseline of A, either way?`;
+    default:
+      return "Superiority, two-sided: is B different from A?";
+  }
+}
+
+// True when the exact search was picked but would have needed more than EXACT_SEARCH_LIMIT users per
+// variant, so the normal approximation sized the plan instead.
+export function exactSearchFellBack(values: FormValues, result: Result): boolean {
+  return (
+    values.sampleSizeMethod === "exact" &&
+    result.metricType === "conversion" &&
+    !isMarginTest(result.testType) &&
+    result.sampleSizeMethod === "normal"
+  );
+}
+
+export function describeGuardrail(guardrail: Guardrail): string {
+  const baseline =
+    guardrail.metricType === "conversion"
+      ? `${guardrail.baseline}%`
+      : `${guardrail.baseline} (SD ${guardrail.standardDeviation})`;
+  return `${guardrail.name.trim()}: ${baseline} baseline, may ${
+    guardrail.betterWhen === "lower" ? "rise" : "fall"
+  } by at most ${guardrail.margin}%`;
+}
+
+function describePlanInputs(values: FormValues): [string, string][] {
+  const isBayesian = values.framework === "bayesian";
+  const isConversion = values.metricType === "conversion";
+  const variantShares = [values.variantTraffic, ...values.extraVariants.map((arm) => arm.traffic)];
+  const controlShare = 100 - variantShares.reduce((sum, share) => sum + Number(share), 0);
+  const trafficSplit = [
+    `A ${Number(controlShare.toFixed(2))}%`,
+    ...variantShares.map((share, index) => `${ARM_LABELS[index]} ${share}%`),
+  ];
+  const upliftByArm = [values.minDetectableUplift, ...values.extraVariants.map((arm) => arm.uplift)];
+
+  return [
+    ["Metric", isConversion ? "Conversion rate" : "Average value"],
+    [
+      "Baseline",
+      isConversion ? `${values.baselineRate}%` : `${values.baselineMean} (SD ${values.standardDeviation})`,
+    ],
+    [
+      "Minimum detectable uplift",
+      !isBayesian && isMarginTest(values.testType)
+        ? "n/a"
+        : upliftByArm.length === 1
+          ? `${values.minDetectableUplift}%`
+          : upliftByArm.map((uplift, index) => `${ARM_LABELS[index]} ${uplift}%`).join(", "),
+    ],
+    ["Guardrails", values.guardrails.map(describeGuardrail).join("; ") || "None"],
+    ["Traffic split", trafficSplit.join(" / ")],
+    ["Linked toggle", values.linkedToggle || "None"],
+    ["Framework", isBayesian ? "Bayesian" : "Frequentist"],
+    ["Test type", isBayesian ? "n/a" : describeTestType(values)],
+    ["Significance", isBayesian ? "n/a" : `${values.significance}%`],
+    ["Power", `${values.power}%`],
+    [
+      "Sample size method",
+      isConversion && !isBayesian && !isMarginTest(values.testType)
+        ? SAMPLE_SIZE_METHOD_LABELS[values.sampleSizeMethod]
+        : "n/a",
+    ],
+    ["Correction", values.extraVariants.length > 0 && !isBayesian ? CORRECTION_LABELS[values.correction] : "n/a"],
+    [
+      "Design",
+      isBayesian || values.designMode === "fixed"
+        ? "Fixed horizon"
+        : `${values.interimLooks} interim look(s), ${SPENDING_FUNCTION_LABELS[values.spendingFunction]}`,
+    ],
+    [
+      "Prior and threshold",
+      isBayesian ? `Beta(${values.priorAlpha}, ${values.priorBeta}), ${values.decisionThreshold}%` : "n/a",
+    ],
+    ["CUPED correlation", isBayesian || values.preCorrelation.trim() === "" ? "None" : values.preCorrelation.trim()],
+    [
+      "Daily eligible users",
+      values.funnelSteps.length > 0 ? `${eligibleDailyUsers(values)} (funnel)` : values.dailyVisitors,
+    ],
+    ["Eligibility funnel", values.funnelSteps.length > 0 ? describeFunnel(values) : "None"],
+    [
+      "Traffic pattern",
+      values.trafficPattern === "weekly"
+        ? WEEKDAY_LABELS.map((day, index) => `${day} ${values.weeklyProfile[index]}`).join(", ")
+        : "Flat",
+    ],
+    ["Ramp-up", values.rampSteps.length > 0 ? describeRamp(values.rampSteps) : "None"],
+    ["Start date", values.startDate.trim() || "Today"],
+    ["Round to whole weeks", values.roundToWholeWeeks ? "Yes" : "No"],
+  ];
+}
+
+// Plans each scenario the way the planner form would and lines their inputs up row by row, flagging
+// the rows where the scenarios disagree.
+export function buildScenarioComparison(
+  scenarios: { name: string; values: FormValues }[],
+  mdeDays: number,
+  readinessConfig: ReadinessConfig = DEFAULT_READINESS_CONFIG,
+): ScenarioComparison {
+  const described = scenarios.map((scenario) => describePlanInputs(scenario.values));
+  const inputs = (described[0] ?? []).map(([label], row) => {
+    const values = described.map((rows) => rows[row][1]);
+    return { label, values, differs: values.some((value) => value !== values[0]) };
+  });
+
+  const columns = scenarios.map(({ name, values }) => {
+    const validation = validatePlan(values);
+    const planErrors = collectPlanErrors(validation);
+    if (planErrors) {
+      return { name, error: firstPlanError(planErrors), plan: null };
+    }
+
+    const result = calculateResult(validation.parsed);
+    return {
+      name,
+      error: "",
+      plan: {
+        result,
+        readiness: buildReadinessSummary(values, result, readinessConfig),
+        mde: estimateMdeForDuration(validation.parsed, mdeDays),
+      },
+    };
+  });
+
+  return { inputs, columns };
+}
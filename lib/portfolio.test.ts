@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUES } from "@/lib/planner";
+import { parsePortfolioPlan, schedulePortfolio, suggestPortfolio, type PortfolioPlan } from "@/lib/portfolio";
+
+const scenarios = [
+  { id: "lobby", name: "Lobby banner", values: DEFAULT_VALUES },
+  { id: "deposit", name: "Deposit flow", values: { ...DEFAULT_VALUES, minDetectableUplift: "5" } },
+  { id: "search", name: "Search ranking", values: { ...DEFAULT_VALUES, minDetectableUplift: "20" } },
+  { id: "weekly", name: "Weekly promo", values: { ...DEFAULT_VALUES, roundToWholeWeeks: true } },
+];
+
+const plan: PortfolioPlan = {
+  poolDailyUsers: "12000",
+  startDate: "2026-01-05",
+  tests: scenarios.map((scenario) => ({ scenarioId: scenario.id, share: "50", startDate: "" })),
+};
+
+describe("schedulePortfolio", () => {
+  it("recomputes each duration from the test's share of the pool and counts overbooked days", () => {
+    const schedule = schedulePortfolio(plan, scenarios, []);
+
+    // The default plan takes 4 days on all 12,000 users, so half the pool needs 7.
+    expect(schedule?.tests.map((test) => [test.name, test.dailyUsers, test.durationDays, test.endDate])).toEqual([
+      ["Lobby banner", 6000, 7, "2026-01-11"],
+      ["Deposit flow", 6000, 25, "2026-01-29"],
+      ["Search ranking", 6000, 2, "2026-01-06"],
+      ["Weekly promo", 6000, 7, "2026-01-11"],
+    ]);
+    expect(schedule?.allocation.slice(0, 3)).toEqual([200, 200, 150]);
+    expect(schedule).toMatchObject({ totalDays: 25, finishDate: "2026-01-29", overbookedDays: 7 });
+  });
+
+  it("skips bookings it cannot place and drops deleted scenarios", () => {
+    const schedule = schedulePortfolio(
+      {
+        ...plan,
+        tests: [
+          { scenarioId: "lobby", share: "0", startDate: "" },
+          { scenarioId: "search", share: "50", startDate: "2025-12-31" },
+          { scenarioId: "deposit", share: "1", startDate: "" },
+          { scenarioId: "broken", share: "50", startDate: "" },
+          { scenarioId: "gone", share: "50", startDate: "" },
+        ],
+      },
+      [...scenarios, { id: "broken", name: "Broken", values: { ...DEFAULT_VALUES, power: "120" } }],
+      [],
+    );
+
+    expect(schedule?.tests).toEqual([]);
+    expect(schedule?.skipped.map((test) => test.error)).toEqual([
+      "Share of the pool must be above 0% and at most 100%.",
+      "Starts before the portfolio.",
+      "Needs more than 730 days on 1% of the pool.",
+      "Enter power between 50 and 99.9 (exclusive).",
+    ]);
+    expect(schedulePortfolio({ ...plan, poolDailyUsers: "0" }, scenarios, [])).toBeNull();
+  });
+
+  it("runs linked scenarios on the traffic their toggle serves now", () => {
+    const linked = { id: "cashier", name: "New cashier", values: { ...DEFAULT_VALUES, linkedToggle: "new-cashier" } };
+    const toggles = [{ id: "new-cashier", name: "New cashier", enabled: true, rollout: 20, description: "" }];
+    const booking = { ...plan, tests: [{ scenarioId: "cashier", share: "50", startDate: "" }] };
+
+    const schedule = schedulePortfolio(booking, [linked], toggles);
+    const atTwenty = schedulePortfolio(
+      booking,
+      [{ ...linked, values: { ...DEFAULT_VALUES, variantTraffic: "20" } }],
+      [],
+    );
+    expect(schedule?.tests[0].durationDays).toBe(atTwenty?.tests[0].durationDays);
+    expect(schedule?.tests[0].durationDays).toBeGreaterThan(schedulePortfolio(booking, [linked], [])?.totalDays ?? 0);
+  });
+});
+
+describe("suggestPortfolio", () => {
+  it("packs the tests to finish sooner without booking more than the pool", () => {
+    const suggested = suggestPortfolio(plan, scenarios, []);
+    const schedule = schedulePortfolio({ ...plan, tests: suggested ?? [] }, scenarios, []);
+
+    expect(suggested?.every((test) => Number(test.share) % 5 === 0)).toBe(true);
+    expect(schedule?.overbookedDays).toBe(0);
+    // Half the pool each overbooks and finishes on day 25.
+    expect(schedule?.totalDays).toBe(21);
+  });
+});
+
+describe("parsePortfolioPlan", () => {
+  it("keeps well-formed bookings and falls back to defaults", () => {
+    expect(parsePortfolioPlan({ tests: [{ scenarioId: "lobby", share: 30 }, { share: "10" }, null] })).toEqual({
+      poolDailyUsers: "12000",
+      startDate: "",
+      tests: [{ scenarioId: "lobby", share: "30", startDate: "" }],
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  addDaysToIsoDate,
+  calculateResult,
+  collectPlanErrors,
+  durationWithTraffic,
+  firstPlanError,
+  isValidIsoDate,
+  todayIsoDate,
+  validatePlan,
+  type FormValues,
+  type ParsedValues,
+  type Result,
+} from "@/lib/planner";
+import { syncLinkedToggle } from "@/lib/toggle-links";
+import type { FeatureToggle } from "@/lib/workspace";
+
+// A saved scenario booked into the portfolio. Share and start date are kept as typed, like form values.
+export type PortfolioTest = {
+  scenarioId: string;
+  // Percent of the shared daily pool the test gets.
+  share: string;
+  // Blank to start with the portfolio.
+  startDate: string;
+};
+
+export type PortfolioPlan = {
+  poolDailyUsers: string;
+  startDate: string;
+  tests: PortfolioTest[];
+};
+
+export type PortfolioErrors = {
+  poolDailyUsers: string;
+  startDate: string;
+};
+
+export type PortfolioScenario = {
+  id: string;
+  name: string;
+  values: FormValues;
+};
+
+export type ScheduledTest = {
+  scenarioId: string;
+  name: string;
+  share: number;
+  dailyUsers: number;
+  durationDays: number;
+  startDate: string;
+  endDate: string;
+  // Days after the portfolio start.
+  startOffset: number;
+};
+
+export type PortfolioSchedule = {
+  startDate: string;
+  finishDate: string;
+  totalDays: number;
+  tests: ScheduledTest[];
+  // Tests that cannot be put on the timeline, with the reason.
+  skipped: { scenarioId: string; name: string; error: string }[];
+  // Summed share of the pool (%) booked on each day from the portfolio start.
+  allocation: number[];
+  overbookedDays: number;
+};
+
+export const DEFAULT_PORTFOLIO_PLAN: PortfolioPlan = {
+  poolDailyUsers: "12000",
+  startDate: "",
+  tests: [],
+};
+
+// Suggested shares are multiples of this, so the packing stays easy to set up in a flag tool.
+export const PORTFOLIO_SHARE_STEP = 5;
+
+// About two years; longer timelines are neither drawn nor searched.
+export const MAX_PORTFOLIO_DAYS = 730;
+
+type SizedTest = { parsed: ParsedValues; result: Result } | { error: string };
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// A linked scenario runs on the traffic split its toggle serves now, as it would on the page.
+function sizeTest(values: FormValues, toggles: FeatureToggle[]): SizedTest {
+  const validation = validatePlan(syncLinkedToggle(values, toggles));
+  const planErrors = collectPlanErrors(validation);
+  if (planErrors) {
+    return { error: firstPlanError(planErrors) };
+  }
+  return { parsed: validation.parsed, result: calculateResult(validation.parsed) };
+}
+
+export function validatePortfolio(plan: PortfolioPlan): PortfolioErrors | null {
+  const pool = Number(plan.poolDailyUsers);
+  const errors: PortfolioErrors = {
+    poolDailyUsers:
+      plan.poolDailyUsers.trim() === "" || !Number.isFinite(pool) || pool <= 0
+        ? "Enter the daily users the tests share, more than 0."
+        : "",
+    startDate:
+      plan.startDate.trim() !== "" && !isValidIsoDate(plan.startDate.trim())
+        ? "Enter a date as YYYY-MM-DD, or leave blank to start today."
+        : "",
+  };
+  return errors.poolDailyUsers || errors.startDate ? errors : null;
+}
+
+function validateTest(test: PortfolioTest, portfolioStart: string): string {
+  const share = Number(test.share);
+  const startDate = test.startDate.trim();
+  if (test.share.trim() === "" || !Number.isFinite(share) || share <= 0 || share > 100) {
+    return "Share of the pool must be above 0% and at most 100%.";
+  }
+  if (startDate !== "" && !isValidIsoDate(startDate)) {
+    return "Start date must be YYYY-MM-DD, or blank to start with the portfolio.";
+  }
+  if (startDate !== "" && startDate < portfolioStart) {
+    return "Starts before the portfolio.";
+  }
+  if (startDate !== "" && daysBetween(portfolioStart, startDate) >= MAX_PORTFOLIO_DAYS) {
+    return `Starts more than ${MAX_PORTFOLIO_DAYS} days after the portfolio.`;
+  }
+  return "";
+}
+
+// Puts each booked scenario on the calendar. A test's daily users are its share of the pool, so its
+// duration is worked out again from the sample size the scenario needs on its own. Scenarios that
+// were deleted from the library drop out.
+export function schedulePortfolio(
+  plan: PortfolioPlan,
+  scenarios: PortfolioScenario[],
+  toggles: FeatureToggle[],
+): PortfolioSchedule | null {
+  if (validatePortfolio(plan)) {
+    return null;
+  }
+
+  const pool = Number(plan.poolDailyUsers);
+  const startDate = plan.startDate.trim() || todayIsoDate();
+  const tests: ScheduledTest[] = [];
+  const skipped: PortfolioSchedule["skipped"] = [];
+
+  for (const test of plan.tests) {
+    const scenario = scenarios.find((item) => item.id === test.scenarioId);
+    if (!scenario) {
+      continue;
+    }
+
+    const sized = sizeTest(scenario.values, toggles);
+    const error = "error" in sized ? sized.error : validateTest(test, startDate);
+    if ("error" in sized || error) {
+      skipped.push({ scenarioId: scenario.id, name: scenario.name, error });
+      continue;
+    }
+
+    const share = Number(test.share);
+    const testStart = test.startDate.trim() || startDate;
+    const dailyUsers = (pool * share) / 100;
+    const durationDays = durationWithTraffic(sized.parsed, sized.result, dailyUsers, testStart);
+    if (durationDays > MAX_PORTFOLIO_DAYS) {
+      skipped.push({
+        scenarioId: scenario.id,
+        name: scenario.name,
+        error: `Needs more than ${MAX_PORTFOLIO_DAYS} days on ${share}% of the pool.`,
+      });
+      continue;
+    }
+
+    tests.push({
+      scenarioId: scenario.id,
+      name: scenario.name,
+      share,
+      dailyUsers,
+      durationDays,
+      startDate: testStart,
+      endDate: addDaysToIsoDate(testStart, durationDays - 1),
+      startOffset: daysBetween(startDate, testStart),
+    });
+  }
+
+  const totalDays = Math.max(0, ...tests.map((test) => test.startOffset + test.durationDays));
+  const allocation = Array.from({ length: totalDays }, () => 0);
+  for (const test of tests) {
+    for (let day = test.startOffset; day < test.startOffset + test.durationDays; day += 1) {
+      allocation[day] += test.share;
+    }
+  }
+
+  return {
+    startDate,
+    finishDate: totalDays > 0 ? addDaysToIsoDate(startDate, totalDays - 1) : startDate,
+    totalDays,
+    tests,
+    skipped,
+    allocation,
+    overbookedDays: allocation.filter((share) => share > 100 + 1e-9).length,
+  };
+}
+
+// Suggests shares and start dates that finish every bookable test soonest without booking more than
+// the whole pool on any day. It searches for the earliest finish day that a greedy packing can meet:
+// longest tests first, each at the smallest share that still ends in time, starting as early as the
+// pool has room. Tests that cannot be scheduled keep their current booking.
+export function suggestPortfolio(
+  plan: PortfolioPlan,
+  scenarios: PortfolioScenario[],
+  toggles: FeatureToggle[],
+): PortfolioTest[] | null {
+  if (validatePortfolio(plan)) {
+    return null;
+  }
+
+  const pool = Number(plan.poolDailyUsers);
+  const startDate = plan.startDate.trim() || todayIsoDate();
+  const shares = Array.from({ length: 100 / PORTFOLIO_SHARE_STEP }, (_, index) => (index + 1) * PORTFOLIO_SHARE_STEP);
+  const sized = plan.tests.map((test) => {
+    const scenario = scenarios.find((item) => item.id === test.scenarioId);
+    return scenario ? sizeTest(scenario.values, toggles) : null;
+  });
+
+  // Only the start weekday changes a test's duration, so durations are cached per weekday.
+  const durations = new Map<string, number>();
+  const durationOf = (index: number, share: number, offset: number): number => {
+    const key = `${index}:${share}:${offset % 7}`;
+    const test = sized[index];
+    if (!durations.has(key) && test && !("error" in test)) {
+      const testStart = addDaysToIsoDate(startDate, offset);
+      durations.set(key, durationWithTraffic(test.parsed, test.result, (pool * share) / 100, testStart));
+    }
+    return durations.get(key) ?? Infinity;
+  };
+
+  const order = sized
+    .flatMap((test, index) => (test && !("error" in test) ? [index] : []))
+    .sort((a, b) => durationOf(b, 100, 0) - durationOf(a, 100, 0));
+
+  const pack = (deadline: number): Map<number, { share: number; offset: number }> | null => {
+    const allocation = Array.from({ length: deadline }, () => 0);
+    const placements = new Map<number, { share: number; offset: number }>();
+    const starts = [0];
+
+    for (const index of order) {
+      const placement = [...new Set(starts)]
+        .sort((a, b) => a - b)
+        .flatMap((offset) => shares.map((share) => ({ share, offset })))
+        .find(({ share, offset }) => {
+          const end = offset + durationOf(index, share, offset);
+          return end <= deadline && allocation.slice(offset, end).every((booked) => booked + share <= 100);
+        });
+      if (!placement) {
+        return null;
+      }
+
+      const end = placement.offset + durationOf(index, placement.share, placement.offset);
+      for (let day = placement.offset; day < end; day += 1) {
+        allocation[day] += placement.share;
+      }
+      placements.set(index, placement);
+      starts.push(end);
+    }
+    return placements;
+  };
+
+  let best = pack(MAX_PORTFOLIO_DAYS);
+  if (!best) {
+    return null;
+  }
+
+  let low = Math.max(1, ...order.map((index) => durationOf(index, 100, 0)));
+  let high = MAX_PORTFOLIO_DAYS;
+  while (low < high) {
+    const deadline = Math.floor((low + high) / 2);
+    const placements = pack(deadline);
+    if (placements) {
+      best = placements;
+      high = deadline;
+    } else {
+      low = deadline + 1;
+    }
+  }
+
+  const chosen = best;
+  return plan.tests.map((test, index) => {
+    const placement = chosen.get(index);
+    return placement
+      ? { ...test, share: String(placement.share), startDate: addDaysToIsoDate(startDate, placement.offset) }
+      : test;
+  });
+}
+
+export function parsePortfolioPlan(raw: unknown): PortfolioPlan {
+  const input = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const tests = Array.isArray(input.tests) ? input.tests : [];
+  return {
+    poolDailyUsers: String(input.poolDailyUsers ?? DEFAULT_PORTFOLIO_PLAN.poolDailyUsers),
+    startDate: typeof input.startDate === "string" ? input.startDate : "",
+    tests: tests
+      .filter((test): test is Record<string, unknown> => typeof test === "object" && test !== null)
+      .filter((test) => typeof test.scenarioId === "string" && test.scenarioId !== "")
+      .map((test) => ({
+        scenarioId: String(test.scenarioId),
+        share: String(test.share ?? ""),
+        startDate: typeof test.startDate === "string" ? test.startDate : "",
+      })),
+  };
+}
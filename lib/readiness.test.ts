@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateResult, DEFAULT_VALUES, validatePlan, type SrmCheck } from "@/lib/planner";
+import {
+  buildReadinessSummary,
+  collectReadinessErrors,
+  DEFAULT_READINESS_CONFIG,
+  parseReadinessConfig,
+  readinessConfigFromSearchParams,
+  readinessConfigToQuery,
+  type ReadinessConfig,
+} from "@/lib/readiness";
+
+const result = calculateResult(validatePlan(DEFAULT_VALUES).parsed);
+
+const governance: ReadinessConfig = {
+  rules: [
+    {
+      id: "two-weeks",
+      label: "Cover two full weeks",
+      metric: "duration",
+      comparator: "atLeast",
+      threshold: "14",
+      upperThreshold: "",
+      weight: "10",
+      severity: "major",
+    },
+    {
+      id: "tight-split",
+      label: "",
+      metric: "split",
+      comparator: "between",
+      threshold: "45",
+      upperThreshold: "55",
+      weight: "20",
+      severity: "minor",
+    },
+  ],
+  readyAt: "90",
+  reviewAt: "50",
+};
+
+describe("buildReadinessSummary", () => {
+  it("scores the default plan with the default rules and leaves the sample ratio check for later", () => {
+    const summary = buildReadinessSummary(DEFAULT_VALUES, result);
+
+    expect(summary.checks).toHaveLength(8);
+    expect(summary.checks.filter((check) => !check.passed).map((check) => check.id)).toEqual(["min-duration"]);
+    expect(summary.checks.find((check) => check.id === "sample-ratio")).toMatchObject({
+      passed: true,
+      evaluated: false,
+      label: "Sample ratio check p-value at least 0.001 (not checked yet)",
+    });
+    expect(summary.checks.find((check) => check.id === "toggle-isolation")).toMatchObject({
+      passed: true,
+      evaluated: false,
+      label: "Users in concurrent toggles at most 0% (no linked toggle)",
+    });
+    expect(summary).toMatchObject({ score: 85, level: "Ready", readyAt: 85, reviewAt: 65 });
+  });
+
+  it("applies custom thresholds, weights, cutoffs and severity caps", () => {
+    const summary = buildReadinessSummary(DEFAULT_VALUES, result, governance);
+
+    expect(summary.checks.map((check) => [check.label, check.passed])).toEqual([
+      ["Cover two full weeks (4 day(s))", false],
+      ["Variant share vs. A between 45% and 55% (B: 50%)", true],
+    ]);
+    expect(summary).toMatchObject({ score: 90, level: "Needs Review", readyAt: 90, reviewAt: 50 });
+
+    const uneven = { ...DEFAULT_VALUES, variantTraffic: "40" };
+    const unevenResult = calculateResult(validatePlan(uneven).parsed);
+    expect(buildReadinessSummary(uneven, unevenResult, governance)).toMatchObject({
+      score: 70,
+      level: "Needs Review",
+    });
+  });
+
+  it("makes the plan Risky when a critical rule fails", () => {
+    const srm: SrmCheck = {
+      status: "mismatch",
+      chiSquare: 30,
+      pValue: 0.00001,
+      expectedControlShare: 0.5,
+      observedControlShare: 0.55,
+    };
+    const summary = buildReadinessSummary(DEFAULT_VALUES, result, DEFAULT_READINESS_CONFIG, { srm });
+
+    expect(summary.score).toBe(70);
+    expect(summary.level).toBe("Risky");
+    expect(summary.checks.find((check) => check.id === "sample-ratio")?.label).toContain("(< 0.0001)");
+  });
+
+  it("fails the toggle isolation rule when concurrent toggles reach the test's users", () => {
+    const summary = buildReadinessSummary(DEFAULT_VALUES, result, DEFAULT_READINESS_CONFIG, { contamination: 0.6 });
+
+    expect(summary.checks.find((check) => check.id === "toggle-isolation")).toMatchObject({
+      passed: false,
+      evaluated: true,
+      label: "Users in concurrent toggles at most 0% (60%)",
+    });
+    expect(summary).toMatchObject({ score: 70, level: "Needs Review" });
+  });
+
+  it("checks the margin instead of the uplift for margin tests", () => {
+    const values = { ...DEFAULT_VALUES, testType: "non-inferiority" as const, minDetectableUplift: "5" };
+    const rule = (margin: string) => {
+      const marginPlan = { ...values, testMargin: margin };
+      const summary = buildReadinessSummary(marginPlan, calculateResult(validatePlan(marginPlan).parsed));
+      return summary.checks.find((check) => check.id === "realistic-uplift");
+    };
+
+    expect(rule("10")).toMatchObject({ passed: true, label: "Expected uplift at most 30% (margin: 10%)" });
+    expect(rule("40")).toMatchObject({ passed: false, label: "Expected uplift at most 30% (margin: 40%)" });
+  });
+
+  it("skips rules with input errors and falls back to the default cutoffs", () => {
+    const broken: ReadinessConfig = {
+      rules: [{ ...governance.rules[0], threshold: "" }, governance.rules[1]],
+      readyAt: "40",
+      reviewAt: "60",
+    };
+    const summary = buildReadinessSummary(DEFAULT_VALUES, result, broken);
+
+    expect(summary.checks.map((check) => check.id)).toEqual(["tight-split"]);
+    expect(summary).toMatchObject({ score: 100, readyAt: 85, reviewAt: 65 });
+    expect(collectReadinessErrors(broken)).toEqual([
+      "Rule 1: Enter a number for the threshold.",
+      "Cutoffs must satisfy 0 <= Needs Review <= Ready <= 100.",
+    ]);
+  });
+});
+
+describe("readiness config parsing", () => {
+  it("round-trips custom rules through a share link and omits the defaults", () => {
+    expect(readinessConfigToQuery(DEFAULT_READINESS_CONFIG)).toBe("");
+
+    const query = new URLSearchParams(readinessConfigToQuery(governance));
+    expect(readinessConfigFromSearchParams(query)).toEqual(governance);
+    expect(readinessConfigFromSearchParams(new URLSearchParams("readinessRules=not-json"))).toBeNull();
+  });
+
+  it("accepts numbers and replaces unknown options with defaults", () => {
+    const parsed = parseReadinessConfig({
+      rules: [{ metric: "revenue", comparator: "atMost", threshold: 5, weight: 25, severity: "blocker" }, null],
+      readyAt: 95,
+    });
+
+    expect(parsed).toEqual({
+      rules: [
+        {
+          id: "rule-1",
+          label: "",
+          metric: "duration",
+          comparator: "atMost",
+          threshold: "5",
+          upperThreshold: "",
+          weight: "25",
+          severity: "minor",
+        },
+      ],
+      readyAt: "95",
+      reviewAt: "65",
+    });
+    expect(parseReadinessConfig({ rules: "none" })).toBeNull();
+  });
+});
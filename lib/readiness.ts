@@ -0,0 +1,352 @@
+import type { FormValues, Result, SrmCheck } from "@/lib/planner";
+
+export type ReadinessMetric =
+  | "duration"
+  | "split"
+  | "alpha"
+  | "power"
+  | "sampleSize"
+  | "uplift"
+  | "srm"
+  | "contamination";
+
+export type ReadinessComparator = "atLeast" | "atMost" | "between";
+
+// minor: only costs points. major: a failure caps the level at Needs Review. critical: a failure makes
+// the plan Risky whatever the score.
+export type ReadinessSeverity = "minor" | "major" | "critical";
+
+// Thresholds, weights and cutoffs are kept as typed, like the planner form, so the editor can show
+// what the user entered next to its error.
+export type ReadinessRule = {
+  id: string;
+  label: string;
+  metric: ReadinessMetric;
+  comparator: ReadinessComparator;
+  threshold: string;
+  upperThreshold: string;
+  weight: string;
+  severity: ReadinessSeverity;
+};
+
+export type ReadinessConfig = {
+  rules: ReadinessRule[];
+  readyAt: string;
+  reviewAt: string;
+};
+
+export type ReadinessCheck = {
+  id: string;
+  label: string;
+  rule: string;
+  passed: boolean;
+  evaluated: boolean;
+  weight: number;
+  severity: ReadinessSeverity;
+};
+
+// What is known about the running test beyond its inputs: the tracker's sample ratio check and, for a
+// plan linked to a toggle, the share of its users that concurrent toggles also reach (0-1).
+export type ReadinessObservations = {
+  srm?: SrmCheck | null;
+  contamination?: number | null;
+};
+
+export type ReadinessSummary = {
+  score: number;
+  level: "Ready" | "Needs Review" | "Risky";
+  checks: ReadinessCheck[];
+  readyAt: number;
+  reviewAt: number;
+};
+
+export const READINESS_METRIC_LABELS: Record<ReadinessMetric, string> = {
+  duration: "Duration (days)",
+  split: "Variant share vs. A (%)",
+  alpha: "Alpha (%)",
+  power: "Power (%)",
+  sampleSize: "Sample size per variant",
+  uplift: "Expected uplift (%)",
+  srm: "Sample ratio check p-value",
+  contamination: "Users in concurrent toggles (%)",
+};
+
+export const READINESS_COMPARATOR_LABELS: Record<ReadinessComparator, string> = {
+  atLeast: "at least",
+  atMost: "at most",
+  between: "between",
+};
+
+export const READINESS_SEVERITY_LABELS: Record<ReadinessSeverity, string> = {
+  minor: "Minor (score only)",
+  major: "Major (caps at Needs Review)",
+  critical: "Critical (makes the plan Risky)",
+};
+
+export const MAX_READINESS_RULES = 20;
+
+export const DEFAULT_READINESS_CONFIG: ReadinessConfig = {
+  rules: [
+    defaultRule("min-duration", "duration", "atLeast", "7", "", "15", "minor"),
+    defaultRule("balanced-split", "split", "between", "40", "60", "15", "minor"),
+    defaultRule("strict-alpha", "alpha", "atMost", "10", "", "15", "minor"),
+    defaultRule("solid-power", "power", "atLeast", "80", "", "15", "minor"),
+    defaultRule("robust-sample", "sampleSize", "atLeast", "1000", "", "15", "minor"),
+    defaultRule("realistic-uplift", "uplift", "atMost", "30", "", "15", "minor"),
+    defaultRule("sample-ratio", "srm", "atLeast", "0.001", "", "15", "critical"),
+    defaultRule("toggle-isolation", "contamination", "atMost", "0", "", "15", "major"),
+  ],
+  readyAt: "85",
+  reviewAt: "65",
+};
+
+function defaultRule(
+  id: string,
+  metric: ReadinessMetric,
+  comparator: ReadinessComparator,
+  threshold: string,
+  upperThreshold: string,
+  weight: string,
+  severity: ReadinessSeverity,
+): ReadinessRule {
+  return { id, label: "", metric, comparator, threshold, upperThreshold, weight, severity };
+}
+
+function isNumber(value: string): boolean {
+  return value.trim() !== "" && Number.isFinite(Number(value));
+}
+
+export function validateReadinessRule(rule: ReadinessRule): string {
+  if (!isNumber(rule.threshold)) {
+    return "Enter a number for the threshold.";
+  }
+  if (
+    rule.comparator === "between" &&
+    (!isNumber(rule.upperThreshold) || Number(rule.upperThreshold) < Number(rule.threshold))
+  ) {
+    return "Enter an upper bound at least as large as the lower bound.";
+  }
+  if (!isNumber(rule.weight) || Number(rule.weight) < 0 || Number(rule.weight) > 100) {
+    return "Weight must be between 0 and 100 points.";
+  }
+  return "";
+}
+
+export function validateReadinessCutoffs(config: ReadinessConfig): string {
+  const readyAt = Number(config.readyAt);
+  const reviewAt = Number(config.reviewAt);
+  if (
+    !isNumber(config.readyAt) ||
+    !isNumber(config.reviewAt) ||
+    reviewAt < 0 ||
+    readyAt > 100 ||
+    reviewAt > readyAt
+  ) {
+    return "Cutoffs must satisfy 0 <= Needs Review <= Ready <= 100.";
+  }
+  return "";
+}
+
+// Every problem in a config, one message per line, for the API and the command line.
+export function collectReadinessErrors(config: ReadinessConfig): string[] {
+  const cutoffError = validateReadinessCutoffs(config);
+  return [
+    ...config.rules.flatMap((item, index) => {
+      const error = validateReadinessRule(item);
+      return error ? [`Rule ${index + 1}: ${error}`] : [];
+    }),
+    ...(cutoffError ? [cutoffError] : []),
+    ...(config.rules.length > MAX_READINESS_RULES ? [`Use at most ${MAX_READINESS_RULES} rules.`] : []),
+  ];
+}
+
+function pickOption<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+// Reads a config from storage, a workspace file, a share link or an API body. Anything that is not an
+// object with a rules list gives null; unknown options fall back to defaults so the editor can fix them.
+export function parseReadinessConfig(raw: unknown): ReadinessConfig | null {
+  if (!raw || typeof raw !== "object" || !Array.isArray((raw as { rules?: unknown }).rules)) {
+    return null;
+  }
+
+  const record = raw as { rules: unknown[]; readyAt?: unknown; reviewAt?: unknown };
+  const text = (value: unknown, fallback: string) =>
+    typeof value === "string" || typeof value === "number" ? String(value) : fallback;
+  const rules = record.rules
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .map((item, index) => ({
+      id: text(item.id, "") || `rule-${index + 1}`,
+      label: text(item.label, ""),
+      metric: pickOption(item.metric, Object.keys(READINESS_METRIC_LABELS) as ReadinessMetric[], "duration"),
+      comparator: pickOption(
+        item.comparator,
+        Object.keys(READINESS_COMPARATOR_LABELS) as ReadinessComparator[],
+        "atLeast",
+      ),
+      threshold: text(item.threshold, ""),
+      upperThreshold: text(item.upperThreshold, ""),
+      weight: text(item.weight, "15"),
+      severity: pickOption(item.severity, Object.keys(READINESS_SEVERITY_LABELS) as ReadinessSeverity[], "minor"),
+    }));
+
+  return {
+    rules,
+    readyAt: text(record.readyAt, DEFAULT_READINESS_CONFIG.readyAt),
+    reviewAt: text(record.reviewAt, DEFAULT_READINESS_CONFIG.reviewAt),
+  };
+}
+
+export function isDefaultReadinessConfig(config: ReadinessConfig): boolean {
+  return JSON.stringify(config) === JSON.stringify(DEFAULT_READINESS_CONFIG);
+}
+
+const READINESS_QUERY_KEY = "readinessRules";
+
+// Share links carry the rules only when they differ from the defaults, as JSON like the variant list.
+export function readinessConfigToQuery(config: ReadinessConfig): string {
+  return isDefaultReadinessConfig(config)
+    ? ""
+    : new URLSearchParams({ [READINESS_QUERY_KEY]: JSON.stringify(config) }).toString();
+}
+
+export function readinessConfigFromSearchParams(searchParams: {
+  get: (key: string) => string | null;
+}): ReadinessConfig | null {
+  const param = searchParams.get(READINESS_QUERY_KEY);
+  if (!param) {
+    return null;
+  }
+
+  try {
+    return parseReadinessConfig(JSON.parse(param));
+  } catch {
+    return null;
+  }
+}
+
+function formatMeasure(metric: ReadinessMetric, value: number): string {
+  if (metric === "duration") {
+    return `${value} day(s)`;
+  }
+  if (metric === "sampleSize") {
+    return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value);
+  }
+  if (metric === "srm") {
+    return value < 0.0001 ? "< 0.0001" : String(Number(value.toFixed(4)));
+  }
+  return `${Number(value.toFixed(2))}%`;
+}
+
+export function describeReadinessRule(item: ReadinessRule): string {
+  const name = READINESS_METRIC_LABELS[item.metric].replace(/ \((%|days)\)$/, "");
+  const bound = (value: string) => formatMeasure(item.metric, Number(value));
+  const condition =
+    item.comparator === "between"
+      ? `between ${bound(item.threshold)} and ${bound(item.upperThreshold)}`
+      : `${READINESS_COMPARATOR_LABELS[item.comparator]} ${bound(item.threshold)}`;
+  return `${name} ${condition}`;
+}
+
+// The planned values a rule is checked against. Split and uplift give one value per variant and pass
+// only when every variant passes. Margin tests are sized from the margin, not an uplift, so the uplift
+// rule checks how wide the margin is instead. Null means the value is not known (SRM before any tracking, toggle
+// overlap for a plan that is not linked to a toggle).
+function measure(
+  metric: ReadinessMetric,
+  values: FormValues,
+  result: Result,
+  { srm = null, contamination = null }: ReadinessObservations,
+): { name: string; value: number }[] | null {
+  switch (metric) {
+    case "duration":
+      return [{ name: "", value: result.durationDays }];
+    case "split":
+      return result.arms.map((arm) => ({
+        name: arm.label,
+        value: (arm.trafficShare / (result.controlShare + arm.trafficShare)) * 100,
+      }));
+    case "alpha":
+      // Bayesian plans have no alpha; the chance of a wrong call left by the decision threshold stands in.
+      return [
+        {
+          name: "",
+          value:
+            values.framework === "bayesian" ? 100 - Number(values.decisionThreshold) : Number(values.significance),
+        },
+      ];
+    case "power":
+      return [{ name: "", value: Number(values.power) }];
+    case "sampleSize":
+      return [{ name: "", value: result.sampleSizePerGroup }];
+    case "uplift":
+      if (result.margin !== null) {
+        return [{ name: "margin", value: Number(values.testMargin) }];
+      }
+      return result.arms.map((arm) => ({ name: arm.label, value: Number((arm.uplift * 100).toFixed(2)) }));
+    case "srm":
+      return srm && srm.status !== "insufficient" ? [{ name: "", value: srm.pValue }] : null;
+    case "contamination":
+      return contamination === null ? null : [{ name: "", value: contamination * 100 }];
+  }
+}
+
+function meets(item: ReadinessRule, value: number): boolean {
+  const threshold = Number(item.threshold);
+  if (item.comparator === "atLeast") {
+    return value >= threshold - 1e-9;
+  }
+  if (item.comparator === "atMost") {
+    return value <= threshold + 1e-9;
+  }
+  return value >= threshold - 1e-9 && value <= Number(item.upperThreshold) + 1e-9;
+}
+
+// Scores a plan against the rules: each failed rule costs its weight, the level follows the cutoffs,
+// and failed major or critical rules then cap the level. Rules with input errors are left out.
+export function buildReadinessSummary(
+  values: FormValues,
+  result: Result,
+  config: ReadinessConfig = DEFAULT_READINESS_CONFIG,
+  observations: ReadinessObservations = {},
+): ReadinessSummary {
+  const checks = config.rules
+    .filter((item) => !validateReadinessRule(item))
+    .map((item): ReadinessCheck => {
+      const measured = measure(item.metric, values, result, observations);
+      const description = item.label.trim() || describeReadinessRule(item);
+      const observed = measured
+        ? measured
+            .map(({ name, value }) => `${name ? `${name}: ` : ""}${formatMeasure(item.metric, value)}`)
+            .join(", ")
+        : item.metric === "contamination"
+          ? "no linked toggle"
+          : "not checked yet";
+      return {
+        id: item.id,
+        label: `${description} (${observed})`,
+        rule: describeReadinessRule(item),
+        passed: measured ? measured.every(({ value }) => meets(item, value)) : true,
+        evaluated: measured !== null,
+        weight: Number(item.weight),
+        severity: item.severity,
+      };
+    });
+
+  const cutoffs = validateReadinessCutoffs(config) ? DEFAULT_READINESS_CONFIG : config;
+  const readyAt = Number(cutoffs.readyAt);
+  const reviewAt = Number(cutoffs.reviewAt);
+  const penalty = checks.reduce((sum, check) => sum + (check.passed ? 0 : check.weight), 0);
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  const failed = checks.filter((check) => !check.passed);
+
+  let level: ReadinessSummary["level"] = score >= readyAt ? "Ready" : score >= reviewAt ? "Needs Review" : "Risky";
+  if (failed.some((check) => check.severity === "critical")) {
+    level = "Risky";
+  } else if (level === "Ready" && failed.some((check) => check.severity === "major")) {
+    level = "Needs Review";
+  }
+
+  return { score, level, checks, readyAt, reviewAt };
+}
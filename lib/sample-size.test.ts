@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  calculateArcsineSampleSizePerGroup,
+  calculateEquivalenceSampleSize,
+  calculateExactPower,
+  calculateExactSampleSizePerGroup,
+  calculateFleissSampleSizePerGroup,
+  calculateNonInferioritySampleSize,
+  calculateProportionSampleSize,
+  calculateSampleSizeForMeans,
+  calculateSampleSizePerGroup,
+} from "@/lib/sample-size";
+
+describe("calculateSampleSizePerGroup", () => {
+  // The same cases as the Fleiss table below, before the continuity correction is applied.
+  it.each([
+    [0.05, 0.1, 435],
+    [0.1, 0.2, 199],
+  ])("matches the uncorrected normal approximation for %s vs %s", (p1, p2, expected) => {
+    expect(calculateSampleSizePerGroup(p1, p2, 0.05, 0.8)).toBe(expected);
+  });
+
+  // R: power.prop.test(p1 = 0.5, p2 = 0.75, power = 0.9) gives n = 76.7.
+  it("matches power.prop.test", () => {
+    expect(calculateSampleSizePerGroup(0.5, 0.75, 0.05, 0.9)).toBe(77);
+  });
+});
+
+describe("calculateFleissSampleSizePerGroup", () => {
+  // Fleiss, Levin & Paik (2003), Table A.4: alpha 0.05 two-sided, power 0.80.
+  it.each([
+    [0.05, 0.1, 474],
+    [0.1, 0.2, 219],
+  ])("matches the continuity-corrected table for %s vs %s", (p1, p2, expected) => {
+    expect(calculateFleissSampleSizePerGroup(p1, p2, 0.05, 0.8)).toBe(expected);
+  });
+});
+
+describe("calculateArcsineSampleSizePerGroup", () => {
+  // R: pwr.2p.test(h = 0.2, power = 0.8) gives n = 392.443 per group.
+  it("matches Cohen's h tables", () => {
+    const p2 = Math.sin(Math.PI / 4 + 0.1) ** 2;
+    expect(calculateArcsineSampleSizePerGroup(0.5, p2, 0.05, 0.8)).toBe(393);
+  });
+});
+
+// With no conversions in A, the pooled z-test at alpha 0.05 rejects once B has 4 or more: x / sqrt(x(2n - x)/2n)
+// reaches 1.96 from x = 4 for every n >= 7. Exact power is then P(X >= 4) for X ~ Bin(n, p2), which
+// cumulative binomial tables give for p = 0.3: P(X <= 3) is 0.2019 at n = 17 and 0.1646 at n = 18.
+describe("calculateExactPower", () => {
+  it("matches the binomial tables when A never converts", () => {
+    expect(calculateExactPower(0, 0.3, 0.05, 17)).toBeCloseTo(1 - 0.2019, 4);
+    expect(calculateExactPower(0, 0.3, 0.05, 18)).toBeCloseTo(1 - 0.1646, 4);
+  });
+
+  it("keeps the false-positive rate at alpha when there is no difference", () => {
+    expect(calculateExactPower(0.3, 0.3, 0.05, 2000)).toBeCloseTo(0.05, 2);
+  });
+
+  it("agrees with the normal approximation at large samples", () => {
+    const samplePerGroup = calculateSampleSizePerGroup(0.08, 0.088, 0.05, 0.8);
+    expect(calculateExactPower(0.08, 0.088, 0.05, samplePerGroup)).toBeCloseTo(0.8, 2);
+  });
+});
+
+describe("calculateExactSampleSizePerGroup", () => {
+  it("matches the binomial tables when A never converts", () => {
+    expect(calculateExactSampleSizePerGroup(0, 0.3, 0.05, 0.8)).toBe(18);
+  });
+
+  it("returns the first sample size whose exact power reaches the target", () => {
+    const samplePerGroup = calculateExactSampleSizePerGroup(0.005, 0.006, 0.05, 0.8) ?? 0;
+    expect(calculateExactPower(0.005, 0.006, 0.05, samplePerGroup)).toBeGreaterThanOrEqual(0.8);
+    expect(calculateExactPower(0.005, 0.006, 0.05, samplePerGroup - 1)).toBeLessThan(0.8);
+  });
+
+  it("stays within 2% of the normal approximation for mid-range rates", () => {
+    const exact = calculateExactSampleSizePerGroup(0.5, 0.6, 0.05, 0.8) ?? 0;
+    const normal = calculateSampleSizePerGroup(0.5, 0.6, 0.05, 0.8);
+    expect(Math.abs(exact - normal) / normal).toBeLessThan(0.02);
+  });
+
+  it("gives up past the search limit", () => {
+    // A 2% lift on a 0.5% rate needs about 7.9 million users per group.
+    expect(calculateExactSampleSizePerGroup(0.005, 0.0051, 0.05, 0.8)).toBeNull();
+  });
+});
+
+describe("calculateProportionSampleSize", () => {
+  it("dispatches to the selected method", () => {
+    expect(calculateProportionSampleSize("normal", 0.1, 0.2, 0.05, 0.8)).toEqual({ samplePerGroup: 199, method: "normal" });
+    expect(calculateProportionSampleSize("fleiss", 0.1, 0.2, 0.05, 0.8)).toEqual({ samplePerGroup: 219, method: "fleiss" });
+    expect(calculateProportionSampleSize("arcsine", 0.1, 0.2, 0.05, 0.8)).toEqual({
+      samplePerGroup: calculateArcsineSampleSizePerGroup(0.1, 0.2, 0.05, 0.8),
+      method: "arcsine",
+    });
+    expect(calculateProportionSampleSize("exact", 0.1, 0.2, 0.05, 0.8)).toEqual({
+      samplePerGroup: calculateExactSampleSizePerGroup(0.1, 0.2, 0.05, 0.8),
+      method: "exact",
+    });
+  });
+
+  it("falls back to the normal approximation when the exact search gives up", () => {
+    expect(calculateProportionSampleSize("exact", 0.005, 0.0051, 0.05, 0.8)).toEqual({
+      samplePerGroup: calculateSampleSizePerGroup(0.005, 0.0051, 0.05, 0.8),
+      method: "normal",
+    });
+  });
+});
+
+describe("calculateSampleSizeForMeans", () => {
+  // Standardised effect d = 0.5 at alpha 0.05, power 0.80: 2 x (1.96 + 0.84)^2 / 0.25 = 62.8.
+  it("matches the two-sample normal formula", () => {
+    expect(calculateSampleSizeForMeans(0, 0.5, 1, 0.05, 0.8)).toBe(63);
+  });
+});
+
+describe("calculateNonInferioritySampleSize", () => {
+  // Margin of 0.5 sd at one-sided alpha 0.05, power 0.80: 2 x (1.645 + 0.842)^2 / 0.25 = 49.5.
+  it("matches the one-sided normal formula", () => {
+    expect(calculateNonInferioritySampleSize(1, 0.5, 0.05, 0.8)).toBe(50);
+  });
+
+  it("uses the rate's binomial variance", () => {
+    // 20% rate, 1 pp margin, one-sided 2.5%: 2 x (1.96 + 0.842)^2 x 0.16 / 0.0001 = 25,116.4.
+    expect(calculateNonInferioritySampleSize(0.2 * 0.8, 0.01, 0.025, 0.8)).toBe(25117);
+  });
+});
+
+describe("calculateEquivalenceSampleSize", () => {
+  // Bounds of +-0.5 sd at alpha 0.05, power 0.80: 2 x (1.645 + 1.282)^2 / 0.25 = 68.5.
+  it("splits the miss rate between the two one-sided tests", () => {
+    expect(calculateEquivalenceSampleSize(1, 0.5, 0.05, 0.8)).toBe(69);
+  });
+});
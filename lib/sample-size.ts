@@ -0,0 +1,261 @@
+import { inverseNormalCdf, logGamma } from "@/lib/statistics";
+
+export type SampleSizeMethod = "normal" | "fleiss" | "arcsine" | "exact";
+
+// Beyond this many users per group the binomial is normal to many decimals and the exact search
+// only costs time, so it gives way to the normal approximation instead.
+export const EXACT_SEARCH_LIMIT = 5_000_000;
+
+// The method that actually sized the groups: "exact" falls back to "normal" past EXACT_SEARCH_LIMIT.
+export type ProportionSampleSize = {
+  samplePerGroup: number;
+  method: SampleSizeMethod;
+};
+
+// Pooled variance under H0, unpooled under H1, no continuity correction.
+export function calculateSampleSizePerGroup(p1: number, p2: number, alpha: number, power: number): number {
+  return Math.ceil(normalSampleSize(p1, p2, alpha, power));
+}
+
+function normalSampleSize(p1: number, p2: number, alpha: number, power: number): number {
+  const zAlpha = inverseNormalCdf(1 - alpha / 2);
+  const zBeta = inverseNormalCdf(power);
+  const pooled = (p1 + p2) / 2;
+  const diff = Math.abs(p2 - p1);
+
+  const numerator =
+    zAlpha * Math.sqrt(2 * pooled * (1 - pooled)) +
+    zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+
+  return (numerator * numerator) / (diff * diff);
+}
+
+// Fleiss, Tytun & Ury (1980) continuity correction of the normal approximation.
+export function calculateFleissSampleSizePerGroup(p1: number, p2: number, alpha: number, power: number): number {
+  const uncorrected = normalSampleSize(p1, p2, alpha, power);
+  const diff = Math.abs(p2 - p1);
+  const correction = 1 + Math.sqrt(1 + 4 / (uncorrected * diff));
+
+  return Math.ceil((uncorrected / 4) * correction * correction);
+}
+
+// Cohen's h: the arcsine transform makes the variance 1 / n whatever the rate.
+export function calculateArcsineSampleSizePerGroup(p1: number, p2: number, alpha: number, power: number): number {
+  const h = Math.abs(2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1)));
+  const z = inverseNormalCdf(1 - alpha / 2) + inverseNormalCdf(power);
+
+  return Math.ceil(2 * (z / h) * (z / h));
+}
+
+type BinomialWindow = {
+  start: number;
+  end: number;
+  pmf: number[];
+  // lowerTail[i] = P(X <= start + i), upperTail[i] = P(X >= start + i).
+  lowerTail: number[];
+  upperTail: number[];
+};
+
+// Probability mass more than ten standard deviations from the mean is below double precision, so
+// only the window around the mean is summed.
+function binomialWindow(trials: number, probability: number): BinomialWindow {
+  // A rate of 0 or 1 always gives the same count, and its log mass would be NaN.
+  if (probability <= 0 || probability >= 1) {
+    const count = probability <= 0 ? 0 : trials;
+    return { start: count, end: count, pmf: [1], lowerTail: [1], upperTail: [1] };
+  }
+
+  const mean = trials * probability;
+  const spread = 10 * Math.sqrt(mean * (1 - probability)) + 10;
+  const start = Math.max(0, Math.floor(mean - spread));
+  const end = Math.min(trials, Math.ceil(mean + spread));
+  const logOdds = Math.log(probability) - Math.log(1 - probability);
+
+  // Walk the log mass up from the window start so tiny tails do not underflow to zero on the way.
+  let logMass =
+    logGamma(trials + 1) -
+    logGamma(start + 1) -
+    logGamma(trials - start + 1) +
+    start * Math.log(probability) +
+    (trials - start) * Math.log(1 - probability);
+  const pmf = Array.from({ length: end - start + 1 }, (_, i) => {
+    const k = start + i;
+    if (i > 0) {
+      logMass += Math.log((trials - k + 1) / k) + logOdds;
+    }
+    return Math.exp(logMass);
+  });
+
+  const lowerTail = new Array<number>(pmf.length);
+  const upperTail = new Array<number>(pmf.length);
+  let running = 0;
+  pmf.forEach((mass, i) => {
+    running += mass;
+    lowerTail[i] = running;
+  });
+  running = 0;
+  for (let i = pmf.length - 1; i >= 0; i -= 1) {
+    running += pmf[i];
+    upperTail[i] = running;
+  }
+
+  return { start, end, pmf, lowerTail, upperTail };
+}
+
+// Exact power of the two-sided pooled z-test with equal groups, summed over both binomial
+// distributions instead of approximated. For a fixed control count the statistic only grows with the
+// variant count, so each rejection region is found by bisection.
+export function calculateExactPower(p1: number, p2: number, alpha: number, samplePerGroup: number): number {
+  const n = Math.max(1, Math.round(samplePerGroup));
+  const zAlpha = inverseNormalCdf(1 - alpha / 2);
+  const control = binomialWindow(n, p1);
+  const variant = binomialWindow(n, p2);
+  const zScore = (x1: number, x2: number) => {
+    const total = x1 + x2;
+    return (x2 - x1) / Math.sqrt((total * (2 * n - total)) / (2 * n));
+  };
+
+  let power = 0;
+  for (let x1 = control.start; x1 <= control.end; x1 += 1) {
+    const mass = control.pmf[x1 - control.start];
+    let rejected = 0;
+
+    // Upper region: smallest x2 > x1 with z >= zAlpha.
+    let low = Math.max(x1 + 1, variant.start);
+    let high = variant.end;
+    if (low <= high && zScore(x1, high) >= zAlpha) {
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (zScore(x1, mid) >= zAlpha) {
+          high = mid;
+        } else {
+          low = mid + 1;
+        }
+      }
+      rejected += variant.upperTail[low - variant.start];
+    }
+
+    // Lower region: largest x2 < x1 with z <= -zAlpha.
+    low = variant.start;
+    high = Math.min(x1 - 1, variant.end);
+    if (low <= high && zScore(x1, low) <= -zAlpha) {
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (zScore(x1, mid) <= -zAlpha) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      rejected += variant.lowerTail[low - variant.start];
+    }
+
+    power += mass * rejected;
+  }
+
+  return power;
+}
+
+// Exact power saw-tooths as n grows, so the search returns the first crossing of the target found by
+// bisection around the normal approximation. Null when the target is not reached within
+// EXACT_SEARCH_LIMIT users per group.
+export function calculateExactSampleSizePerGroup(
+  p1: number,
+  p2: number,
+  alpha: number,
+  power: number,
+): number | null {
+  const approximate = calculateSampleSizePerGroup(p1, p2, alpha, power);
+  if (approximate > EXACT_SEARCH_LIMIT) {
+    return null;
+  }
+
+  const reaches = (samplePerGroup: number) => calculateExactPower(p1, p2, alpha, samplePerGroup) >= power;
+
+  let high = Math.max(2, approximate);
+  while (!reaches(high)) {
+    if (high >= EXACT_SEARCH_LIMIT) {
+      return null;
+    }
+    high = Math.min(EXACT_SEARCH_LIMIT, Math.ceil(high * 1.25));
+  }
+
+  let low = Math.floor(high / 2);
+  while (low > 1 && reaches(low)) {
+    high = low;
+    low = Math.floor(low / 2);
+  }
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (reaches(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return high;
+}
+
+export function calculateProportionSampleSize(
+  method: SampleSizeMethod,
+  p1: number,
+  p2: number,
+  alpha: number,
+  power: number,
+): ProportionSampleSize {
+  switch (method) {
+    case "fleiss":
+      return { samplePerGroup: calculateFleissSampleSizePerGroup(p1, p2, alpha, power), method };
+    case "arcsine":
+      return { samplePerGroup: calculateArcsineSampleSizePerGroup(p1, p2, alpha, power), method };
+    case "exact": {
+      const exact = calculateExactSampleSizePerGroup(p1, p2, alpha, power);
+      return exact === null
+        ? { samplePerGroup: calculateSampleSizePerGroup(p1, p2, alpha, power), method: "normal" }
+        : { samplePerGroup: exact, method };
+    }
+    default:
+      return { samplePerGroup: calculateSampleSizePerGroup(p1, p2, alpha, power), method: "normal" };
+  }
+}
+
+export function calculateSampleSizeForMeans(
+  mean1: number,
+  mean2: number,
+  standardDeviation: number,
+  alpha: number,
+  power: number,
+): number {
+  const zAlpha = inverseNormalCdf(1 - alpha / 2);
+  const zBeta = inverseNormalCdf(power);
+  const diff = Math.abs(mean2 - mean1);
+  const zSum = zAlpha + zBeta;
+
+  return Math.ceil((2 * zSum * zSum * standardDeviation * standardDeviation) / (diff * diff));
+}
+
+// Non-inferiority: a one-sided test that the variant is no worse than the margin, sized assuming no
+// true difference. The variance is per user (p(1 - p) for a rate, sd^2 for an average).
+export function calculateNonInferioritySampleSize(
+  variance: number,
+  margin: number,
+  alpha: number,
+  power: number,
+): number {
+  const zSum = inverseNormalCdf(1 - alpha) + inverseNormalCdf(power);
+
+  return Math.ceil((2 * zSum * zSum * variance) / (margin * margin));
+}
+
+// Equivalence by two one-sided tests (TOST) at alpha each, sized assuming no true difference. Both
+// tests have to pass, so each is given half the allowed miss rate.
+export function calculateEquivalenceSampleSize(
+  variance: number,
+  margin: number,
+  alpha: number,
+  power: number,
+): number {
+  return calculateNonInferioritySampleSize(variance, margin, alpha, 1 - (1 - power) / 2);
+}
@@ -0,0 +1,115 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUES } from "@/lib/planner";
+import {
+  createScenario,
+  deleteScenario,
+  getScenario,
+  importScenarios,
+  isScenarioId,
+  listScenarios,
+  parseScenarioName,
+  ScenarioStoreError,
+  updateScenario,
+} from "@/lib/scenario-store";
+
+let directory = "";
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "scenario-store-"));
+  process.env.SCENARIO_STORE_PATH = path.join(directory, "scenarios.json");
+});
+
+afterEach(async () => {
+  delete process.env.SCENARIO_STORE_PATH;
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("scenario store", () => {
+  it("starts empty when the file does not exist yet", async () => {
+    expect(await listScenarios()).toEqual([]);
+  });
+
+  it("refuses to read or change a store file that is not a list of scenarios", async () => {
+    const file = process.env.SCENARIO_STORE_PATH ?? "";
+    for (const contents of ["{}\n", "[{\"id\": "]) {
+      await writeFile(file, contents, "utf8");
+      await expect(listScenarios()).rejects.toBeInstanceOf(ScenarioStoreError);
+      await expect(createScenario("Checkout", DEFAULT_VALUES)).rejects.toBeInstanceOf(ScenarioStoreError);
+      await expect(importScenarios([], "replace")).rejects.toBeInstanceOf(ScenarioStoreError);
+      expect(await readFile(file, "utf8")).toBe(contents);
+    }
+  });
+
+  it("creates, reads, updates and deletes scenarios by short ID", async () => {
+    const created = await createScenario("Checkout copy", { ...DEFAULT_VALUES, baselineRate: "3" });
+    expect(isScenarioId(created.id)).toBe(true);
+    expect(await getScenario(created.id)).toEqual(created);
+
+    const updated = await updateScenario(created.id, { values: { ...DEFAULT_VALUES, baselineRate: "4" } });
+    expect(updated?.name).toBe("Checkout copy");
+    expect(updated?.values.baselineRate).toBe("4");
+
+    expect(await deleteScenario(created.id)).toBe(true);
+    expect(await getScenario(created.id)).toBeNull();
+    expect(await deleteScenario(created.id)).toBe(false);
+  });
+
+  it("keeps every scenario when changes arrive at the same time", async () => {
+    await Promise.all(["A", "B", "C", "D"].map((name) => createScenario(name, DEFAULT_VALUES)));
+
+    const stored = JSON.parse(await readFile(process.env.SCENARIO_STORE_PATH ?? "", "utf8"));
+    expect(stored).toHaveLength(4);
+    expect(new Set(stored.map((scenario: { id: string }) => scenario.id)).size).toBe(4);
+  });
+
+  it("imports each localStorage scenario only once", async () => {
+    const items = [
+      {
+        id: "pricing-1767607200000",
+        name: "Pricing page",
+        values: DEFAULT_VALUES,
+        createdAt: "2026-01-05T10:00:00.000Z",
+      },
+      { id: "", name: "Onboarding", values: DEFAULT_VALUES, createdAt: "2026-02-01T09:30:00.000Z" },
+    ].map((item) => ({ ...item, updatedAt: item.createdAt }));
+
+    const first = await importScenarios(items, "merge");
+    expect(first.report.map((entry) => entry.outcome)).toEqual(["added", "added"]);
+
+    const second = await importScenarios(items, "merge");
+    expect(second.report.map((entry) => entry.outcome)).toEqual(["unchanged", "unchanged"]);
+    expect((await listScenarios()).map((scenario) => scenario.name)).toEqual(["Onboarding", "Pricing page"]);
+  });
+
+  it("keeps short IDs and reports conflicts on merge, overwrites and removes on replace", async () => {
+    const kept = await createScenario("Checkout", DEFAULT_VALUES);
+    const dropped = await createScenario("Search", DEFAULT_VALUES);
+    const edited = { ...kept, values: { ...DEFAULT_VALUES, power: "90" } };
+
+    const merged = await importScenarios([edited], "merge");
+    expect(merged.report.map((entry) => entry.outcome)).toEqual(["conflict"]);
+    expect((await getScenario(kept.id))?.values.power).toBe(DEFAULT_VALUES.power);
+
+    const replaced = await importScenarios([edited], "replace");
+    expect(replaced.report.map((entry) => [entry.name, entry.outcome])).toEqual([
+      ["Checkout", "replaced"],
+      ["Search", "removed"],
+    ]);
+    expect((await getScenario(kept.id))?.values.power).toBe("90");
+    expect(await getScenario(dropped.id)).toBeNull();
+  });
+});
+
+describe("parseScenarioName", () => {
+  it("trims names and rejects empty or overly long ones", () => {
+    expect(parseScenarioName("  Checkout  ")).toBe("Checkout");
+    expect(parseScenarioName("   ")).toBeNull();
+    expect(parseScenarioName(42)).toBeNull();
+    expect(parseScenarioName("x".repeat(81))).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { randomInt } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { parseFormValues, type FormValues } from "@/lib/planner";
+import {
+  reconcileItems,
+  type ImportMode,
+  type ImportReportEntry,
+  type WorkspaceScenario,
+} from "@/lib/workspace";
+
+export type StoredScenario = {
+  id: string;
+  name: string;
+  values: FormValues;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScenarioUpdate = {
+  name?: string;
+  values?: FormValues;
+};
+
+// The store file exists but cannot be read as a list of scenarios. Changes are refused until someone
+// fixes or restores it, so a bad manual edit never turns into an empty library on the next save.
+export class ScenarioStoreError extends Error {}
+
+export const MAX_SCENARIO_NAME_LENGTH = 80;
+export const MAX_IMPORTED_SCENARIOS = 1000;
+
+const ID_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const ID_LENGTH = 6;
+
+function storePath(): string {
+  return process.env.SCENARIO_STORE_PATH ?? path.join(process.cwd(), "data", "scenarios.json");
+}
+
+// Six lowercase letters or digits: short enough to paste anywhere, as in /s/k3x9qa.
+function createScenarioId(taken: Set<string>): string {
+  let id = "";
+  do {
+    id = Array.from({ length: ID_LENGTH }, () => ID_ALPHABET[randomInt(ID_ALPHABET.length)]).join("");
+  } while (taken.has(id));
+  return id;
+}
+
+export function isScenarioId(value: string): boolean {
+  return value.length === ID_LENGTH && [...value].every((char) => ID_ALPHABET.includes(char));
+}
+
+// Returns the trimmed name, or null when it is empty or too long to show in the library.
+export function parseScenarioName(value: unknown): string | null {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name && name.length <= MAX_SCENARIO_NAME_LENGTH ? name : null;
+}
+
+function parseStoredScenario(item: unknown): StoredScenario | null {
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+
+  const record = item as Record<string, unknown>;
+  const id = String(record.id ?? "");
+  const name = parseScenarioName(record.name);
+  if (!isScenarioId(id) || !name) {
+    return null;
+  }
+
+  const createdAt = String(record.createdAt ?? new Date().toISOString());
+  return {
+    id,
+    name,
+    values: parseFormValues(record.values),
+    createdAt,
+    updatedAt: String(record.updatedAt ?? createdAt),
+  };
+}
+
+async function readScenarios(): Promise<StoredScenario[]> {
+  let raw: string;
+  try {
+    raw = await readFile(storePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ScenarioStoreError("The scenario library file is not valid JSON. Fix or restore it; nothing was changed.");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ScenarioStoreError(
+      "The scenario library file does not hold a list of scenarios. Fix or restore it; nothing was changed.",
+    );
+  }
+  return parsed.map(parseStoredScenario).filter((scenario): scenario is StoredScenario => scenario !== null);
+}
+
+// Write to a sibling file and rename it over the store so a crash never leaves half a JSON file.
+async function writeScenarios(scenarios: StoredScenario[]): Promise<void> {
+  const file = storePath();
+  const temporary = `${file}.${process.pid}.tmp`;
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(temporary, `${JSON.stringify(scenarios, null, 2)}\n`, "utf8");
+  await rename(temporary, file);
+}
+
+// Every change rewrites the whole file, so changes run one at a time or two requests could each
+// write back a list that is missing the other's edit.
+let queue: Promise<unknown> = Promise.resolve();
+
+function changeScenarios<T>(change: (scenarios: StoredScenario[]) => { scenarios?: StoredScenario[]; value: T }) {
+  const next = queue.then(async () => {
+    const outcome = change(await readScenarios());
+    if (outcome.scenarios) {
+      await writeScenarios(outcome.scenarios);
+    }
+    return outcome.value;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+// Newest first, like the library shows them.
+function sortNewestFirst(scenarios: StoredScenario[]): StoredScenario[] {
+  return [...scenarios].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listScenarios(): Promise<StoredScenario[]> {
+  await queue;
+  return sortNewestFirst(await readScenarios());
+}
+
+export async function getScenario(id: string): Promise<StoredScenario | null> {
+  if (!isScenarioId(id)) {
+    return null;
+  }
+  await queue;
+  const scenarios = await readScenarios();
+  return scenarios.find((scenario) => scenario.id === id) ?? null;
+}
+
+export function createScenario(name: string, values: FormValues): Promise<StoredScenario> {
+  return changeScenarios((scenarios) => {
+    const now = new Date().toISOString();
+    const scenario: StoredScenario = {
+      id: createScenarioId(new Set(scenarios.map((item) => item.id))),
+      name,
+      values,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { scenarios: [...scenarios, scenario], value: scenario };
+  });
+}
+
+export function updateScenario(id: string, update: ScenarioUpdate): Promise<StoredScenario | null> {
+  return changeScenarios((scenarios) => {
+    const current = scenarios.find((scenario) => scenario.id === id);
+    if (!current) {
+      return { value: null };
+    }
+
+    const scenario: StoredScenario = {
+      ...current,
+      name: update.name ?? current.name,
+      values: update.values ?? current.values,
+      updatedAt: new Date().toISOString(),
+    };
+    return { scenarios: scenarios.map((item) => (item.id === id ? scenario : item)), value: scenario };
+  });
+}
+
+export function deleteScenario(id: string): Promise<boolean> {
+  return changeScenarios((scenarios) => {
+    const remaining = scenarios.filter((scenario) => scenario.id !== id);
+    return remaining.length === scenarios.length ? { value: false } : { scenarios: remaining, value: true };
+  });
+}
+
+// Brings in scenarios from a workspace file or from a browser's localStorage. Scenarios keep their
+// short ID when they have one. Ones without (saved locally by older versions) match a stored scenario
+// with the same name and creation time, so a retried migration does not add them twice.
+export function importScenarios(
+  items: WorkspaceScenario[],
+  mode: ImportMode,
+): Promise<{ scenarios: StoredScenario[]; report: ImportReportEntry[] }> {
+  return changeScenarios((scenarios) => {
+    const taken = new Set(scenarios.map((scenario) => scenario.id));
+    const idsByOrigin = new Map(scenarios.map((scenario) => [`${scenario.name}\n${scenario.createdAt}`, scenario.id]));
+    const imported = items.map((item) => {
+      if (isScenarioId(item.id)) {
+        return { ...item, name: item.name.slice(0, MAX_SCENARIO_NAME_LENGTH) };
+      }
+
+      const id = idsByOrigin.get(`${item.name}\n${item.createdAt}`) ?? createScenarioId(taken);
+      taken.add(id);
+      return { ...item, id, name: item.name.slice(0, MAX_SCENARIO_NAME_LENGTH) };
+    });
+
+    const { items: next, report } = reconcileItems(scenarios, imported, mode, {
+      kind: "scenario",
+      key: (scenario) => scenario.id,
+      label: (scenario) => scenario.name,
+      same: (a, b) => a.name === b.name && JSON.stringify(a.values) === JSON.stringify(b.values),
+    });
+    const changed = report.some((entry) => ["added", "replaced", "removed"].includes(entry.outcome));
+    return { scenarios: changed ? next : undefined, value: { scenarios: sortNewestFirst(next), report } };
+  });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { chiSquareSurvival, inverseNormalCdf, normalCdf } from "@/lib/statistics";
+
+// Standard normal quantiles as printed in any z-table (e.g. Abramowitz & Stegun, Table 26.5).
+describe("inverseNormalCdf", () => {
+  it.each([
+    [0.5, 0],
+    [0.8, 0.8416212],
+    [0.9, 1.2815516],
+    [0.95, 1.6448536],
+    [0.975, 1.959964],
+    [0.995, 2.5758293],
+    [0.999, 3.0902323],
+    [0.01, -2.3263479],
+  ])("returns the %s quantile", (probability, quantile) => {
+    expect(inverseNormalCdf(probability)).toBeCloseTo(quantile, 6);
+  });
+
+  it("rejects probabilities outside (0, 1)", () => {
+    expect(() => inverseNormalCdf(0)).toThrow();
+    expect(() => inverseNormalCdf(1)).toThrow();
+  });
+});
+
+describe("normalCdf", () => {
+  it.each([
+    [0, 0.5],
+    [1.959964, 0.975],
+    [-1, 0.1586553],
+    [2.5758293, 0.995],
+  ])("returns P(Z <= %s)", (value, probability) => {
+    expect(normalCdf(value)).toBeCloseTo(probability, 6);
+  });
+});
+
+// Chi-square critical values from standard tables.
+describe("chiSquareSurvival", () => {
+  it.each([
+    [3.841459, 1, 0.05],
+    [10.827566, 1, 0.001],
+    [5.991465, 2, 0.05],
+  ])("returns the tail area beyond %s with %s df", (statistic, degreesOfFreedom, tail) => {
+    expect(chiSquareSurvival(statistic, degreesOfFreedom)).toBeCloseTo(tail, 6);
+  });
+});
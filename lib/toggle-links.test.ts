@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateResult, DEFAULT_VALUES, validatePlan } from "@/lib/planner";
+import { parseLinkedToggles, summarizeToggleLink, syncLinkedToggle, validateLinkedPlan } from "@/lib/toggle-links";
+import type { FeatureToggle } from "@/lib/workspace";
+
+const toggles: FeatureToggle[] = [
+  { id: "checkout", name: "checkout", enabled: true, rollout: 30, description: "" },
+  { id: "banner", name: "banner", enabled: true, rollout: 20, description: "" },
+  { id: "lobby", name: "lobby", enabled: true, rollout: 50, description: "" },
+  { id: "launched", name: "launched", enabled: true, rollout: 100, description: "" },
+  { id: "paused", name: "paused", enabled: false, rollout: 40, description: "" },
+];
+const linked = { ...DEFAULT_VALUES, linkedToggle: "checkout", dailyVisitors: "1000" };
+
+describe("syncLinkedToggle", () => {
+  it("sets B's traffic to the linked toggle's rollout", () => {
+    expect(syncLinkedToggle(linked, toggles).variantTraffic).toBe("30");
+  });
+
+  it("leaves the values alone when the plan is not linked or the toggle is missing, off or at 0%", () => {
+    expect(syncLinkedToggle(DEFAULT_VALUES, toggles)).toBe(DEFAULT_VALUES);
+    for (const linkedToggle of ["elsewhere", "paused", "dark"]) {
+      const values = { ...DEFAULT_VALUES, linkedToggle };
+      expect(syncLinkedToggle(values, [...toggles, { ...toggles[0], id: "dark", rollout: 0 }])).toBe(values);
+    }
+  });
+
+  it("caps the rollout so A keeps traffic next to the other variants", () => {
+    const values = { ...linked, linkedToggle: "lobby", extraVariants: [{ traffic: "60", uplift: "10" }] };
+
+    expect(syncLinkedToggle(values, toggles).variantTraffic).toBe("39");
+    expect(summarizeToggleLink(values, toggles)).toMatchObject({ variantTraffic: 39, trafficCapped: true });
+  });
+});
+
+describe("summarizeToggleLink", () => {
+  it("combines the concurrent toggles' rollouts into the contaminated share", () => {
+    const summary = summarizeToggleLink(linked, toggles, [
+      { name: "Lobby promo", values: { ...DEFAULT_VALUES, linkedToggle: "lobby" } },
+      { name: "Unlinked", values: DEFAULT_VALUES },
+    ]);
+
+    expect(summary?.toggle?.id).toBe("checkout");
+    expect(summary?.conflicts.map((item) => [item.toggle.id, item.sharedShare, item.experiments])).toEqual([
+      ["banner", 0.2, []],
+      ["lobby", 0.5, ["Lobby promo"]],
+    ]);
+    expect(summary?.contaminatedShare).toBeCloseTo(0.6);
+    expect(summary?.cleanDailyUsers).toBe(400);
+  });
+
+  it("is null for unlinked plans and keeps a missing toggle's conflicts", () => {
+    expect(summarizeToggleLink(DEFAULT_VALUES, toggles)).toBeNull();
+
+    const summary = summarizeToggleLink({ ...linked, linkedToggle: "elsewhere" }, [toggles[1]]);
+    expect(summary?.toggle).toBeNull();
+    expect(summary?.contaminatedShare).toBeCloseTo(0.2);
+  });
+});
+
+describe("validateLinkedPlan", () => {
+  it("sizes a linked plan on the users no concurrent toggle reaches", () => {
+    const values = syncLinkedToggle({ ...linked, dailyVisitors: "12000" }, toggles);
+    const linkedResult = calculateResult(validateLinkedPlan(values, toggles).parsed);
+    const durationOn = (dailyVisitors: string) =>
+      calculateResult(validatePlan({ ...values, dailyVisitors }).parsed).durationDays;
+
+    // Banner and lobby reach 60% of the users, so 4,800 of the 12,000 a day are clean.
+    expect(linkedResult.durationDays).toBe(durationOn("4800"));
+    expect(linkedResult.durationDays).toBeGreaterThan(durationOn("12000"));
+    expect(validateLinkedPlan(DEFAULT_VALUES, toggles).parsed.dailyVisitors).toBe(12000);
+  });
+
+  it("fails when no whole clean user is left", () => {
+    expect(validateLinkedPlan({ ...linked, dailyVisitors: "1" }, toggles).nextGlobalError).toMatch(
+      /^Concurrent toggles reach every user of this test/,
+    );
+  });
+});
+
+describe("parseLinkedToggles", () => {
+  it("needs the linked toggle among the toggles sent with the plan", () => {
+    expect(parseLinkedToggles(DEFAULT_VALUES, undefined)).toEqual({ toggles: [] });
+    expect(parseLinkedToggles(linked, toggles)).toEqual({ toggles });
+    expect(parseLinkedToggles(linked, [toggles[1]])).toEqual({
+      error: 'linkedToggle "checkout" is not in toggles. Send the feature toggles with the plan.',
+    });
+    expect(parseLinkedToggles(linked, { checkout: 30 })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,126 @@
+import { collectPlanErrors, eligibleDailyUsers, validatePlan, type FormValues } from "@/lib/planner";
+import { parseToggleList, type FeatureToggle } from "@/lib/workspace";
+
+// Another enabled toggle the linked test shares users with, and the saved scenarios linked to it.
+export type ToggleConflict = {
+  toggle: FeatureToggle;
+  sharedShare: number;
+  experiments: string[];
+};
+
+export type ToggleLinkSummary = {
+  // Null when the plan names a toggle this browser does not have (e.g. from someone else's share link).
+  toggle: FeatureToggle | null;
+  // B's traffic (%) the toggle sets, or null when B's traffic stays as entered.
+  variantTraffic: number | null;
+  // True when the rollout was lowered so A keeps traffic next to the other variants.
+  trafficCapped: boolean;
+  conflicts: ToggleConflict[];
+  // Share of the test's users that at least one conflicting toggle also reaches.
+  contaminatedShare: number;
+  // Whole users a day no other toggle reaches; linked plans are sized on these.
+  cleanDailyUsers: number;
+};
+
+// Percentage points of traffic A keeps when a linked rollout would otherwise leave it none.
+const MIN_CONTROL_TRAFFIC = 1;
+
+// A toggle that is on for some users but not all splits traffic the way a test does. Toggles at 100%
+// are launched features every arm sees alike, so they do not count as concurrent.
+export function isConcurrentToggle(toggle: FeatureToggle): boolean {
+  return toggle.enabled && toggle.rollout > 0 && toggle.rollout < 100;
+}
+
+// The linked toggle serves B to its rollout and A to everyone else, so its rollout is B's traffic,
+// capped so the variants leave A some traffic. A toggle that is off or at 0% shows B to nobody, so it
+// does not set the traffic.
+function linkedVariantTraffic(values: FormValues, toggle: FeatureToggle | undefined): number | null {
+  if (!toggle || !toggle.enabled || toggle.rollout <= 0) {
+    return null;
+  }
+
+  const otherTraffic = values.extraVariants.reduce((sum, arm) => sum + (Number(arm.traffic) || 0), 0);
+  const available = 100 - MIN_CONTROL_TRAFFIC - otherTraffic;
+  return available > 0 ? Math.min(toggle.rollout, available) : null;
+}
+
+export function syncLinkedToggle(values: FormValues, toggles: FeatureToggle[]): FormValues {
+  const traffic = linkedVariantTraffic(
+    values,
+    toggles.find((item) => item.id === values.linkedToggle),
+  );
+  return traffic !== null && values.variantTraffic !== String(traffic)
+    ? { ...values, variantTraffic: String(traffic) }
+    : values;
+}
+
+// Toggles are bucketed independently (each salted by its own ID), so a concurrent toggle at r% reaches
+// about r% of the test's users, in every arm.
+export function summarizeToggleLink(
+  values: FormValues,
+  toggles: FeatureToggle[],
+  scenarios: { name: string; values: FormValues }[] = [],
+): ToggleLinkSummary | null {
+  if (!values.linkedToggle) {
+    return null;
+  }
+
+  const toggle = toggles.find((item) => item.id === values.linkedToggle);
+  const variantTraffic = linkedVariantTraffic(values, toggle);
+  const conflicts = toggles
+    .filter((other) => other.id !== values.linkedToggle && isConcurrentToggle(other))
+    .map((other) => ({
+      toggle: other,
+      sharedShare: other.rollout / 100,
+      experiments: scenarios
+        .filter((scenario) => scenario.values.linkedToggle === other.id)
+        .map((scenario) => scenario.name),
+    }));
+  const cleanShare = conflicts.reduce((clean, conflict) => clean * (1 - conflict.sharedShare), 1);
+
+  return {
+    toggle: toggle ?? null,
+    variantTraffic,
+    trafficCapped: toggle !== undefined && variantTraffic !== null && variantTraffic < toggle.rollout,
+    conflicts,
+    contaminatedShare: 1 - cleanShare,
+    cleanDailyUsers: Math.floor((eligibleDailyUsers(values) || 0) * cleanShare),
+  };
+}
+
+// The API and the CLI have no browser storage, so a linked plan brings its toggles along in the
+// workspace export's shape. Without the linked toggle the plan would size differently than the page.
+export function parseLinkedToggles(values: FormValues, raw: unknown): { toggles: FeatureToggle[] } | { error: string } {
+  if (raw !== undefined && !Array.isArray(raw)) {
+    return { error: "toggles must be a list of feature toggles with an id, name, enabled flag and rollout." };
+  }
+
+  const toggles = parseToggleList(raw).items;
+  if (values.linkedToggle && !toggles.some((toggle) => toggle.id === values.linkedToggle)) {
+    return {
+      error: `linkedToggle "${values.linkedToggle}" is not in toggles. Send the feature toggles with the plan.`,
+    };
+  }
+  return { toggles };
+}
+
+// Validates a plan the way validatePlan does, then sizes a linked plan on its clean daily users: users
+// another toggle also reaches get both changes, so they cannot be counted toward the test. The page,
+// the API and the CLI all plan through this.
+export function validateLinkedPlan(values: FormValues, toggles: FeatureToggle[]): ReturnType<typeof validatePlan> {
+  const validation = validatePlan(values);
+  const summary = summarizeToggleLink(values, toggles);
+  if (!summary || summary.conflicts.length === 0) {
+    return validation;
+  }
+
+  if (summary.cleanDailyUsers < 1 && !collectPlanErrors(validation)) {
+    return {
+      ...validation,
+      nextGlobalError:
+        "Concurrent toggles reach every user of this test, so no clean users are left. Pause one of them or add users.",
+    };
+  }
+
+  return { ...validation, parsed: { ...validation.parsed, dailyVisitors: summary.cleanDailyUsers } };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_VALUES } from "@/lib/planner";
+import { DEFAULT_READINESS_CONFIG } from "@/lib/readiness";
+import {
+  buildWorkspaceDocument,
+  migrateWorkspace,
+  parseWorkspaceFile,
+  reconcileItems,
+  WORKSPACE_VERSION,
+  type FeatureToggle,
+} from "@/lib/workspace";
+
+const toggle: FeatureToggle = {
+  id: "quick-withdrawal",
+  name: "Quick Withdrawal CTA",
+  enabled: true,
+  rollout: 100,
+  description: "",
+};
+
+describe("parseWorkspaceFile", () => {
+  it("round-trips an exported workspace", () => {
+    const scenario = {
+      id: "k3x9qa",
+      name: "Checkout",
+      values: DEFAULT_VALUES,
+      createdAt: "2026-03-01T12:00:00.000Z",
+      updatedAt: "2026-03-02T12:00:00.000Z",
+    };
+    const tracker = { controlUsers: "100", variantUsers: "98", controlConversions: "9", variantConversions: "12" };
+    const template = { id: "jira-ticket", name: "Jira ticket", body: "h1. {{baselineRate}}%" };
+    const readiness = { ...DEFAULT_READINESS_CONFIG, readyAt: "90" };
+    const exported = buildWorkspaceDocument({
+      scenarios: [scenario],
+      toggles: [toggle],
+      templates: [template],
+      readiness,
+      tracker,
+      theme: "dark",
+    });
+
+    expect(parseWorkspaceFile(JSON.stringify(exported))).toEqual({
+      scenarios: [scenario],
+      toggles: [toggle],
+      templates: [template],
+      readiness,
+      tracker,
+      theme: "dark",
+      report: [],
+    });
+  });
+
+  it("loads the unversioned localStorage layout through the migrations", () => {
+    const legacy = {
+      scenarios: [
+        {
+          id: "checkout-1718000000000",
+          name: "Checkout",
+          values: { baselineRate: "3" },
+          createdAt: "2024-06-10T06:13:20.000Z",
+        },
+      ],
+      toggles: [toggle],
+    };
+
+    const imported = parseWorkspaceFile(JSON.stringify(legacy));
+    expect("error" in imported).toBe(false);
+    if (!("error" in imported)) {
+      expect(imported.scenarios?.[0]).toMatchObject({
+        name: "Checkout",
+        updatedAt: "2024-06-10T06:13:20.000Z",
+        values: { ...DEFAULT_VALUES, baselineRate: "3" },
+      });
+      expect(imported.tracker).toBeNull();
+    }
+  });
+
+  it("skips invalid items and reports them", () => {
+    const imported = parseWorkspaceFile(
+      JSON.stringify({ version: WORKSPACE_VERSION, toggles: [toggle, { name: "No id" }], scenarios: [{ values: {} }] }),
+    );
+    const report = "error" in imported ? [] : imported.report;
+
+    expect(report.map((entry) => [entry.kind, entry.name, entry.outcome])).toEqual([
+      ["scenario", "Item 1", "invalid"],
+      ["toggle", "No id", "invalid"],
+    ]);
+  });
+
+  it.each([
+    ["not json", "The file is not valid JSON."],
+    [
+      JSON.stringify({ format: "something-else", scenarios: [] }),
+      "The file is not an A/B Test Planner workspace export.",
+    ],
+    [JSON.stringify({ version: WORKSPACE_VERSION, toggles: {} }), '"toggles" must be a list.'],
+    [
+      JSON.stringify({ version: WORKSPACE_VERSION, tracker: { controlUsers: "-1" } }),
+      '"tracker" must hold whole-number counts for both arms.',
+    ],
+  ])("rejects %s", (text, error) => {
+    expect(parseWorkspaceFile(text)).toEqual({ error });
+  });
+
+  it("refuses files written by a newer format", () => {
+    expect(() => migrateWorkspace({ version: WORKSPACE_VERSION + 1 })).toThrow(/reads up to format/);
+  });
+});
+
+describe("reconcileItems", () => {
+  const options = {
+    kind: "toggle" as const,
+    key: (item: FeatureToggle) => item.id,
+    label: (item: FeatureToggle) => item.name,
+  };
+  const other: FeatureToggle = { ...toggle, id: "new-lobby-banner", name: "New Lobby Promo Banner" };
+  const edited: FeatureToggle = { ...toggle, rollout: 50 };
+
+  it("keeps the current copy on conflict when merging", () => {
+    const { items, report } = reconcileItems([toggle], [edited, other], "merge", options);
+
+    expect(items).toEqual([toggle, other]);
+    expect(report.map((entry) => entry.outcome)).toEqual(["conflict", "added"]);
+  });
+
+  it("matches the imported list when replacing", () => {
+    const { items, report } = reconcileItems([toggle, other], [edited], "replace", options);
+
+    expect(items).toEqual([edited]);
+    expect(report.map((entry) => [entry.name, entry.outcome])).toEqual([
+      ["Quick Withdrawal CTA", "replaced"],
+      ["New Lobby Promo Banner", "removed"],
+    ]);
+  });
+});
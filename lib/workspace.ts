@@ -0,0 +1,349 @@
+import { parseFormValues, type FormValues } from "@/lib/planner";
+import { parseReadinessConfig, type ReadinessConfig } from "@/lib/readiness";
+
+export type FeatureToggle = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  rollout: number;
+  description: string;
+};
+
+export type TrackerValues = {
+  controlUsers: string;
+  variantUsers: string;
+  controlConversions: string;
+  variantConversions: string;
+};
+
+// A user-written experiment brief layout; see lib/brief.ts for the placeholders it can use.
+export type BriefTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type WorkspaceTheme = "light" | "dark";
+
+// `id` is empty for scenarios that never had a shared ID (saved in localStorage by older versions).
+export type WorkspaceScenario = {
+  id: string;
+  name: string;
+  values: FormValues;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorkspaceDocument = {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scenarios: WorkspaceScenario[];
+  toggles: FeatureToggle[];
+  templates: BriefTemplate[];
+  readiness: ReadinessConfig;
+  tracker: TrackerValues;
+  theme: WorkspaceTheme;
+};
+
+export type ImportMode = "merge" | "replace";
+
+export type ImportOutcome = "added" | "replaced" | "unchanged" | "conflict" | "removed" | "invalid";
+
+export type ImportReportEntry = {
+  kind: "scenario" | "toggle" | "template" | "readiness" | "tracker" | "theme";
+  name: string;
+  outcome: ImportOutcome;
+  detail: string;
+};
+
+// A workspace file after migration and validation. Sections the file does not contain are null and
+// leave the current state alone, whatever the import mode.
+export type ImportedWorkspace = {
+  scenarios: WorkspaceScenario[] | null;
+  toggles: FeatureToggle[] | null;
+  templates: BriefTemplate[] | null;
+  readiness: ReadinessConfig | null;
+  tracker: TrackerValues | null;
+  theme: WorkspaceTheme | null;
+  report: ImportReportEntry[];
+};
+
+export const WORKSPACE_FORMAT = "ab-test-planner-workspace";
+export const WORKSPACE_VERSION = 1;
+
+type WorkspaceRecord = Record<string, unknown>;
+
+// migrations[n] upgrades a version-n document to version n + 1. When a stored shape changes, add a
+// step here and bump WORKSPACE_VERSION so exports and localStorage written by older builds still load.
+const WORKSPACE_MIGRATIONS: ((document: WorkspaceRecord) => WorkspaceRecord)[] = [
+  // 0 -> 1: the unversioned layout the planner kept in localStorage. Scenarios had no updatedAt and
+  // their IDs were slugs such as "checkout-1718000000000" rather than shared short IDs.
+  (document) => ({
+    ...document,
+    scenarios: Array.isArray(document.scenarios)
+      ? document.scenarios.map((item) =>
+          item && typeof item === "object"
+            ? { ...item, updatedAt: (item as WorkspaceRecord).updatedAt ?? (item as WorkspaceRecord).createdAt }
+            : item,
+        )
+      : document.scenarios,
+  }),
+];
+
+export function migrateWorkspace(document: WorkspaceRecord): WorkspaceRecord {
+  const version = document.version === undefined ? 0 : Number(document.version);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error("The workspace version is not a whole number.");
+  }
+  if (version > WORKSPACE_VERSION) {
+    throw new Error(
+      `This workspace uses format ${version}, but this version of the planner reads up to format ${WORKSPACE_VERSION}.`,
+    );
+  }
+
+  return WORKSPACE_MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), {
+    ...document,
+  });
+}
+
+function parseToggle(item: unknown): FeatureToggle | null {
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+
+  const record = item as WorkspaceRecord;
+  const toggle = {
+    id: String(record.id ?? ""),
+    name: String(record.name ?? ""),
+    enabled: Boolean(record.enabled),
+    rollout: Math.max(0, Math.min(100, Number(record.rollout) || 0)),
+    description: String(record.description ?? ""),
+  };
+  return toggle.id && toggle.name ? toggle : null;
+}
+
+function parseTemplate(item: unknown): BriefTemplate | null {
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+
+  const record = item as WorkspaceRecord;
+  const template = {
+    id: String(record.id ?? ""),
+    name: String(record.name ?? "").trim(),
+    body: typeof record.body === "string" ? record.body : "",
+  };
+  return template.id && template.name ? template : null;
+}
+
+function parseScenario(item: unknown): WorkspaceScenario | null {
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+
+  const record = item as WorkspaceRecord;
+  const name = typeof record.name === "string" ? record.name.trim() : "";
+  if (!name) {
+    return null;
+  }
+
+  const createdAt = String(record.createdAt ?? "");
+  const validCreatedAt = Number.isNaN(Date.parse(createdAt)) ? new Date().toISOString() : createdAt;
+  return {
+    id: String(record.id ?? ""),
+    name,
+    values: parseFormValues(record.values),
+    createdAt: validCreatedAt,
+    updatedAt: String(record.updatedAt ?? validCreatedAt),
+  };
+}
+
+function parseList<T>(
+  value: unknown,
+  kind: ImportReportEntry["kind"],
+  parseItem: (item: unknown) => T | null,
+): { items: T[]; report: ImportReportEntry[] } {
+  const items: T[] = [];
+  const report: ImportReportEntry[] = [];
+
+  (Array.isArray(value) ? value : []).forEach((item, index) => {
+    const parsed = parseItem(item);
+    if (parsed) {
+      items.push(parsed);
+      return;
+    }
+
+    const name = item && typeof item === "object" ? String((item as WorkspaceRecord).name ?? "") : "";
+    const requirement =
+      kind === "scenario" ? "a scenario needs a name" : `a ${kind} needs an id and a name`;
+    report.push({ kind, name: name || `Item ${index + 1}`, outcome: "invalid", detail: `Skipped: ${requirement}.` });
+  });
+
+  return { items, report };
+}
+
+export function parseToggleList(value: unknown): { items: FeatureToggle[]; report: ImportReportEntry[] } {
+  return parseList(value, "toggle", parseToggle);
+}
+
+export function parseTemplateList(value: unknown): { items: BriefTemplate[]; report: ImportReportEntry[] } {
+  return parseList(value, "template", parseTemplate);
+}
+
+export function parseScenarioList(value: unknown): { items: WorkspaceScenario[]; report: ImportReportEntry[] } {
+  return parseList(value, "scenario", parseScenario);
+}
+
+// Tracker counts are whole numbers kept as typed; missing ones read as 0.
+export function parseTracker(value: unknown): TrackerValues | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as WorkspaceRecord;
+  const count = (key: keyof TrackerValues) => {
+    const text = String(record[key] ?? "0").trim();
+    return /^\d+$/.test(text) ? text : null;
+  };
+  const tracker = {
+    controlUsers: count("controlUsers"),
+    variantUsers: count("variantUsers"),
+    controlConversions: count("controlConversions"),
+    variantConversions: count("variantConversions"),
+  };
+  return Object.values(tracker).every((item) => item !== null) ? (tracker as TrackerValues) : null;
+}
+
+// Reads an exported workspace file: checks the overall shape, migrates it to the current version and
+// validates every item. Items that fail validation are skipped and listed in the report.
+export function parseWorkspaceFile(text: string): ImportedWorkspace | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "The file is not valid JSON." };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "The file does not contain a workspace object." };
+  }
+
+  const record = raw as WorkspaceRecord;
+  const hasSections = ["scenarios", "toggles", "templates", "readiness", "tracker", "theme"].some((key) => key in record);
+  if ((record.format !== undefined && record.format !== WORKSPACE_FORMAT) || !hasSections) {
+    return { error: "The file is not an A/B Test Planner workspace export." };
+  }
+
+  let document: WorkspaceRecord;
+  try {
+    document = migrateWorkspace(record);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "The workspace could not be upgraded." };
+  }
+
+  for (const key of ["scenarios", "toggles", "templates"]) {
+    if (document[key] !== undefined && !Array.isArray(document[key])) {
+      return { error: `"${key}" must be a list.` };
+    }
+  }
+  if (document.theme !== undefined && document.theme !== "light" && document.theme !== "dark") {
+    return { error: '"theme" must be "light" or "dark".' };
+  }
+
+  const readiness = document.readiness === undefined ? null : parseReadinessConfig(document.readiness);
+  if (document.readiness !== undefined && !readiness) {
+    return { error: '"readiness" must hold a list of rules.' };
+  }
+
+  const tracker = document.tracker === undefined ? null : parseTracker(document.tracker);
+  if (document.tracker !== undefined && !tracker) {
+    return { error: '"tracker" must hold whole-number counts for both arms.' };
+  }
+
+  const scenarios = parseScenarioList(document.scenarios);
+  const toggles = parseToggleList(document.toggles);
+  const templates = parseTemplateList(document.templates);
+  return {
+    scenarios: document.scenarios === undefined ? null : scenarios.items,
+    toggles: document.toggles === undefined ? null : toggles.items,
+    templates: document.templates === undefined ? null : templates.items,
+    readiness,
+    tracker,
+    theme: document.theme === undefined ? null : (document.theme as WorkspaceTheme),
+    report: [...scenarios.report, ...toggles.report, ...templates.report],
+  };
+}
+
+export function buildWorkspaceDocument(
+  sections: Omit<WorkspaceDocument, "format" | "version" | "exportedAt">,
+): WorkspaceDocument {
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...sections,
+  };
+}
+
+// Lines imported items up with the current ones by key. Merge keeps every current item, adds new ones
+// and reports a conflict (keeping the current copy) when both sides changed the same item. Replace
+// takes the imported list as is and reports what it overwrote or removed.
+export function reconcileItems<T>(
+  current: T[],
+  imported: T[],
+  mode: ImportMode,
+  options: {
+    kind: ImportReportEntry["kind"];
+    key: (item: T) => string;
+    label: (item: T) => string;
+    same?: (a: T, b: T) => boolean;
+  },
+): { items: T[]; report: ImportReportEntry[] } {
+  const { kind, key, label } = options;
+  const same = options.same ?? ((a: T, b: T) => JSON.stringify(a) === JSON.stringify(b));
+  const currentByKey = new Map(current.map((item) => [key(item), item]));
+  const seen = new Set<string>();
+  const report: ImportReportEntry[] = [];
+  const accepted: T[] = [];
+
+  for (const item of imported) {
+    const itemKey = key(item);
+    if (seen.has(itemKey)) {
+      report.push({ kind, name: label(item), outcome: "invalid", detail: "Skipped: listed twice in the file." });
+      continue;
+    }
+    seen.add(itemKey);
+
+    const existing = currentByKey.get(itemKey);
+    if (!existing) {
+      accepted.push(item);
+      report.push({ kind, name: label(item), outcome: "added", detail: "Added." });
+    } else if (same(existing, item)) {
+      accepted.push(item);
+      report.push({ kind, name: label(item), outcome: "unchanged", detail: "Already up to date." });
+    } else if (mode === "replace") {
+      accepted.push(item);
+      report.push({ kind, name: label(item), outcome: "replaced", detail: "Overwritten by the imported copy." });
+    } else {
+      report.push({
+        kind,
+        name: label(item),
+        outcome: "conflict",
+        detail: "Differs from the current copy; kept the current one. Import with Replace to overwrite it.",
+      });
+    }
+  }
+
+  if (mode === "replace") {
+    for (const item of current) {
+      if (!seen.has(key(item))) {
+        report.push({ kind, name: label(item), outcome: "removed", detail: "Not in the imported file." });
+      }
+    }
+    return { items: accepted, report };
+  }
+
+  const added = accepted.filter((item) => !currentByKey.has(key(item)));
+  return { items: [...current, ...added], report };
+}
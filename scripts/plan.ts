@@ -0,0 +1,283 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+
+import { parse as parseYaml } from "yaml";
+
+import {
+  calculateResult,
+  collectPlanErrors,
+  FORM_VALUE_KEYS,
+  formatIsoDate,
+  formatNumber,
+  formatShare,
+  parseFormValues,
+  type PlanValidationErrors,
+} from "@/lib/planner";
+import {
+  buildReadinessSummary,
+  collectReadinessErrors,
+  DEFAULT_READINESS_CONFIG,
+  parseReadinessConfig,
+} from "@/lib/readiness";
+import { parseLinkedToggles, summarizeToggleLink, syncLinkedToggle, validateLinkedPlan } from "@/lib/toggle-links";
+
+// Exit codes: 0 plan passes, 1 plan is Risky or runs past --max-days, 2 bad usage or invalid inputs.
+const EXIT_GATE_FAILED = 1;
+const EXIT_INVALID_INPUT = 2;
+
+const CHOICE_FLAGS = [
+  "metricType",
+  "sampleSizeMethod",
+  "correction",
+  "designMode",
+  "spendingFunction",
+  "framework",
+  "trafficPattern",
+  "testType",
+] as const;
+
+// Funnel fields, the test margin and the linked toggle are left out of share links until they apply,
+// so they are not form value keys.
+const OPTIONAL_FLAGS = ["funnelTraffic", "funnelHoldout", "testMargin", "linkedToggle"] as const;
+
+type FieldFlag = (typeof FORM_VALUE_KEYS)[number] | (typeof CHOICE_FLAGS)[number] | (typeof OPTIONAL_FLAGS)[number];
+
+const FIELD_FLAGS: FieldFlag[] = [...FORM_VALUE_KEYS, ...CHOICE_FLAGS, ...OPTIONAL_FLAGS];
+
+const USAGE = `Usage: npm run plan -- [--file plan.json|plan.yaml] [--<field> value ...] [--max-days N] [--json]
+
+Plan fields use the same names as the form, share links and POST /api/plan, e.g.
+  --baselineRate 8 --minDetectableUplift 10 --dailyVisitors 12000 --designMode sequential
+  --extraVariants '[{"traffic":"25","uplift":"5"}]' --rampSteps '[{"days":"2","exposure":"20"}]'
+  --weeklyProfile 100,100,100,100,100,60,60 --roundToWholeWeeks
+  --testType non-inferiority --testMargin 5
+  --funnelTraffic 80000 --funnelSteps '[{"name":"Reach the cashier","share":"30"}]' --funnelHoldout 5
+  --guardrails '[{"name":"Churn rate","metricType":"conversion","betterWhen":"lower","baseline":"3","margin":"10"}]'
+Flags override values read from --file. Missing fields use the form defaults.
+A --file may also hold readinessRules (the rule editor's config, as in share links) to score
+readiness with your own rules instead of the defaults. A plan with --linkedToggle needs the
+feature toggles too, as --toggles '[{"id":"new-cashier","name":"New cashier","enabled":true,"rollout":30}]'
+or a toggles list in the file.
+
+Options:
+  --file <path>    Read plan fields from a JSON or YAML file
+  --max-days <n>   Fail when the planned duration is longer than n days
+  --json           Print the plan as JSON instead of a table
+  --help           Show this message
+
+Exits 0 when the plan passes, 1 when readiness is Risky or the duration exceeds --max-days,
+and 2 when the arguments or plan inputs are invalid.`;
+
+class UsageError extends Error {}
+
+function readPlanFile(path: string): Record<string, unknown> {
+  let contents: string;
+  try {
+    contents = readFileSync(path, "utf8");
+  } catch {
+    throw new UsageError(`Could not read ${path}.`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error) {
+    throw new UsageError(`Could not parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new UsageError(`${path} must contain an object of plan fields.`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function parseJsonFlag(name: string, raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new UsageError(`--${name} must be a JSON array.`);
+  }
+}
+
+function parseCommandLine(args: string[]) {
+  const { values: flags } = parseArgs({
+    args,
+    options: {
+      file: { type: "string" },
+      "max-days": { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean" },
+      roundToWholeWeeks: { type: "boolean" },
+      weeklyProfile: { type: "string" },
+      extraVariants: { type: "string" },
+      rampSteps: { type: "string" },
+      funnelSteps: { type: "string" },
+      guardrails: { type: "string" },
+      toggles: { type: "string" },
+      ...(Object.fromEntries(FIELD_FLAGS.map((key) => [key, { type: "string" }])) as Record<
+        FieldFlag,
+        { type: "string" }
+      >),
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+
+  const raw: Record<string, unknown> = flags.file ? readPlanFile(String(flags.file)) : {};
+  for (const key of FIELD_FLAGS) {
+    if (flags[key] !== undefined) {
+      raw[key] = flags[key];
+    }
+  }
+  if (flags.weeklyProfile !== undefined) {
+    raw.weeklyProfile = String(flags.weeklyProfile).split(",");
+  }
+  if (flags.extraVariants !== undefined) {
+    raw.extraVariants = parseJsonFlag("extraVariants", String(flags.extraVariants));
+  }
+  if (flags.rampSteps !== undefined) {
+    raw.rampSteps = parseJsonFlag("rampSteps", String(flags.rampSteps));
+  }
+  if (flags.funnelSteps !== undefined) {
+    raw.funnelSteps = parseJsonFlag("funnelSteps", String(flags.funnelSteps));
+  }
+  if (flags.guardrails !== undefined) {
+    raw.guardrails = parseJsonFlag("guardrails", String(flags.guardrails));
+  }
+  if (flags.toggles !== undefined) {
+    raw.toggles = parseJsonFlag("toggles", String(flags.toggles));
+  }
+  if (flags.roundToWholeWeeks !== undefined) {
+    raw.roundToWholeWeeks = flags.roundToWholeWeeks;
+  }
+
+  const maxDays = flags["max-days"] === undefined ? null : Number(flags["max-days"]);
+  if (maxDays !== null && (!Number.isInteger(maxDays) || maxDays < 1)) {
+    throw new UsageError("--max-days must be a whole number of days (>= 1).");
+  }
+
+  return { raw, maxDays, json: flags.json === true, help: flags.help === true };
+}
+
+function printTable(rows: [string, string][]) {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  for (const [label, value] of rows) {
+    console.log(`${label.padEnd(width)}  ${value}`);
+  }
+}
+
+function printPlanErrors(planErrors: PlanValidationErrors) {
+  console.error("Plan inputs are invalid:");
+  for (const [field, message] of Object.entries(planErrors.fieldErrors)) {
+    console.error(`  ${field}: ${message}`);
+  }
+  for (const { index, message } of planErrors.variantErrors) {
+    console.error(`  extraVariants[${index}]: ${message}`);
+  }
+  if (planErrors.globalError) {
+    console.error(`  ${planErrors.globalError}`);
+  }
+}
+
+function main(args: string[]): number {
+  let command: ReturnType<typeof parseCommandLine>;
+  try {
+    command = parseCommandLine(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(`\n${USAGE}`);
+    return EXIT_INVALID_INPUT;
+  }
+
+  if (command.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const linked = parseLinkedToggles(parseFormValues(command.raw), command.raw.toggles);
+  if ("error" in linked) {
+    if (command.json) {
+      console.log(JSON.stringify({ error: "invalid_toggles", message: linked.error }, null, 2));
+    } else {
+      console.error(linked.error);
+    }
+    return EXIT_INVALID_INPUT;
+  }
+
+  const values = syncLinkedToggle(parseFormValues(command.raw), linked.toggles);
+  const validation = validateLinkedPlan(values, linked.toggles);
+  const planErrors = collectPlanErrors(validation);
+  if (planErrors) {
+    if (command.json) {
+      console.log(JSON.stringify({ error: "validation_failed", ...planErrors }, null, 2));
+    } else {
+      printPlanErrors(planErrors);
+    }
+    return EXIT_INVALID_INPUT;
+  }
+
+  const readinessConfig =
+    command.raw.readinessRules === undefined
+      ? DEFAULT_READINESS_CONFIG
+      : parseReadinessConfig(command.raw.readinessRules);
+  const readinessErrors = readinessConfig
+    ? collectReadinessErrors(readinessConfig)
+    : ["readinessRules must be an object with a rules list."];
+  if (!readinessConfig || readinessErrors.length > 0) {
+    if (command.json) {
+      console.log(JSON.stringify({ error: "invalid_readiness_rules", readinessErrors }, null, 2));
+    } else {
+      console.error(["Readiness rules are invalid:", ...readinessErrors.map((error) => `  ${error}`)].join("\n"));
+    }
+    return EXIT_INVALID_INPUT;
+  }
+
+  const result = calculateResult(validation.parsed);
+  const toggleLink = summarizeToggleLink(values, linked.toggles);
+  const readiness = buildReadinessSummary(values, result, readinessConfig, {
+    contamination: toggleLink ? toggleLink.contaminatedShare : null,
+  });
+  const failures = [
+    ...(readiness.level === "Risky" ? [`Readiness is Risky (${readiness.score}/100).`] : []),
+    ...(command.maxDays !== null && result.durationDays > command.maxDays
+      ? [`Duration of ${result.durationDays} days exceeds the maximum of ${command.maxDays}.`]
+      : []),
+  ];
+
+  if (command.json) {
+    const report = { values, result, readiness, maxDays: command.maxDays, passed: failures.length === 0, failures };
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printTable([
+      ["Sample size per variant", formatNumber(result.sampleSizePerGroup)],
+      ...result.arms.map(
+        (arm): [string, string] => [
+          `  ${arm.label} (${formatShare(arm.trafficShare)} traffic)`,
+          formatNumber(arm.sampleSizePerGroup),
+        ],
+      ),
+      ...(result.guardrails.length > 0
+        ? [
+            ["Bottleneck", result.bottleneck ?? "Primary metric"] as [string, string],
+            ...result.guardrails.map((guardrail): [string, string] => [
+              `  ${guardrail.name}`,
+              formatNumber(guardrail.sampleSizePerGroup),
+            ]),
+          ]
+        : []),
+      ["Total sample size", formatNumber(result.totalSampleSize)],
+      ["Duration", `${formatNumber(result.durationDays)} days`],
+      ["Run dates", `${formatIsoDate(result.startDate)} to ${formatIsoDate(result.endDate)}`],
+      ["Readiness", `${readiness.level} (${readiness.score}/100)`],
+      ...readiness.checks.map((check): [string, string] => [`  ${check.label}`, check.passed ? "pass" : "FAIL"]),
+    ]);
+    for (const failure of failures) {
+      console.error(`\n${failure}`);
+    }
+  }
+
+  return failures.length > 0 ? EXIT_GATE_FAILED : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));